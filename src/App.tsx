@@ -12,16 +12,27 @@ import InputLabel from '@mui/material/InputLabel';
 import Box from '@mui/material/Box';
 import Grid from '@mui/material/Grid';
 import Paper from '@mui/material/Paper';
+import Chip from '@mui/material/Chip';
+import Switch from '@mui/material/Switch';
+import FormControlLabel from '@mui/material/FormControlLabel';
+
+import { EXCHANGES, ExchangeId, getExchangeAdapter } from './api/exchanges';
+import { formatInterval } from './utils/intervals';
 
 // Import components
 import KlineChart from './components/KlineChart';
 import OrderBook from './components/OrderBook';
 import TradeVolume from './components/TradeVolume';
 import FundingRate from './components/FundingRate';
+import OpenInterest from './components/OpenInterest';
+import Basis from './components/Basis';
 import PriceChange from './components/PriceChange';
 import VolumePulse from './components/VolumePulse';
 import LiquidationPoints from './components/LiquidationPoints';
+import LongShortRatio from './components/LongShortRatio';
 import AskMeAnything from './components/AskMeAnything';
+import ApiWeight from './components/ApiWeight';
+import SymbolPicker from './components/SymbolPicker';
 
 // Create dark theme
 const darkTheme = createTheme({
@@ -111,34 +122,39 @@ const StyledPaper = styled(Paper)`
   }
 `;
 
-// Trading pair options
-const symbols = [
-  'BTCUSDT',
-  'ETHUSDT',
-  'BNBUSDT',
-  'SOLUSDT',
-  'ADAUSDT',
-  'DOGEUSDT',
-  'XRPUSDT',
-  'DOTUSDT',
-  'AVAXUSDT',
-  'MATICUSDT',
-];
+const UnavailableContainer = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  height: 100%;
+  padding: 16px;
+  color: #787b86;
+  text-align: center;
+`;
 
-// Time interval options
-const intervals = [
-  { value: '1m', label: '1 Minute' },
-  { value: '5m', label: '5 Minutes' },
-  { value: '15m', label: '15 Minutes' },
-  { value: '1h', label: '1 Hour' },
-  { value: '4h', label: '4 Hours' },
-  { value: '1d', label: 'Daily' },
-];
+// Panels built on Binance-only futures and trade endpoints have no OKX, Bybit
+// or simulated counterpart, so other venues show this instead of Binance data
+const PanelUnavailable: React.FC<{ title: string; exchange: ExchangeId }> = ({ title, exchange }) => (
+  <UnavailableContainer>
+    <Typography variant="body2">
+      {title} is not available {exchange === 'simulated' ? 'in demo mode' : `on ${getExchangeAdapter(exchange).name}`}
+    </Typography>
+  </UnavailableContainer>
+);
 
 function App() {
   // State
+  const [exchange, setExchange] = useState<ExchangeId>('binance');
   const [symbol, setSymbol] = useState('BTCUSDT');
   const [interval, setInterval] = useState('1h');
+  const [demoMode, setDemoMode] = useState(false);
+  
+  // Demo mode swaps the panels onto the seeded simulated market
+  const activeExchange: ExchangeId = demoMode ? 'simulated' : exchange;
+  const hasBinanceData = activeExchange === 'binance';
+  // Venues serve different intervals; fall back to hourly when the chosen one is missing
+  const intervals = getExchangeAdapter(activeExchange).intervals;
+  const activeInterval = intervals.includes(interval) ? interval : '1h';
   
   return (
     <ThemeProvider theme={darkTheme}>
@@ -150,15 +166,39 @@ function App() {
               Cryptocurrency Trading Data Analysis Platform
             </Typography>
             
+            {demoMode && (
+              <Chip
+                label="SIMULATED"
+                color="warning"
+                size="small"
+                sx={{ mr: 2, fontWeight: 'bold', letterSpacing: 1 }}
+              />
+            )}
+            
+            <FormControlLabel
+              control={
+                <Switch
+                  size="small"
+                  checked={demoMode}
+                  onChange={(e) => setDemoMode(e.target.checked)}
+                />
+              }
+              label="Demo"
+              sx={{ mr: 2, color: '#d1d4dc' }}
+            />
+            
+            <ApiWeight />
+            
             <Box sx={{ minWidth: 120, mr: 2 }}>
               <FormControl fullWidth size="small">
-                <InputLabel id="symbol-select-label">Trading Pair</InputLabel>
+                <InputLabel id="exchange-select-label">Exchange</InputLabel>
                 <Select
-                  labelId="symbol-select-label"
-                  id="symbol-select"
-                  value={symbol}
-                  label="Trading Pair"
-                  onChange={(e) => setSymbol(e.target.value as string)}
+                  labelId="exchange-select-label"
+                  id="exchange-select"
+                  value={exchange}
+                  label="Exchange"
+                  disabled={demoMode}
+                  onChange={(e) => setExchange(e.target.value as ExchangeId)}
                   sx={{ 
                     '& .MuiOutlinedInput-notchedOutline': { 
                       borderColor: '#2a2e39' 
@@ -168,20 +208,24 @@ function App() {
                     }
                   }}
                 >
-                  {symbols.map((sym) => (
-                    <MenuItem key={sym} value={sym}>{sym}</MenuItem>
+                  {EXCHANGES.map((adapter) => (
+                    <MenuItem key={adapter.id} value={adapter.id}>{adapter.name}</MenuItem>
                   ))}
                 </Select>
               </FormControl>
             </Box>
             
+            <Box sx={{ mr: 2 }}>
+              <SymbolPicker exchange={activeExchange} value={symbol} onChange={setSymbol} />
+            </Box>
+            
             <Box sx={{ minWidth: 120 }}>
               <FormControl fullWidth size="small">
                 <InputLabel id="interval-select-label">Time Interval</InputLabel>
                 <Select
                   labelId="interval-select-label"
                   id="interval-select"
-                  value={interval}
+                  value={activeInterval}
                   label="Time Interval"
                   onChange={(e) => setInterval(e.target.value as string)}
                   sx={{ 
@@ -194,7 +238,7 @@ function App() {
                   }}
                 >
                   {intervals.map((int) => (
-                    <MenuItem key={int.value} value={int.value}>{int.label}</MenuItem>
+                    <MenuItem key={int} value={int}>{formatInterval(int)}</MenuItem>
                   ))}
                 </Select>
               </FormControl>
@@ -207,8 +251,8 @@ function App() {
             {/* First row: Candlestick Chart */}
             <Grid item xs={12}>
               <SectionTitle variant="h6">Candlestick Chart</SectionTitle>
-              <StyledPaper sx={{ height: 450 }}>
-                <KlineChart symbol={symbol} interval={interval} height={450} />
+              <StyledPaper sx={{ height: 560 }}>
+                <KlineChart exchange={activeExchange} symbol={symbol} interval={activeInterval} />
               </StyledPaper>
             </Grid>
             
@@ -216,52 +260,83 @@ function App() {
             <Grid item xs={12} md={6}>
               <SectionTitle variant="h6">Order Book</SectionTitle>
               <StyledPaper sx={{ height: 400 }}>
-                <OrderBook symbol={symbol} depth={10} refreshInterval={1000} />
+                <OrderBook exchange={activeExchange} symbol={symbol} depth={10} />
               </StyledPaper>
             </Grid>
             
             <Grid item xs={12} md={6}>
               <SectionTitle variant="h6">Trade Volume</SectionTitle>
               <StyledPaper sx={{ height: 400 }}>
-                <TradeVolume symbol={symbol} refreshInterval={5000} />
+                {hasBinanceData
+                  ? <TradeVolume symbol={symbol} />
+                  : <PanelUnavailable title="Trade Volume" exchange={activeExchange} />}
               </StyledPaper>
             </Grid>
             
-            {/* Third row: Funding Rate and 24h Price Change */}
+            {/* Third row: Funding Rate and Open Interest */}
             <Grid item xs={12} md={6}>
               <SectionTitle variant="h6">Funding Rate</SectionTitle>
               <StyledPaper sx={{ height: 300 }}>
-                <FundingRate symbol={symbol} refreshInterval={60000} />
+                <FundingRate exchange={activeExchange} symbol={symbol} />
               </StyledPaper>
             </Grid>
             
+            <Grid item xs={12} md={6}>
+              <SectionTitle variant="h6">Open Interest</SectionTitle>
+              <StyledPaper sx={{ height: 300 }}>
+                {hasBinanceData
+                  ? <OpenInterest symbol={symbol} interval={activeInterval} />
+                  : <PanelUnavailable title="Open Interest" exchange={activeExchange} />}
+              </StyledPaper>
+            </Grid>
+            
+            {/* Fourth row: Basis and Long/Short Ratio */}
+            <Grid item xs={12} md={6}>
+              <SectionTitle variant="h6">Basis</SectionTitle>
+              <StyledPaper sx={{ height: 350 }}>
+                {hasBinanceData
+                  ? <Basis symbol={symbol} interval={activeInterval} />
+                  : <PanelUnavailable title="Basis" exchange={activeExchange} />}
+              </StyledPaper>
+            </Grid>
+            
+            <Grid item xs={12} md={6}>
+              <SectionTitle variant="h6">Long/Short Ratio</SectionTitle>
+              <StyledPaper sx={{ height: 350 }}>
+                {hasBinanceData
+                  ? <LongShortRatio symbol={symbol} interval={activeInterval} />
+                  : <PanelUnavailable title="Long/Short Ratio" exchange={activeExchange} />}
+              </StyledPaper>
+            </Grid>
+            
+            {/* Fifth row: 24h Price Change and Volume Pulse */}
             <Grid item xs={12} md={6}>
               <SectionTitle variant="h6">24h Price Change</SectionTitle>
               <StyledPaper sx={{ height: 300 }}>
-                <PriceChange symbol={symbol} refreshInterval={10000} />
+                <PriceChange exchange={activeExchange} symbol={symbol} />
               </StyledPaper>
             </Grid>
             
-            {/* Fourth row: Volume Pulse and Liquidation Points */}
             <Grid item xs={12} md={6}>
               <SectionTitle variant="h6">Volume Pulse</SectionTitle>
               <StyledPaper sx={{ height: 300 }}>
-                <VolumePulse symbol={symbol} interval={interval} />
+                <VolumePulse exchange={activeExchange} symbol={symbol} interval={activeInterval} />
               </StyledPaper>
             </Grid>
             
-            <Grid item xs={12} md={6}>
+            {/* Sixth row: Liquidation Points */}
+            <Grid item xs={12}>
               <SectionTitle variant="h6">Liquidation Points</SectionTitle>
-              <StyledPaper sx={{ height: 300 }}>
-                <LiquidationPoints symbol={symbol} />
+              <StyledPaper sx={{ height: 350 }}>
+                <LiquidationPoints exchange={activeExchange} symbol={symbol} interval={activeInterval} />
               </StyledPaper>
             </Grid>
             
-            {/* Fifth row: AI Assistant */}
+            {/* Seventh row: AI Assistant */}
             <Grid item xs={12}>
               <SectionTitle variant="h6">AI Analysis Assistant</SectionTitle>
               <StyledPaper sx={{ height: 350 }}>
-                <AskMeAnything symbol={symbol} />
+                <AskMeAnything exchange={activeExchange} symbol={symbol} />
               </StyledPaper>
             </Grid>
           </Grid>
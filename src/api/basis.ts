@@ -0,0 +1,109 @@
+/**
+ * Spot-futures basis
+ * This file contains the basis calculations behind the Basis panel: futures
+ * prices against the spot price, annualized, and the quarterly term structure.
+ * A delivery contract's basis closes by its delivery date, so it is annualized
+ * over the time left. A perpetual has no expiry; its premium is paid away
+ * through funding, so it is annualized over one funding interval.
+ */
+
+import { fetchDeliveryContracts, fetchPremiumIndex } from './binance';
+import { EXCHANGE_INFO_STALE_TIME } from './exchangeInfo';
+import { fetchQuery, getQueryKey } from './marketDataStore';
+import { DeliveryContract, KlineData } from '../types/api';
+
+// Most USD-M perpetuals settle funding every 8 hours
+export const PERPETUAL_FUNDING_INTERVAL = 8 * 60 * 60 * 1000;
+
+const YEAR = 365 * 24 * 60 * 60 * 1000;
+
+export interface Basis {
+  // Futures price minus spot price
+  basis: number;
+  basisPercent: number;
+  // Null when the contract has expired
+  annualizedPercent: number | null;
+}
+
+export interface TermStructureContract extends DeliveryContract {
+  markPrice: number;
+  indexPrice: number;
+}
+
+export interface BasisHistoryPoint {
+  time: string;
+  // Perpetual close against spot close, in percent
+  basisPercent: number;
+  // Premium index close, in percent
+  premiumPercent: number | null;
+}
+
+/**
+ * Basis of a futures price against the spot price
+ * @param price - Futures price
+ * @param spotPrice - Spot price
+ * @param horizon - Milliseconds over which the basis converges (time to delivery or funding interval)
+ * @returns Absolute, percentage and annualized basis
+ */
+export const getBasis = (price: number, spotPrice: number, horizon: number): Basis => {
+  const basis = price - spotPrice;
+  const basisPercent = spotPrice > 0 ? (basis / spotPrice) * 100 : 0;
+  return {
+    basis,
+    basisPercent,
+    annualizedPercent: horizon > 0 ? basisPercent * (YEAR / horizon) : null
+  };
+};
+
+/**
+ * Fetch the quarterly contracts of a pair with their mark and index prices
+ * @param pair - Underlying pair (e.g., 'BTCUSDT')
+ * @returns Promise with the trading contracts, nearest delivery first; empty when the pair has none
+ */
+export const fetchTermStructure = async (pair: string): Promise<TermStructureContract[]> => {
+  // The contract list changes once a quarter, so it shares the listing cache time
+  const contracts = await fetchQuery(
+    getQueryKey('deliveryContracts', {}),
+    fetchDeliveryContracts,
+    EXCHANGE_INFO_STALE_TIME
+  );
+
+  const listed = contracts
+    .filter(contract => contract.pair === pair && contract.status === 'TRADING')
+    .sort((a, b) => (a.deliveryDate < b.deliveryDate ? -1 : 1));
+
+  return Promise.all(listed.map(async contract => {
+    const premium = await fetchPremiumIndex(contract.symbol);
+    return { ...contract, markPrice: premium.markPrice, indexPrice: premium.indexPrice };
+  }));
+};
+
+/**
+ * Join perpetual, spot and premium index candles of the same interval
+ * @param spot - Spot candles, oldest first
+ * @param perpetual - Perpetual candles, oldest first
+ * @param premium - Premium index candles, oldest first
+ * @returns One point per perpetual candle that has a spot candle, oldest first
+ */
+export const joinBasisHistory = (
+  spot: KlineData[],
+  perpetual: KlineData[],
+  premium: KlineData[]
+): BasisHistoryPoint[] => {
+  const spotCloses = new Map<string, number>();
+  spot.forEach(candle => spotCloses.set(candle.time, candle.close));
+  const premiums = new Map<string, number>();
+  premium.forEach(candle => premiums.set(candle.time, candle.close));
+
+  return perpetual
+    .filter(candle => spotCloses.has(candle.time))
+    .map(candle => {
+      const spotClose = spotCloses.get(candle.time) as number;
+      const premiumClose = premiums.get(candle.time);
+      return {
+        time: candle.time,
+        basisPercent: ((candle.close - spotClose) / spotClose) * 100,
+        premiumPercent: premiumClose !== undefined ? premiumClose * 100 : null
+      };
+    });
+};
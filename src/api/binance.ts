@@ -3,86 +3,180 @@
  * This file contains functions to interact with the Binance API
  */
 
-// Base URLs for Binance API
-// We're using direct API calls to avoid Vercel authentication issues
-const BINANCE_API_BASE_URL = 'https://api.binance.com';
-const BINANCE_FUTURES_API_BASE_URL = 'https://fapi.binance.com';
+import {
+  binanceRequest,
+  BINANCE_API_BASE_URL,
+  BINANCE_FUTURES_API_BASE_URL
+} from './binanceClient';
+import {
+  DeliveryContract,
+  FundingRate,
+  KlineData,
+  LongShortRatio,
+  OpenInterest,
+  OpenInterestHist,
+  OrderBook,
+  PremiumIndex,
+  SymbolInfo,
+  TakerLongShortRatio,
+  TickerPriceChange,
+  Trade
+} from '../types/api';
+import { getIntervalDuration, INTERVALS } from '../utils/intervals';
+import { decimalsFromStep } from '../utils/precision';
+
+// Binance returns klines as an array of arrays with the following structure:
+// [
+//   [
+//     1499040000000,      // Open time
+//     "0.01634790",       // Open
+//     "0.80000000",       // High
+//     "0.01575800",       // Low
+//     "0.01577100",       // Close
+//     "148976.11427815",  // Volume
+//     1499644799999,      // Close time
+//     "2434.19055334",    // Quote asset volume
+//     308,                // Number of trades
+//     "1756.87402397",    // Taker buy base asset volume
+//     "28.46694368",      // Taker buy quote asset volume
+//     "17928899.62484339" // Ignore
+//   ]
+// ]
+const parseKlines = (data: any): KlineData[] => {
+  return data.map((item: any) => ({
+    time: new Date(item[0]).toISOString(),
+    open: parseFloat(item[1]),
+    high: parseFloat(item[2]),
+    low: parseFloat(item[3]),
+    close: parseFloat(item[4]),
+    volume: parseFloat(item[5]),
+    closeTime: new Date(item[6]).toISOString(),
+    quoteVolume: parseFloat(item[7]),
+    trades: item[8],
+    takerBuyBaseVolume: parseFloat(item[9]),
+    takerBuyQuoteVolume: parseFloat(item[10]),
+    isRising: parseFloat(item[4]) >= parseFloat(item[1])
+  }));
+};
 
 /**
  * Fetch kline (candlestick) data for a symbol and interval
  * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
  * @param interval - Time interval (e.g., '1m', '1h', '1d')
- * @param limit - Number of data points to fetch (default: 100)
+ * @param limit - Number of data points to fetch (default: 100, max: 1000)
+ * @param startTime - Only return candles opened at or after this epoch ms
+ * @param endTime - Only return candles opened at or before this epoch ms
  * @returns Promise with kline data
  */
-export const fetchKlineData = async (symbol: string, interval: string, limit: number = 100) => {
+export const fetchKlineData = async (
+  symbol: string,
+  interval: string,
+  limit: number = 100,
+  startTime?: number,
+  endTime?: number
+): Promise<KlineData[]> => {
   try {
-    const response = await fetch(
-      `${BINANCE_API_BASE_URL}/api/v3/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`
+    const data = await binanceRequest(
+      BINANCE_API_BASE_URL,
+      '/api/v3/klines',
+      { symbol, interval, limit, startTime, endTime },
+      2
     );
-    
-    if (!response.ok) {
-      throw new Error(`Error fetching kline data: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    
-    // Transform the data to a more usable format
-    // Binance returns an array of arrays with the following structure:
-    // [
-    //   [
-    //     1499040000000,      // Open time
-    //     "0.01634790",       // Open
-    //     "0.80000000",       // High
-    //     "0.01575800",       // Low
-    //     "0.01577100",       // Close
-    //     "148976.11427815",  // Volume
-    //     1499644799999,      // Close time
-    //     "2434.19055334",    // Quote asset volume
-    //     308,                // Number of trades
-    //     "1756.87402397",    // Taker buy base asset volume
-    //     "28.46694368",      // Taker buy quote asset volume
-    //     "17928899.62484339" // Ignore
-    //   ]
-    // ]
-    return data.map((item: any) => ({
-      time: new Date(item[0]).toISOString(),
-      open: parseFloat(item[1]),
-      high: parseFloat(item[2]),
-      low: parseFloat(item[3]),
-      close: parseFloat(item[4]),
-      volume: parseFloat(item[5]),
-      closeTime: new Date(item[6]).toISOString(),
-      quoteVolume: parseFloat(item[7]),
-      trades: item[8],
-      takerBuyBaseVolume: parseFloat(item[9]),
-      takerBuyQuoteVolume: parseFloat(item[10]),
-      isRising: parseFloat(item[4]) >= parseFloat(item[1])
-    }));
+    return parseKlines(data);
   } catch (error) {
     console.error('Error fetching kline data:', error);
     throw error;
   }
 };
 
+// Request weight of the futures kline endpoints grows with the limit
+const getFuturesKlineWeight = (limit: number) => {
+  if (limit < 100) return 1;
+  if (limit < 500) return 2;
+  if (limit <= 1000) return 5;
+  return 10;
+};
+
+// Kline intervals served by the futures API, which has no 1s candles
+export const FUTURES_KLINE_INTERVALS = INTERVALS.filter(interval => interval !== '1s');
+
+/**
+ * Fetch kline data of a perpetual contract
+ * Note: This is a futures API endpoint, not spot
+ * @param symbol - Contract symbol (e.g., 'BTCUSDT')
+ * @param interval - Time interval (e.g., '1m', '1h', '1d')
+ * @param limit - Number of data points to fetch (default: 100, max: 1500)
+ * @returns Promise with kline data
+ */
+export const fetchFuturesKlineData = async (
+  symbol: string,
+  interval: string,
+  limit: number = 100
+): Promise<KlineData[]> => {
+  try {
+    const data = await binanceRequest(
+      BINANCE_FUTURES_API_BASE_URL,
+      '/fapi/v1/klines',
+      { symbol, interval, limit },
+      getFuturesKlineWeight(limit)
+    );
+    return parseKlines(data);
+  } catch (error) {
+    console.error('Error fetching futures kline data:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch premium index klines of a perpetual contract
+ * Note: This is a futures API endpoint, not spot
+ * @param symbol - Contract symbol (e.g., 'BTCUSDT')
+ * @param interval - Time interval (e.g., '1m', '1h', '1d')
+ * @param limit - Number of data points to fetch (default: 100, max: 1500)
+ * @returns Promise with kline data whose prices are the premium as a fraction of the index; volumes are zero
+ */
+export const fetchPremiumIndexKlines = async (
+  symbol: string,
+  interval: string,
+  limit: number = 100
+): Promise<KlineData[]> => {
+  try {
+    const data = await binanceRequest(
+      BINANCE_FUTURES_API_BASE_URL,
+      '/fapi/v1/premiumIndexKlines',
+      { symbol, interval, limit },
+      getFuturesKlineWeight(limit)
+    );
+    return parseKlines(data);
+  } catch (error) {
+    console.error('Error fetching premium index klines:', error);
+    throw error;
+  }
+};
+
+// Request weight of /api/v3/depth grows with the requested depth
+const getDepthWeight = (limit: number) => {
+  if (limit <= 100) return 5;
+  if (limit <= 500) return 25;
+  if (limit <= 1000) return 50;
+  return 250;
+};
+
 /**
  * Fetch order book data for a symbol
  * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
  * @param limit - Depth of the order book (default: 20)
  * @returns Promise with order book data
  */
-export const fetchOrderBook = async (symbol: string, limit: number = 20) => {
+export const fetchOrderBook = async (symbol: string, limit: number = 20): Promise<OrderBook> => {
   try {
-    const response = await fetch(
-      `${BINANCE_API_BASE_URL}/api/v3/depth?symbol=${symbol}&limit=${limit}`
+    const data = await binanceRequest(
+      BINANCE_API_BASE_URL,
+      '/api/v3/depth',
+      { symbol, limit },
+      getDepthWeight(limit)
     );
     
-    if (!response.ok) {
-      throw new Error(`Error fetching order book: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    
     // Transform the data to a more usable format
     // Binance returns an object with the following structure:
     // {
@@ -122,18 +216,15 @@ export const fetchOrderBook = async (symbol: string, limit: number = 20) => {
  * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
  * @returns Promise with 24-hour price change statistics
  */
-export const fetch24hTickerPriceChange = async (symbol: string) => {
+export const fetch24hTickerPriceChange = async (symbol: string): Promise<TickerPriceChange> => {
   try {
-    const response = await fetch(
-      `${BINANCE_API_BASE_URL}/api/v3/ticker/24hr?symbol=${symbol}`
+    const data = await binanceRequest(
+      BINANCE_API_BASE_URL,
+      '/api/v3/ticker/24hr',
+      { symbol },
+      2
     );
     
-    if (!response.ok) {
-      throw new Error(`Error fetching 24h ticker: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    
     // Return the data as is, it's already in a usable format
     return {
       symbol: data.symbol,
@@ -170,18 +261,15 @@ export const fetch24hTickerPriceChange = async (symbol: string) => {
  * @param limit - Number of trades to fetch (default: 100)
  * @returns Promise with recent trades data
  */
-export const fetchRecentTrades = async (symbol: string, limit: number = 100) => {
+export const fetchRecentTrades = async (symbol: string, limit: number = 100): Promise<Trade[]> => {
   try {
-    const response = await fetch(
-      `${BINANCE_API_BASE_URL}/api/v3/trades?symbol=${symbol}&limit=${limit}`
+    const data = await binanceRequest(
+      BINANCE_API_BASE_URL,
+      '/api/v3/trades',
+      { symbol, limit },
+      25
     );
     
-    if (!response.ok) {
-      throw new Error(`Error fetching recent trades: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    
     // Transform the data to a more usable format
     // Binance returns an array of objects with the following structure:
     // [
@@ -211,6 +299,60 @@ export const fetchRecentTrades = async (symbol: string, limit: number = 100) =>
   }
 };
 
+/**
+ * Fetch aggregated trades for a symbol
+ * Either fromId or a startTime/endTime range (at most one hour) can be given
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param options - Range or first aggregate trade ID, and page size (max: 1000)
+ * @returns Promise with aggregated trades, oldest first
+ */
+export const fetchAggTrades = async (
+  symbol: string,
+  options: { fromId?: number; startTime?: number; endTime?: number; limit?: number } = {}
+): Promise<Trade[]> => {
+  try {
+    const { fromId, startTime, endTime, limit = 1000 } = options;
+    const data = await binanceRequest(
+      BINANCE_API_BASE_URL,
+      '/api/v3/aggTrades',
+      { symbol, fromId, startTime, endTime, limit },
+      4
+    );
+    
+    // Binance returns an array of objects with the following structure:
+    // [
+    //   {
+    //     "a": 26129,         // Aggregate tradeId
+    //     "p": "0.01633102",  // Price
+    //     "q": "4.70443515",  // Quantity
+    //     "f": 27781,         // First tradeId
+    //     "l": 27781,         // Last tradeId
+    //     "T": 1498793709153, // Timestamp
+    //     "m": true,          // Was the buyer the maker?
+    //     "M": true           // Was the trade the best price match?
+    //   }
+    // ]
+    return data.map((item: any) => {
+      const price = parseFloat(item.p);
+      const quantity = parseFloat(item.q);
+
+      return {
+        id: item.a,
+        price,
+        quantity,
+        quoteQuantity: price * quantity,
+        time: new Date(item.T).toISOString(),
+        isBuyerMaker: item.m,
+        isBestMatch: item.M,
+        isBuy: !item.m
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching aggregated trades:', error);
+    throw error;
+  }
+};
+
 /**
  * Fetch funding rate for a symbol (for futures)
  * Note: This is a futures API endpoint, not spot
@@ -218,19 +360,16 @@ export const fetchRecentTrades = async (symbol: string, limit: number = 100) =>
  * @param limit - Number of funding rates to fetch (default: 100)
  * @returns Promise with funding rate data
  */
-export const fetchFundingRate = async (symbol: string, limit: number = 100) => {
+export const fetchFundingRate = async (symbol: string, limit: number = 100): Promise<FundingRate[]> => {
   try {
     // Note: Using the futures API for funding rate
-    const response = await fetch(
-      `${BINANCE_FUTURES_API_BASE_URL}/fapi/v1/fundingRate?symbol=${symbol}&limit=${limit}`
+    const data = await binanceRequest(
+      BINANCE_FUTURES_API_BASE_URL,
+      '/fapi/v1/fundingRate',
+      { symbol, limit },
+      1
     );
     
-    if (!response.ok) {
-      throw new Error(`Error fetching funding rate: ${response.statusText}`);
-    }
-    
-    const data = await response.json();
-    
     // Transform the data to a more usable format
     // Binance returns an array of objects with the following structure:
     // [
@@ -252,40 +391,373 @@ export const fetchFundingRate = async (symbol: string, limit: number = 100) => {
 };
 
 /**
- * Fetch liquidation orders (for futures)
+ * Fetch the mark price and upcoming funding of a perpetual contract
  * Note: This is a futures API endpoint, not spot
  * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
- * @param limit - Number of liquidation orders to fetch (default: 100)
- * @returns Promise with liquidation orders data
+ * @returns Promise with premium index data
  */
-export const fetchLiquidationOrders = async (symbol: string, limit: number = 100) => {
+export const fetchPremiumIndex = async (symbol: string): Promise<PremiumIndex> => {
   try {
-    // Note: Using the futures API for liquidation orders
-    const response = await fetch(
-      `${BINANCE_FUTURES_API_BASE_URL}/fapi/v1/allForceOrders?symbol=${symbol}&limit=${limit}`
+    const data = await binanceRequest(
+      BINANCE_FUTURES_API_BASE_URL,
+      '/fapi/v1/premiumIndex',
+      { symbol },
+      1
     );
     
-    if (!response.ok) {
-      throw new Error(`Error fetching liquidation orders: ${response.statusText}`);
-    }
+    // Binance returns an object with the following structure:
+    // {
+    //   "symbol": "BTCUSDT",
+    //   "markPrice": "11793.63104562",
+    //   "indexPrice": "11781.80495970",
+    //   "estimatedSettlePrice": "11781.16138815",
+    //   "lastFundingRate": "0.00038246",   // Rate to be settled at nextFundingTime
+    //   "interestRate": "0.00010000",
+    //   "nextFundingTime": 1597392000000,
+    //   "time": 1597370495002
+    // }
+    return {
+      symbol: data.symbol,
+      markPrice: parseFloat(data.markPrice),
+      indexPrice: parseFloat(data.indexPrice),
+      estimatedSettlePrice: parseFloat(data.estimatedSettlePrice),
+      fundingRate: parseFloat(data.lastFundingRate),
+      interestRate: parseFloat(data.interestRate),
+      nextFundingTime: new Date(data.nextFundingTime).toISOString(),
+      time: new Date(data.time).toISOString()
+    };
+  } catch (error) {
+    console.error('Error fetching premium index:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch the current open interest of a perpetual contract
+ * Note: This is a futures API endpoint, not spot
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @returns Promise with open interest data
+ */
+export const fetchOpenInterest = async (symbol: string): Promise<OpenInterest> => {
+  try {
+    const data = await binanceRequest(
+      BINANCE_FUTURES_API_BASE_URL,
+      '/fapi/v1/openInterest',
+      { symbol },
+      1
+    );
+    
+    // Binance returns an object with the following structure:
+    // {
+    //   "openInterest": "10659.509",  // Contracts
+    //   "symbol": "BTCUSDT",
+    //   "time": 1589437530011
+    // }
+    return {
+      symbol: data.symbol,
+      openInterest: parseFloat(data.openInterest),
+      time: new Date(data.time).toISOString()
+    };
+  } catch (error) {
+    console.error('Error fetching open interest:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch the delivery contracts listed on the USD-M futures market
+ * Note: This is a futures API endpoint, not spot
+ * @returns Promise with the quarterly contracts, including ones no longer trading
+ */
+export const fetchDeliveryContracts = async (): Promise<DeliveryContract[]> => {
+  try {
+    const data = await binanceRequest(BINANCE_FUTURES_API_BASE_URL, '/fapi/v1/exchangeInfo', {}, 1);
+
+    // Quarterly contracts are listed as e.g. BTCUSDT_250627 with "pair": "BTCUSDT",
+    // "contractType": "CURRENT_QUARTER" and "deliveryDate": 1751011200000
+    return data.symbols
+      .filter((item: any) => item.contractType === 'CURRENT_QUARTER' || item.contractType === 'NEXT_QUARTER')
+      .map((item: any) => ({
+        symbol: item.symbol,
+        pair: item.pair,
+        status: item.status,
+        contractType: item.contractType,
+        deliveryDate: new Date(item.deliveryDate).toISOString()
+      }));
+  } catch (error) {
+    console.error('Error fetching delivery contracts:', error);
+    throw error;
+  }
+};
+
+// Periods served by the /futures/data statistics endpoints
+export const FUTURES_DATA_PERIODS = ['5m', '15m', '30m', '1h', '2h', '4h', '6h', '12h', '1d'];
+
+/**
+ * Statistics period that best matches a kline interval
+ * @param interval - Kline interval (e.g., '1m', '1h', '1w')
+ * @returns The shortest period at least as long as the interval, capped at '1d'
+ */
+export const getFuturesDataPeriod = (interval: string): string => {
+  const duration = getIntervalDuration(interval);
+  return FUTURES_DATA_PERIODS.find(period => getIntervalDuration(period) >= duration) || '1d';
+};
+
+/**
+ * Fetch open interest statistics of a perpetual contract
+ * Note: This is a futures data endpoint; only the last 30 days are available
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param period - Statistics period ('5m', '15m', '30m', '1h', '2h', '4h', '6h', '12h', '1d')
+ * @param limit - Number of periods to fetch (default: 30, max: 500)
+ * @param startTime - Only return periods at or after this epoch ms
+ * @param endTime - Only return periods at or before this epoch ms
+ * @returns Promise with open interest history, oldest first
+ */
+export const fetchOpenInterestHist = async (
+  symbol: string,
+  period: string,
+  limit: number = 30,
+  startTime?: number,
+  endTime?: number
+): Promise<OpenInterestHist[]> => {
+  try {
+    const data = await binanceRequest(
+      BINANCE_FUTURES_API_BASE_URL,
+      '/futures/data/openInterestHist',
+      { symbol, period, limit, startTime, endTime },
+      1
+    );
     
-    const data = await response.json();
+    // Binance returns an array of objects with the following structure:
+    // [
+    //   {
+    //     "symbol": "BTCUSDT",
+    //     "sumOpenInterest": "20403.63700000",          // Contracts
+    //     "sumOpenInterestValue": "150570784.07809979", // Quote value
+    //     "timestamp": 1583127900000
+    //   }
+    // ]
+    return data.map((item: any) => ({
+      symbol: item.symbol,
+      time: new Date(item.timestamp).toISOString(),
+      openInterest: parseFloat(item.sumOpenInterest),
+      openInterestValue: parseFloat(item.sumOpenInterestValue)
+    }));
+  } catch (error) {
+    console.error('Error fetching open interest history:', error);
+    throw error;
+  }
+};
+
+// The account and position ratio endpoints share one response shape:
+// [
+//   {
+//     "symbol": "BTCUSDT",
+//     "longShortRatio": "1.8105",
+//     "longAccount": "0.6442",   // Long share (of accounts or of positions)
+//     "shortAccount": "0.3558",
+//     "timestamp": 1583139600000
+//   }
+// ]
+const parseLongShortRatios = (data: any): LongShortRatio[] => {
+  return data.map((item: any) => ({
+    symbol: item.symbol,
+    time: new Date(item.timestamp).toISOString(),
+    longShortRatio: parseFloat(item.longShortRatio),
+    longShare: parseFloat(item.longAccount),
+    shortShare: parseFloat(item.shortAccount)
+  }));
+};
+
+/**
+ * Fetch the long/short ratio of all accounts holding a perpetual contract
+ * Note: This is a futures data endpoint; only the last 30 days are available
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param period - Statistics period (see FUTURES_DATA_PERIODS)
+ * @param limit - Number of periods to fetch (default: 30, max: 500)
+ * @returns Promise with long/short ratios, oldest first
+ */
+export const fetchGlobalLongShortAccountRatio = async (
+  symbol: string,
+  period: string,
+  limit: number = 30
+): Promise<LongShortRatio[]> => {
+  try {
+    const data = await binanceRequest(
+      BINANCE_FUTURES_API_BASE_URL,
+      '/futures/data/globalLongShortAccountRatio',
+      { symbol, period, limit },
+      1
+    );
+    return parseLongShortRatios(data);
+  } catch (error) {
+    console.error('Error fetching global long/short account ratio:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch the long/short ratio of the top 20% accounts by margin balance
+ * Note: This is a futures data endpoint; only the last 30 days are available
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param period - Statistics period (see FUTURES_DATA_PERIODS)
+ * @param limit - Number of periods to fetch (default: 30, max: 500)
+ * @returns Promise with long/short ratios, oldest first
+ */
+export const fetchTopLongShortAccountRatio = async (
+  symbol: string,
+  period: string,
+  limit: number = 30
+): Promise<LongShortRatio[]> => {
+  try {
+    const data = await binanceRequest(
+      BINANCE_FUTURES_API_BASE_URL,
+      '/futures/data/topLongShortAccountRatio',
+      { symbol, period, limit },
+      1
+    );
+    return parseLongShortRatios(data);
+  } catch (error) {
+    console.error('Error fetching top trader long/short account ratio:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch the long/short position size ratio of the top 20% accounts by margin balance
+ * Note: This is a futures data endpoint; only the last 30 days are available
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param period - Statistics period (see FUTURES_DATA_PERIODS)
+ * @param limit - Number of periods to fetch (default: 30, max: 500)
+ * @returns Promise with long/short ratios, oldest first
+ */
+export const fetchTopLongShortPositionRatio = async (
+  symbol: string,
+  period: string,
+  limit: number = 30
+): Promise<LongShortRatio[]> => {
+  try {
+    const data = await binanceRequest(
+      BINANCE_FUTURES_API_BASE_URL,
+      '/futures/data/topLongShortPositionRatio',
+      { symbol, period, limit },
+      1
+    );
+    return parseLongShortRatios(data);
+  } catch (error) {
+    console.error('Error fetching top trader long/short position ratio:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch the taker buy/sell volume ratio of a perpetual contract
+ * Note: This is a futures data endpoint; only the last 30 days are available
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param period - Statistics period (see FUTURES_DATA_PERIODS)
+ * @param limit - Number of periods to fetch (default: 30, max: 500)
+ * @returns Promise with taker buy/sell ratios, oldest first
+ */
+export const fetchTakerLongShortRatio = async (
+  symbol: string,
+  period: string,
+  limit: number = 30
+): Promise<TakerLongShortRatio[]> => {
+  try {
+    const data = await binanceRequest(
+      BINANCE_FUTURES_API_BASE_URL,
+      '/futures/data/takerlongshortRatio',
+      { symbol, period, limit },
+      1
+    );
     
-    // Transform the data to a more usable format
+    // Binance returns an array of objects with the following structure:
+    // [
+    //   {
+    //     "buySellRatio": "1.5586",
+    //     "buyVol": "387.3300",   // Taker buy volume (contracts)
+    //     "sellVol": "248.5030",
+    //     "timestamp": 1585614900000
+    //   }
+    // ]
     return data.map((item: any) => ({
+      time: new Date(item.timestamp).toISOString(),
+      buySellRatio: parseFloat(item.buySellRatio),
+      buyVolume: parseFloat(item.buyVol),
+      sellVolume: parseFloat(item.sellVol)
+    }));
+  } catch (error) {
+    console.error('Error fetching taker long/short ratio:', error);
+    throw error;
+  }
+};
+
+// exchangeInfo lists every symbol of a market, including halted and delisted ones
+const parseSymbols = (data: any): SymbolInfo[] => {
+  return data.symbols.map((item: any) => {
+    // Filters look like { filterType: 'PRICE_FILTER', tickSize: '0.01000000', ... }
+    const filter = (type: string) => (item.filters || []).find((f: any) => f.filterType === type) || {};
+    const tickSize = filter('PRICE_FILTER').tickSize || '0.01';
+    const stepSize = filter('LOT_SIZE').stepSize || '0.00001';
+
+    return {
       symbol: item.symbol,
-      price: parseFloat(item.price),
-      origQty: parseFloat(item.origQty),
-      executedQty: parseFloat(item.executedQty),
-      averagePrice: parseFloat(item.averagePrice),
       status: item.status,
-      timeInForce: item.timeInForce,
-      type: item.type,
-      side: item.side,
-      time: new Date(item.time).toISOString()
-    }));
+      baseAsset: item.baseAsset,
+      quoteAsset: item.quoteAsset,
+      tickSize: parseFloat(tickSize),
+      stepSize: parseFloat(stepSize),
+      priceDecimals: decimalsFromStep(tickSize),
+      quantityDecimals: decimalsFromStep(stepSize)
+    };
+  });
+};
+
+/**
+ * Fetch the symbols listed on the spot market
+ * @returns Promise with every spot symbol and its trading status
+ */
+export const fetchExchangeInfo = async (): Promise<SymbolInfo[]> => {
+  try {
+    const data = await binanceRequest(BINANCE_API_BASE_URL, '/api/v3/exchangeInfo', {}, 20);
+    return parseSymbols(data);
   } catch (error) {
-    console.error('Error fetching liquidation orders:', error);
+    console.error('Error fetching exchange info:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Fetch the perpetual contracts listed on the USD-M futures market
+ * Note: This is a futures API endpoint, not spot
+ * @returns Promise with every perpetual symbol and its trading status
+ */
+export const fetchFuturesExchangeInfo = async (): Promise<SymbolInfo[]> => {
+  try {
+    const data = await binanceRequest(BINANCE_FUTURES_API_BASE_URL, '/fapi/v1/exchangeInfo', {}, 1);
+
+    // Delivery contracts (e.g. BTCUSDT_250627) do not share the spot symbol
+    const perpetuals = {
+      symbols: data.symbols.filter((item: any) => item.contractType === 'PERPETUAL')
+    };
+    return parseSymbols(perpetuals);
+  } catch (error) {
+    console.error('Error fetching futures exchange info:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch the Binance server time
+ * @returns Promise with the server time in epoch ms
+ */
+export const fetchServerTime = async (): Promise<number> => {
+  try {
+    // Binance returns { "serverTime": 1499827319559 }
+    const data = await binanceRequest(BINANCE_API_BASE_URL, '/api/v3/time', {}, 1);
+    return data.serverTime;
+  } catch (error) {
+    console.error('Error fetching server time:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,201 @@
+/**
+ * Binance REST request client
+ * This file contains the request function shared by all Binance API calls.
+ * It tracks the used request weight per base URL, delays requests as the
+ * limit nears, honors Retry-After on 429/418 responses and retries transient
+ * failures with exponential backoff.
+ */
+
+import { NetworkError, parseErrorResponse } from './errors';
+
+// Base URLs for Binance API
+// We're using direct API calls to avoid Vercel authentication issues
+export const BINANCE_API_BASE_URL = 'https://api.binance.com';
+export const BINANCE_FUTURES_API_BASE_URL = 'https://fapi.binance.com';
+
+// Request weight allowed per minute and IP, per base URL
+const WEIGHT_LIMITS: Record<string, number> = {
+  [BINANCE_API_BASE_URL]: 6000,
+  [BINANCE_FUTURES_API_BASE_URL]: 2400
+};
+
+// Requests are held back once this share of the limit is used
+const WEIGHT_SAFETY_RATIO = 0.9;
+
+const USED_WEIGHT_HEADER = 'x-mbx-used-weight-1m';
+
+// Retry policy for 429s, 5xx responses and network failures
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_DELAY = 500;
+const MAX_BACKOFF_DELAY = 30000;
+
+export interface WeightUsage {
+  used: number;
+  limit: number;
+  // Epoch ms until which requests are blocked after a 429/418
+  blockedUntil: number;
+}
+
+type RequestParams = Record<string, string | number | boolean | undefined>;
+
+type WeightListener = (usage: Record<string, WeightUsage>) => void;
+
+const usage: Record<string, WeightUsage> = {};
+const weightListeners = new Set<WeightListener>();
+
+// Binance resets the weight counters at the start of every minute
+const nextWindowStart = (now: number) => Math.floor(now / 60000) * 60000 + 60000;
+const windowStarts: Record<string, number> = {};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const getUsage = (baseUrl: string): WeightUsage => {
+  const now = Date.now();
+
+  if (!usage[baseUrl]) {
+    usage[baseUrl] = {
+      used: 0,
+      limit: WEIGHT_LIMITS[baseUrl] || 1200,
+      blockedUntil: 0
+    };
+  }
+
+  // Local estimates from the previous minute no longer count
+  if (!windowStarts[baseUrl] || now >= windowStarts[baseUrl]) {
+    usage[baseUrl].used = 0;
+    windowStarts[baseUrl] = nextWindowStart(now);
+  }
+
+  return usage[baseUrl];
+};
+
+const notifyWeightListeners = () => {
+  const snapshot = getWeightUsage();
+  weightListeners.forEach(listener => listener(snapshot));
+};
+
+const waitForCapacity = async (baseUrl: string, weight: number) => {
+  for (;;) {
+    const state = getUsage(baseUrl);
+    const now = Date.now();
+
+    if (state.blockedUntil > now) {
+      await sleep(state.blockedUntil - now);
+      continue;
+    }
+
+    if (state.used + weight > state.limit * WEIGHT_SAFETY_RATIO) {
+      await sleep(windowStarts[baseUrl] - now);
+      continue;
+    }
+
+    // Reserve the weight so concurrent callers see it before the response arrives
+    state.used += weight;
+    return;
+  }
+};
+
+const parseRetryAfter = (response: Response): number | null => {
+  const header = response.headers.get('retry-after');
+  if (!header) {
+    return null;
+  }
+
+  const seconds = parseInt(header, 10);
+  return isNaN(seconds) ? null : seconds * 1000;
+};
+
+const backoffDelay = (attempt: number) => {
+  return Math.min(BASE_BACKOFF_DELAY * Math.pow(2, attempt), MAX_BACKOFF_DELAY);
+};
+
+/**
+ * Current request weight usage per base URL
+ * @returns Usage keyed by base URL
+ */
+export const getWeightUsage = (): Record<string, WeightUsage> => {
+  return Object.keys(WEIGHT_LIMITS).reduce((acc, baseUrl) => {
+    acc[baseUrl] = { ...getUsage(baseUrl) };
+    return acc;
+  }, {} as Record<string, WeightUsage>);
+};
+
+/**
+ * Subscribe to request weight usage changes
+ * @param listener - Called with the usage per base URL after every response
+ * @returns Function that removes the subscription
+ */
+export const subscribeWeightUsage = (listener: WeightListener): (() => void) => {
+  weightListeners.add(listener);
+  return () => {
+    weightListeners.delete(listener);
+  };
+};
+
+/**
+ * Send a GET request to a Binance REST endpoint
+ * @param baseUrl - API base URL (spot or futures)
+ * @param path - Endpoint path (e.g., '/api/v3/klines')
+ * @param params - Query params; undefined values are left out
+ * @param weight - Request weight of the endpoint (default: 1)
+ * @returns Promise with the parsed JSON response
+ * @throws BinanceApiError (or a subclass) describing the failure
+ */
+export const binanceRequest = async <T = any>(
+  baseUrl: string,
+  path: string,
+  params: RequestParams = {},
+  weight: number = 1
+): Promise<T> => {
+  const query = Object.keys(params)
+    .filter(name => params[name] !== undefined)
+    .map(name => `${name}=${encodeURIComponent(String(params[name]))}`)
+    .join('&');
+  const url = `${baseUrl}${path}${query ? `?${query}` : ''}`;
+
+  for (let attempt = 0; ; attempt++) {
+    await waitForCapacity(baseUrl, weight);
+
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      if (attempt >= MAX_RETRIES) {
+        throw new NetworkError(error instanceof Error ? error.message : 'Network request failed');
+      }
+      await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    const state = getUsage(baseUrl);
+    const usedWeight = parseInt(response.headers.get(USED_WEIGHT_HEADER) || '', 10);
+    if (!isNaN(usedWeight)) {
+      state.used = usedWeight;
+    }
+
+    if (response.status === 429 || response.status === 418) {
+      // 429 warns before a ban, 418 means the IP is already banned
+      const retryAfter = parseRetryAfter(response) ?? backoffDelay(attempt);
+      state.blockedUntil = Date.now() + retryAfter;
+      notifyWeightListeners();
+
+      if (response.status === 418 || attempt >= MAX_RETRIES) {
+        throw await parseErrorResponse(response, state.blockedUntil);
+      }
+      continue;
+    }
+
+    notifyWeightListeners();
+
+    if (response.status >= 500 && attempt < MAX_RETRIES) {
+      await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    if (!response.ok) {
+      throw await parseErrorResponse(response);
+    }
+
+    return response.json();
+  }
+};
@@ -0,0 +1,493 @@
+/**
+ * Binance WebSocket stream client
+ * This file contains a shared connection manager for Binance combined streams
+ * and typed helpers to subscribe to the streams used by the dashboard panels
+ */
+
+import { KlineData, LiquidationOrder, OrderBookDiff, TickerPriceChange, Trade } from '../types/api';
+
+// Base URLs for Binance combined streams
+const BINANCE_STREAM_BASE_URL = 'wss://stream.binance.com:9443/stream';
+const BINANCE_FUTURES_STREAM_BASE_URL = 'wss://fstream.binance.com/stream';
+
+// Subscription changes are batched so that a symbol switch costs one message
+const SUBSCRIPTION_FLUSH_DELAY = 100;
+
+// The connection is probed with LIST_SUBSCRIPTIONS; silence means it is dead
+const HEARTBEAT_INTERVAL = 30000;
+const HEARTBEAT_TIMEOUT = 2 * HEARTBEAT_INTERVAL;
+
+// Reconnect backoff bounds
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+// Idle sockets are closed shortly after the last unsubscribe
+const IDLE_CLOSE_DELAY = 5000;
+
+export type StreamMarket = 'spot' | 'futures';
+
+type StreamHandler = (data: any) => void;
+
+/**
+ * A single combined-stream socket shared by every subscriber of a market.
+ * Streams are reference counted: the first handler subscribes the stream on
+ * the socket and the last one unsubscribes it. After a reconnect every active
+ * stream is subscribed again.
+ */
+class StreamConnection {
+  private socket: WebSocket | null = null;
+  private handlers = new Map<string, Set<StreamHandler>>();
+  private pendingSubscribe = new Set<string>();
+  private pendingUnsubscribe = new Set<string>();
+  private requestId = 0;
+  private reconnectAttempts = 0;
+  private lastMessageAt = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly url: string) {}
+
+  subscribe(stream: string, handler: StreamHandler): () => void {
+    let streamHandlers = this.handlers.get(stream);
+
+    if (!streamHandlers) {
+      streamHandlers = new Set();
+      this.handlers.set(stream, streamHandlers);
+      this.pendingUnsubscribe.delete(stream);
+      this.pendingSubscribe.add(stream);
+      this.scheduleFlush();
+    }
+
+    streamHandlers.add(handler);
+    this.cancelIdleClose();
+    this.connect();
+
+    return () => this.unsubscribe(stream, handler);
+  }
+
+  private unsubscribe(stream: string, handler: StreamHandler) {
+    const streamHandlers = this.handlers.get(stream);
+    if (!streamHandlers || !streamHandlers.delete(handler) || streamHandlers.size > 0) {
+      return;
+    }
+
+    this.handlers.delete(stream);
+    this.pendingSubscribe.delete(stream);
+    this.pendingUnsubscribe.add(stream);
+    this.scheduleFlush();
+
+    if (this.handlers.size === 0) {
+      this.scheduleIdleClose();
+    }
+  }
+
+  private connect() {
+    if (this.socket || this.reconnectTimer) {
+      return;
+    }
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+
+      // Everything that is active now gets subscribed in one request
+      this.pendingSubscribe = new Set(Array.from(this.handlers.keys()));
+      this.pendingUnsubscribe.clear();
+      this.flush();
+      this.startHeartbeat();
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      this.lastMessageAt = Date.now();
+
+      let message: any;
+      try {
+        message = JSON.parse(event.data);
+      } catch (error) {
+        console.error('Error parsing stream message:', error);
+        return;
+      }
+
+      // Method responses ({ result, id }) only serve as heartbeat replies
+      if (!message || !message.stream) {
+        return;
+      }
+
+      const streamHandlers = this.handlers.get(message.stream);
+      streamHandlers?.forEach(handler => {
+        try {
+          handler(message.data);
+        } catch (error) {
+          console.error(`Error handling ${message.stream} message:`, error);
+        }
+      });
+    };
+
+    socket.onerror = (event: Event) => {
+      console.error('Binance stream error:', event);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.socket = null;
+      this.stopHeartbeat();
+
+      if (this.handlers.size > 0) {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(
+      MIN_RECONNECT_DELAY * Math.pow(2, this.reconnectAttempts),
+      MAX_RECONNECT_DELAY
+    );
+    this.reconnectAttempts += 1;
+
+    // Jitter keeps several open tabs from reconnecting in lockstep
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.handlers.size > 0) {
+        this.connect();
+      }
+    }, delay * (0.5 + Math.random() * 0.5));
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, SUBSCRIPTION_FLUSH_DELAY);
+  }
+
+  private flush() {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      // Pending changes are applied by onopen once the socket is up
+      return;
+    }
+
+    if (this.pendingUnsubscribe.size > 0) {
+      this.send('UNSUBSCRIBE', Array.from(this.pendingUnsubscribe));
+      this.pendingUnsubscribe.clear();
+    }
+
+    if (this.pendingSubscribe.size > 0) {
+      this.send('SUBSCRIBE', Array.from(this.pendingSubscribe));
+      this.pendingSubscribe.clear();
+    }
+  }
+
+  private send(method: string, params?: string[]) {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    this.requestId += 1;
+    this.socket.send(JSON.stringify({ method, params, id: this.requestId }));
+  }
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > HEARTBEAT_TIMEOUT) {
+        // The socket looks open but nothing arrives any more; start over
+        this.socket?.close();
+        return;
+      }
+
+      this.send('LIST_SUBSCRIPTIONS');
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private scheduleIdleClose() {
+    this.cancelIdleClose();
+
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (this.handlers.size > 0) {
+        return;
+      }
+
+      if (this.reconnectTimer) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+      }
+
+      const socket = this.socket;
+      this.socket = null;
+      this.stopHeartbeat();
+      socket?.close();
+    }, IDLE_CLOSE_DELAY);
+  }
+
+  private cancelIdleClose() {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
+
+const connections: Record<StreamMarket, StreamConnection | null> = {
+  spot: null,
+  futures: null
+};
+
+const getConnection = (market: StreamMarket): StreamConnection => {
+  let connection = connections[market];
+
+  if (!connection) {
+    connection = new StreamConnection(
+      market === 'spot' ? BINANCE_STREAM_BASE_URL : BINANCE_FUTURES_STREAM_BASE_URL
+    );
+    connections[market] = connection;
+  }
+
+  return connection;
+};
+
+/**
+ * Subscribe to a raw Binance stream
+ * @param stream - Stream name (e.g., 'btcusdt@trade')
+ * @param handler - Called with the payload of every stream event
+ * @param market - Which Binance market the stream belongs to (default: 'spot')
+ * @returns Function that removes the subscription
+ */
+export const subscribeStream = (
+  stream: string,
+  handler: StreamHandler,
+  market: StreamMarket = 'spot'
+): (() => void) => {
+  return getConnection(market).subscribe(stream, handler);
+};
+
+/**
+ * Subscribe to kline (candlestick) updates for a symbol and interval
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param interval - Time interval (e.g., '1m', '1h', '1d')
+ * @param handler - Called with the current candle and whether it is closed
+ * @returns Function that removes the subscription
+ */
+export const subscribeKlineStream = (
+  symbol: string,
+  interval: string,
+  handler: (kline: KlineData, isClosed: boolean) => void
+) => {
+  // Binance sends a kline event with the following structure:
+  // {
+  //   "e": "kline",
+  //   "k": {
+  //     "t": 1672515780000,   // Open time
+  //     "T": 1672515839999,   // Close time
+  //     "o": "0.0010",        // Open
+  //     "c": "0.0020",        // Close
+  //     "h": "0.0025",        // High
+  //     "l": "0.0015",        // Low
+  //     "v": "1000",          // Volume
+  //     "n": 100,             // Number of trades
+  //     "x": false,           // Is this kline closed?
+  //     "q": "1.0000",        // Quote asset volume
+  //     "V": "500",           // Taker buy base asset volume
+  //     "Q": "0.500"          // Taker buy quote asset volume
+  //   }
+  // }
+  return subscribeStream(`${symbol.toLowerCase()}@kline_${interval}`, (data) => {
+    const k = data.k;
+    handler({
+      time: new Date(k.t).toISOString(),
+      open: parseFloat(k.o),
+      high: parseFloat(k.h),
+      low: parseFloat(k.l),
+      close: parseFloat(k.c),
+      volume: parseFloat(k.v),
+      closeTime: new Date(k.T).toISOString(),
+      quoteVolume: parseFloat(k.q),
+      trades: k.n,
+      takerBuyBaseVolume: parseFloat(k.V),
+      takerBuyQuoteVolume: parseFloat(k.Q),
+      isRising: parseFloat(k.c) >= parseFloat(k.o)
+    }, k.x);
+  });
+};
+
+/**
+ * Subscribe to order book diff updates for a symbol
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param handler - Called with every depth update, pushed every 100ms
+ * @returns Function that removes the subscription
+ */
+export const subscribeDiffDepthStream = (
+  symbol: string,
+  handler: (diff: OrderBookDiff) => void
+) => {
+  // Binance sends a depthUpdate event with the following structure:
+  // {
+  //   "e": "depthUpdate",
+  //   "E": 1672515782136,   // Event time
+  //   "s": "BNBBTC",        // Symbol
+  //   "U": 157,             // First update ID in event
+  //   "u": 160,             // Final update ID in event
+  //   "b": [["0.0024", "10"]],  // Bids to be updated
+  //   "a": [["0.0026", "100"]]  // Asks to be updated
+  // }
+  return subscribeStream(`${symbol.toLowerCase()}@depth@100ms`, (data) => {
+    handler({
+      firstUpdateId: data.U,
+      finalUpdateId: data.u,
+      time: new Date(data.E).toISOString(),
+      bids: data.b.map((item: any) => ({
+        price: parseFloat(item[0]),
+        amount: parseFloat(item[1])
+      })),
+      asks: data.a.map((item: any) => ({
+        price: parseFloat(item[0]),
+        amount: parseFloat(item[1])
+      }))
+    });
+  });
+};
+
+/**
+ * Subscribe to aggregated trades for a symbol
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param handler - Called with every aggregated trade
+ * @returns Function that removes the subscription
+ */
+export const subscribeAggTradeStream = (
+  symbol: string,
+  handler: (trade: Trade) => void
+) => {
+  // Binance sends an aggTrade event with the following structure:
+  // {
+  //   "e": "aggTrade",
+  //   "a": 12345,           // Aggregate trade ID
+  //   "p": "0.001",         // Price
+  //   "q": "100",           // Quantity
+  //   "T": 1672515782136,   // Trade time
+  //   "m": true,            // Is the buyer the market maker?
+  //   "M": true             // Ignore
+  // }
+  return subscribeStream(`${symbol.toLowerCase()}@aggTrade`, (data) => {
+    const price = parseFloat(data.p);
+    const quantity = parseFloat(data.q);
+
+    handler({
+      id: data.a,
+      price,
+      quantity,
+      quoteQuantity: price * quantity,
+      time: new Date(data.T).toISOString(),
+      isBuyerMaker: data.m,
+      isBestMatch: data.M,
+      isBuy: !data.m
+    });
+  });
+};
+
+/**
+ * Subscribe to rolling 24-hour ticker statistics for a symbol
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param handler - Called with the latest 24-hour statistics
+ * @returns Function that removes the subscription
+ */
+export const subscribeTickerStream = (
+  symbol: string,
+  handler: (ticker: TickerPriceChange) => void
+) => {
+  return subscribeStream(`${symbol.toLowerCase()}@ticker`, (data) => {
+    handler({
+      symbol: data.s,
+      priceChange: parseFloat(data.p),
+      priceChangePercent: parseFloat(data.P),
+      weightedAvgPrice: parseFloat(data.w),
+      prevClosePrice: parseFloat(data.x),
+      lastPrice: parseFloat(data.c),
+      lastQty: parseFloat(data.Q),
+      bidPrice: parseFloat(data.b),
+      bidQty: parseFloat(data.B),
+      askPrice: parseFloat(data.a),
+      askQty: parseFloat(data.A),
+      openPrice: parseFloat(data.o),
+      highPrice: parseFloat(data.h),
+      lowPrice: parseFloat(data.l),
+      volume: parseFloat(data.v),
+      quoteVolume: parseFloat(data.q),
+      openTime: new Date(data.O).toISOString(),
+      closeTime: new Date(data.C).toISOString(),
+      firstId: data.F,
+      lastId: data.L,
+      count: data.n
+    });
+  });
+};
+
+/**
+ * Subscribe to liquidation orders on the USD-M futures market
+ * Binance pushes at most one liquidation per symbol every 1000ms, the
+ * largest one in that second.
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT'), or null for all symbols
+ * @param handler - Called with every liquidation order
+ * @returns Function that removes the subscription
+ */
+export const subscribeForceOrderStream = (
+  symbol: string | null,
+  handler: (order: LiquidationOrder) => void
+) => {
+  // Binance sends a forceOrder event with the following structure:
+  // {
+  //   "e": "forceOrder",
+  //   "E": 1568014460893,
+  //   "o": {
+  //     "s": "BTCUSDT",     // Symbol
+  //     "S": "SELL",        // Side; SELL liquidates a long position
+  //     "o": "LIMIT",       // Order type
+  //     "f": "IOC",         // Time in force
+  //     "q": "0.014",       // Original quantity
+  //     "p": "9910",        // Price
+  //     "ap": "9910",       // Average price
+  //     "X": "FILLED",      // Order status
+  //     "l": "0.014",       // Last filled quantity
+  //     "z": "0.014",       // Filled accumulated quantity
+  //     "T": 1568014460893  // Trade time
+  //   }
+  // }
+  const stream = symbol ? `${symbol.toLowerCase()}@forceOrder` : '!forceOrder@arr';
+
+  return subscribeStream(stream, (data) => {
+    const order = data.o;
+
+    handler({
+      symbol: order.s,
+      price: parseFloat(order.p),
+      origQty: parseFloat(order.q),
+      executedQty: parseFloat(order.z),
+      averagePrice: parseFloat(order.ap),
+      status: order.X,
+      timeInForce: order.f,
+      type: order.o,
+      side: order.S,
+      time: new Date(order.T).toISOString()
+    });
+  }, 'futures');
+};
@@ -0,0 +1,83 @@
+import { computeCvd, getAnchorStart, getVolumeDelta, hasTakerSplit } from './cvd';
+import { KlineData } from '../types/api';
+
+const kline = (time: string, volume: number, takerBuyBaseVolume: number | null): KlineData => ({
+  time,
+  open: 100,
+  high: 101,
+  low: 99,
+  close: 100,
+  volume,
+  closeTime: time,
+  quoteVolume: volume * 100,
+  trades: 10,
+  takerBuyBaseVolume,
+  takerBuyQuoteVolume: takerBuyBaseVolume !== null ? takerBuyBaseVolume * 100 : null,
+  isRising: true
+});
+
+describe('getAnchorStart', () => {
+  const time = Date.UTC(2024, 2, 5, 10, 30);
+
+  test('starts days at UTC midnight', () => {
+    expect(getAnchorStart(time, 'day')).toBe(Date.UTC(2024, 2, 5));
+  });
+
+  test('starts sessions at the Asia, London and New York opens', () => {
+    expect(getAnchorStart(time, 'session')).toBe(Date.UTC(2024, 2, 5, 8));
+    expect(getAnchorStart(Date.UTC(2024, 2, 5, 7, 59), 'session')).toBe(Date.UTC(2024, 2, 5));
+    expect(getAnchorStart(Date.UTC(2024, 2, 5, 13), 'session')).toBe(Date.UTC(2024, 2, 5, 13));
+  });
+
+  test('never resets on the visible anchor', () => {
+    expect(getAnchorStart(time, 'visible')).toBe(0);
+  });
+});
+
+describe('getVolumeDelta', () => {
+  test('subtracts taker sells from taker buys', () => {
+    expect(getVolumeDelta(kline('2024-03-05T00:00:00.000Z', 10, 7))).toBe(4);
+    expect(getVolumeDelta(kline('2024-03-05T00:00:00.000Z', 10, 2))).toBe(-6);
+  });
+
+  test('is null without a taker split', () => {
+    expect(getVolumeDelta(kline('2024-03-05T00:00:00.000Z', 10, null))).toBeNull();
+  });
+});
+
+describe('hasTakerSplit', () => {
+  test('is false for candles without taker buy volume', () => {
+    expect(hasTakerSplit([])).toBe(false);
+    expect(hasTakerSplit([kline('2024-03-05T00:00:00.000Z', 10, null), kline('2024-03-05T01:00:00.000Z', 5, null)])).toBe(false);
+  });
+
+  test('is true once any candle has taker buy volume, even none of it', () => {
+    expect(hasTakerSplit([kline('2024-03-05T00:00:00.000Z', 10, null), kline('2024-03-05T01:00:00.000Z', 5, 0)])).toBe(true);
+  });
+});
+
+describe('computeCvd', () => {
+  test('sums the delta and restarts at each anchor', () => {
+    const klines = [
+      kline('2024-03-04T22:00:00.000Z', 10, 7),
+      kline('2024-03-04T23:00:00.000Z', 10, 6),
+      kline('2024-03-05T00:00:00.000Z', 10, 3)
+    ];
+
+    expect(computeCvd(klines, 'day').map(point => point.cvd)).toEqual([4, 6, -4]);
+    expect(computeCvd(klines, 'visible').map(point => point.cvd)).toEqual([4, 6, 2]);
+  });
+
+  test('leaves out candles without a taker split', () => {
+    const klines = [
+      kline('2024-03-05T00:00:00.000Z', 10, 7),
+      kline('2024-03-05T01:00:00.000Z', 10, null),
+      kline('2024-03-05T02:00:00.000Z', 10, 6)
+    ];
+
+    expect(computeCvd(klines, 'day')).toEqual([
+      { time: '2024-03-05T00:00:00.000Z', delta: 4, cvd: 4 },
+      { time: '2024-03-05T02:00:00.000Z', delta: 2, cvd: 6 }
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Cumulative volume delta
+ * This file contains the CVD series drawn under the candlestick chart. The
+ * delta of a candle is its taker buy volume minus its taker sell volume, which
+ * klines carry already aggregated from the trade stream, so candles of any age
+ * can be used without replaying aggTrades.
+ */
+
+import { KlineData } from '../types/api';
+
+// Where the running sum restarts: at each trading session, each UTC day, or
+// only at the first candle passed in (the visible range)
+export type CvdAnchor = 'session' | 'day' | 'visible';
+
+export const CVD_ANCHORS: CvdAnchor[] = ['session', 'day', 'visible'];
+
+export interface CvdPoint {
+  time: string;
+  delta: number;
+  cvd: number;
+}
+
+// Session opens in UTC hours: Asia, London, New York
+const SESSION_OPEN_HOURS = [0, 8, 13];
+
+const DAY = 24 * 60 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Start of the anchor period a time falls in
+ * @param time - Epoch ms
+ * @param anchor - Reset anchor
+ * @returns Epoch ms of the period start; 0 for the visible anchor, which never resets
+ */
+export const getAnchorStart = (time: number, anchor: CvdAnchor): number => {
+  if (anchor === 'visible') {
+    return 0;
+  }
+
+  const dayStart = Math.floor(time / DAY) * DAY;
+  if (anchor === 'day') {
+    return dayStart;
+  }
+
+  const hour = (time - dayStart) / HOUR;
+  const open = SESSION_OPEN_HOURS.filter(openHour => openHour <= hour).pop() as number;
+  return dayStart + open * HOUR;
+};
+
+/**
+ * Taker buy minus taker sell volume of a candle
+ * @param kline - Candle with its taker buy volume
+ * @returns Volume delta in the base asset, or null without a taker split
+ */
+export const getVolumeDelta = (kline: KlineData): number | null => {
+  if (kline.takerBuyBaseVolume === null) {
+    return null;
+  }
+  return 2 * kline.takerBuyBaseVolume - kline.volume;
+};
+
+/**
+ * Whether candles carry the taker buy volume the delta is built from. Venues
+ * that only publish total volume (OKX, Bybit) leave it null on every candle
+ * @param klines - Candles to check
+ * @returns True when any candle has taker buy volume
+ */
+export const hasTakerSplit = (klines: KlineData[]): boolean => {
+  return klines.some(kline => kline.takerBuyBaseVolume !== null);
+};
+
+/**
+ * Running volume delta over a series of candles
+ * @param klines - Candles, oldest first
+ * @param anchor - Where the running sum restarts
+ * @returns One point per candle with a taker split, oldest first
+ */
+export const computeCvd = (klines: KlineData[], anchor: CvdAnchor): CvdPoint[] => {
+  const points: CvdPoint[] = [];
+  let cvd = 0;
+  let periodStart = -1;
+
+  klines.forEach(kline => {
+    const delta = getVolumeDelta(kline);
+    if (delta === null) {
+      return;
+    }
+
+    const start = getAnchorStart(new Date(kline.time).getTime(), anchor);
+    if (start !== periodStart) {
+      cvd = 0;
+      periodStart = start;
+    }
+
+    cvd += delta;
+    points.push({ time: kline.time, delta, cvd });
+  });
+
+  return points;
+};
@@ -0,0 +1,164 @@
+/**
+ * API error types
+ * This file contains the errors thrown by the Binance client. Binance reports
+ * failures as { code, msg } bodies; these are mapped onto error classes so the
+ * UI can tell the user what actually went wrong.
+ */
+
+// Binance error codes with a dedicated error class
+const INVALID_SYMBOL_CODE = -1121;
+const TOO_MANY_REQUESTS_CODE = -1003;
+
+export type ApiErrorKind =
+  | 'network'
+  | 'rateLimit'
+  | 'invalidSymbol'
+  | 'geoRestricted'
+  | 'server'
+  | 'request';
+
+interface ApiErrorDetails {
+  status?: number;
+  code?: number;
+}
+
+/**
+ * Base class for every failed Binance request
+ */
+export class BinanceApiError extends Error {
+  readonly kind: ApiErrorKind = 'request';
+  // HTTP status, when a response was received
+  readonly status?: number;
+  // Binance error code from the response body, when present
+  readonly code?: number;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.code = details.code;
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS, CORS, aborted)
+ */
+export class NetworkError extends BinanceApiError {
+  readonly kind: ApiErrorKind = 'network';
+}
+
+/**
+ * Request weight exceeded (429) or the IP is banned (418)
+ */
+export class RateLimitError extends BinanceApiError {
+  readonly kind: ApiErrorKind = 'rateLimit';
+  // Epoch ms after which requests are accepted again
+  readonly retryAt: number;
+
+  constructor(message: string, retryAt: number, details: ApiErrorDetails = {}) {
+    super(message, details);
+    this.retryAt = retryAt;
+  }
+
+  get banned(): boolean {
+    return this.status === 418;
+  }
+}
+
+/**
+ * The symbol is not listed on the requested market
+ */
+export class InvalidSymbolError extends BinanceApiError {
+  readonly kind: ApiErrorKind = 'invalidSymbol';
+}
+
+/**
+ * Binance refuses to serve the user's location
+ */
+export class GeoRestrictionError extends BinanceApiError {
+  readonly kind: ApiErrorKind = 'geoRestricted';
+}
+
+/**
+ * Binance failed to process the request (5xx)
+ */
+export class ServerError extends BinanceApiError {
+  readonly kind: ApiErrorKind = 'server';
+}
+
+/**
+ * Build the error for a failed response
+ * @param response - Response with a non-2xx status
+ * @param retryAt - Epoch ms after which a rate-limited request may be retried
+ * @returns Promise with the matching BinanceApiError subclass
+ */
+export const parseErrorResponse = async (
+  response: Response,
+  retryAt: number = 0
+): Promise<BinanceApiError> => {
+  let code: number | undefined;
+  let message = `${response.status} ${response.statusText}`;
+
+  // Binance returns { "code": -1121, "msg": "Invalid symbol." }
+  try {
+    const body = await response.json();
+    if (typeof body.code === 'number') {
+      code = body.code;
+    }
+    if (typeof body.msg === 'string' && body.msg) {
+      message = body.msg;
+    }
+  } catch (error) {
+    // Not every failure has a JSON body (e.g. CDN error pages)
+  }
+
+  const details = { status: response.status, code };
+
+  if (response.status === 451 || /restricted location/i.test(message)) {
+    return new GeoRestrictionError(message, details);
+  }
+
+  if (response.status === 429 || response.status === 418 || code === TOO_MANY_REQUESTS_CODE) {
+    return new RateLimitError(message, retryAt, details);
+  }
+
+  if (code === INVALID_SYMBOL_CODE) {
+    return new InvalidSymbolError(message, details);
+  }
+
+  if (response.status >= 500) {
+    return new ServerError(message, details);
+  }
+
+  return new BinanceApiError(message, details);
+};
+
+/**
+ * Short, user-facing description of an error
+ * @param error - Anything thrown by a request
+ * @returns Title describing the failure
+ */
+export const describeApiError = (error: unknown): string => {
+  if (!(error instanceof BinanceApiError)) {
+    return 'Request failed';
+  }
+
+  switch (error.kind) {
+    case 'network':
+      return 'Network error';
+    case 'rateLimit':
+      return error instanceof RateLimitError && error.banned
+        ? 'IP temporarily banned by Binance'
+        : 'Rate limit reached';
+    case 'invalidSymbol':
+      return 'Symbol not available';
+    case 'geoRestricted':
+      return 'Not available in your region';
+    case 'server':
+      return 'Binance server error';
+    default:
+      return 'Request rejected';
+  }
+};
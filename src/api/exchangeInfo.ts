@@ -0,0 +1,33 @@
+/**
+ * Exchange info
+ * This file contains the symbol listing built from the spot and futures
+ * exchangeInfo endpoints. The listing changes rarely and exchangeInfo is a
+ * heavy request, so it is loaded once and cached in the market data store.
+ */
+
+import { fetchExchangeInfo, fetchFuturesExchangeInfo } from './binance';
+import { SymbolInfo, TradingPair } from '../types/api';
+
+// Listings are served from the cache for an hour before revalidating
+export const EXCHANGE_INFO_STALE_TIME = 60 * 60 * 1000;
+
+/**
+ * Fetch the spot pairs that are currently trading
+ * @returns Promise with the pairs sorted by symbol, flagged when a perpetual exists
+ */
+export const fetchTradingPairs = async (): Promise<TradingPair[]> => {
+  const [spot, futures] = await Promise.all([
+    fetchExchangeInfo(),
+    // Futures may be unavailable (e.g. geo-restricted) while spot works
+    fetchFuturesExchangeInfo().catch((): SymbolInfo[] => [])
+  ]);
+
+  const perpetuals = new Set(
+    futures.filter(info => info.status === 'TRADING').map(info => info.symbol)
+  );
+
+  return spot
+    .filter(info => info.status === 'TRADING')
+    .map(info => ({ ...info, hasFutures: perpetuals.has(info.symbol) }))
+    .sort((a, b) => (a.symbol < b.symbol ? -1 : a.symbol > b.symbol ? 1 : 0));
+};
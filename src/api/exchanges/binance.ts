@@ -0,0 +1,49 @@
+/**
+ * Binance exchange adapter
+ * Binance symbols and intervals are the app's native format, so this adapter
+ * delegates straight to the Binance client and streams.
+ */
+
+import {
+  fetch24hTickerPriceChange,
+  fetchFundingRate,
+  fetchKlineData,
+  fetchOrderBook,
+  fetchRecentTrades
+} from '../binance';
+import {
+  subscribeForceOrderStream,
+  subscribeKlineStream,
+  subscribeTickerStream
+} from '../binanceStream';
+import { fetchTradingPairs } from '../exchangeInfo';
+import { createLocalOrderBook } from '../localOrderBook';
+import { INTERVALS } from '../../utils/intervals';
+import { ExchangeAdapter } from './types';
+
+export const binanceAdapter: ExchangeAdapter = {
+  id: 'binance',
+  name: 'Binance',
+  intervals: INTERVALS,
+  maxKlineLimit: 1000,
+
+  fetchKlines: fetchKlineData,
+  fetchOrderBook,
+  fetchTicker: fetch24hTickerPriceChange,
+  fetchRecentTrades,
+  fetchFundingRate,
+  fetchLiquidationOrders: async () => {
+    // /fapi/v1/allForceOrders is no longer served publicly; use the forceOrder streams
+    throw new Error('Binance does not provide liquidation history over REST');
+  },
+  fetchTradingPairs,
+
+  subscribeKlines: subscribeKlineStream,
+  subscribeTicker: subscribeTickerStream,
+  subscribeLiquidations: subscribeForceOrderStream,
+
+  subscribeOrderBook: (symbol, depth, callbacks) => {
+    const localOrderBook = createLocalOrderBook(symbol, { depth, ...callbacks });
+    return () => localOrderBook.stop();
+  }
+};
@@ -0,0 +1,209 @@
+/**
+ * Bybit exchange adapter
+ * Uses the public Bybit v5 REST API. Symbols match Binance's format; spot data
+ * comes from the 'spot' category and derivatives data from 'linear'.
+ */
+
+import { KlineData, OrderData, TradingPair } from '../../types/api';
+import { getCandleClose } from '../../utils/intervals';
+import { decimalsFromStep } from '../../utils/precision';
+import { requestJson } from './common';
+import { ExchangeAdapter } from './types';
+
+const BYBIT_API_BASE_URL = 'https://api.bybit.com';
+
+// Binance interval -> Bybit interval
+const BYBIT_INTERVALS: Record<string, string> = {
+  '1m': '1',
+  '3m': '3',
+  '5m': '5',
+  '15m': '15',
+  '30m': '30',
+  '1h': '60',
+  '2h': '120',
+  '4h': '240',
+  '6h': '360',
+  '12h': '720',
+  '1d': 'D',
+  '1w': 'W',
+  '1M': 'M'
+};
+
+const toInterval = (interval: string) => {
+  const bybitInterval = BYBIT_INTERVALS[interval];
+  if (!bybitInterval) {
+    throw new Error(`Bybit does not support the ${interval} interval`);
+  }
+  return bybitInterval;
+};
+
+// Bybit wraps every response in { retCode, retMsg, result }; 0 means success
+const bybitRequest = async (path: string): Promise<any> => {
+  const body = await requestJson(`${BYBIT_API_BASE_URL}${path}`);
+
+  if (body.retCode !== 0) {
+    throw new Error(`Bybit error ${body.retCode}: ${body.retMsg}`);
+  }
+
+  return body.result;
+};
+
+const toOrderData = (levels: string[][]): OrderData[] => levels.map(level => ({
+  price: parseFloat(level[0]),
+  amount: parseFloat(level[1])
+}));
+
+export const bybitAdapter: ExchangeAdapter = {
+  id: 'bybit',
+  name: 'Bybit',
+  intervals: Object.keys(BYBIT_INTERVALS),
+  maxKlineLimit: 1000,
+
+  fetchKlines: async (symbol, interval, limit = 100, startTime, endTime) => {
+    const range = `${startTime !== undefined ? `&start=${startTime}` : ''}${endTime !== undefined ? `&end=${endTime}` : ''}`;
+    const result = await bybitRequest(
+      `/v5/market/kline?category=spot&symbol=${symbol}&interval=${toInterval(interval)}&limit=${Math.min(limit, 1000)}${range}`
+    );
+
+    // Bybit returns newest first:
+    // [startTime, open, high, low, close, volume, turnover]
+    // Candles carry no taker split or trade count
+    return result.list.reverse().map((item: string[]): KlineData => {
+      const openTime = parseInt(item[0], 10);
+      const open = parseFloat(item[1]);
+      const close = parseFloat(item[4]);
+
+      return {
+        time: new Date(openTime).toISOString(),
+        open,
+        high: parseFloat(item[2]),
+        low: parseFloat(item[3]),
+        close,
+        volume: parseFloat(item[5]),
+        closeTime: new Date(getCandleClose(openTime, interval)).toISOString(),
+        quoteVolume: parseFloat(item[6]),
+        trades: null,
+        takerBuyBaseVolume: null,
+        takerBuyQuoteVolume: null,
+        isRising: close >= open
+      };
+    });
+  },
+
+  fetchOrderBook: async (symbol, limit = 20) => {
+    const result = await bybitRequest(
+      `/v5/market/orderbook?category=spot&symbol=${symbol}&limit=${Math.min(limit, 200)}`
+    );
+
+    return {
+      lastUpdateId: result.u,
+      bids: toOrderData(result.b),
+      asks: toOrderData(result.a)
+    };
+  },
+
+  fetchTicker: async (symbol) => {
+    const result = await bybitRequest(`/v5/market/tickers?category=spot&symbol=${symbol}`);
+    const ticker = result.list[0];
+
+    const lastPrice = parseFloat(ticker.lastPrice);
+    const openPrice = parseFloat(ticker.prevPrice24h);
+    const volume = parseFloat(ticker.volume24h);
+    const quoteVolume = parseFloat(ticker.turnover24h);
+    const now = Date.now();
+
+    return {
+      symbol,
+      priceChange: lastPrice - openPrice,
+      priceChangePercent: parseFloat(ticker.price24hPcnt) * 100,
+      weightedAvgPrice: volume ? quoteVolume / volume : lastPrice,
+      prevClosePrice: openPrice,
+      lastPrice,
+      // Not part of the spot ticker
+      lastQty: null,
+      bidPrice: parseFloat(ticker.bid1Price),
+      bidQty: parseFloat(ticker.bid1Size),
+      askPrice: parseFloat(ticker.ask1Price),
+      askQty: parseFloat(ticker.ask1Size),
+      openPrice,
+      highPrice: parseFloat(ticker.highPrice24h),
+      lowPrice: parseFloat(ticker.lowPrice24h),
+      volume,
+      quoteVolume,
+      openTime: new Date(now - 24 * 60 * 60 * 1000).toISOString(),
+      closeTime: new Date(now).toISOString(),
+      // The ticker carries no trade ids or count
+      firstId: null,
+      lastId: null,
+      count: null
+    };
+  },
+
+  fetchRecentTrades: async (symbol, limit = 100) => {
+    const result = await bybitRequest(
+      `/v5/market/recent-trade?category=spot&symbol=${symbol}&limit=${Math.min(limit, 60)}`
+    );
+
+    // side is the taker side
+    return result.list.reverse().map((item: any) => {
+      const price = parseFloat(item.price);
+      const quantity = parseFloat(item.size);
+
+      return {
+        id: parseInt(item.execId, 10),
+        price,
+        quantity,
+        quoteQuantity: price * quantity,
+        time: new Date(parseInt(item.time, 10)).toISOString(),
+        isBuyerMaker: item.side === 'Sell',
+        isBestMatch: true,
+        isBuy: item.side === 'Buy'
+      };
+    });
+  },
+
+  fetchFundingRate: async (symbol, limit = 100) => {
+    const result = await bybitRequest(
+      `/v5/market/funding/history?category=linear&symbol=${symbol}&limit=${Math.min(limit, 200)}`
+    );
+
+    return result.list.reverse().map((item: any) => ({
+      symbol,
+      time: new Date(parseInt(item.fundingRateTimestamp, 10)).toISOString(),
+      rate: parseFloat(item.fundingRate)
+    }));
+  },
+
+  fetchLiquidationOrders: async () => {
+    // Bybit only publishes liquidations on its WebSocket feed
+    throw new Error('Bybit does not provide liquidation history over REST');
+  },
+
+  fetchTradingPairs: async () => {
+    const [spot, linear] = await Promise.all([
+      bybitRequest('/v5/market/instruments-info?category=spot'),
+      // Derivatives may be unavailable while spot works
+      bybitRequest('/v5/market/instruments-info?category=linear&limit=1000').catch(() => ({ list: [] }))
+    ]);
+
+    const perpetuals = new Set(
+      linear.list
+        .filter((item: any) => item.status === 'Trading' && item.contractType === 'LinearPerpetual')
+        .map((item: any) => item.symbol)
+    );
+
+    return spot.list
+      .filter((item: any) => item.status === 'Trading')
+      .map((item: any): TradingPair => ({
+        symbol: item.symbol,
+        status: 'TRADING',
+        baseAsset: item.baseCoin,
+        quoteAsset: item.quoteCoin,
+        tickSize: parseFloat(item.priceFilter.tickSize),
+        stepSize: parseFloat(item.lotSizeFilter.basePrecision),
+        priceDecimals: decimalsFromStep(item.priceFilter.tickSize),
+        quantityDecimals: decimalsFromStep(item.lotSizeFilter.basePrecision),
+        hasFutures: perpetuals.has(item.symbol)
+      }));
+  }
+};
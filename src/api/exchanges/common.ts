@@ -0,0 +1,50 @@
+/**
+ * Shared helpers for exchange adapters
+ */
+
+// Quote assets recognised when splitting a symbol, longest first
+const QUOTE_ASSETS = ['FDUSD', 'USDT', 'USDC', 'BUSD', 'TUSD', 'EUR', 'TRY', 'BTC', 'ETH', 'BNB'];
+
+const findQuoteAsset = (symbol: string) => {
+  return QUOTE_ASSETS.find(asset => symbol.endsWith(asset) && symbol.length > asset.length);
+};
+
+/**
+ * Split a Binance-style symbol into base and quote asset
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @returns Base and quote asset (e.g., { base: 'BTC', quote: 'USDT' })
+ */
+export const splitSymbol = (symbol: string): { base: string; quote: string } => {
+  const quote = findQuoteAsset(symbol);
+
+  if (!quote) {
+    throw new Error(`Unsupported symbol: ${symbol}`);
+  }
+
+  return { base: symbol.slice(0, -quote.length), quote };
+};
+
+/**
+ * Whether a pair survives the trip through its Binance-style symbol
+ * @param base - Base asset (e.g., 'BTC')
+ * @param quote - Quote asset (e.g., 'USDT')
+ * @returns True when splitSymbol gives back the same base and quote
+ */
+export const isMappablePair = (base: string, quote: string): boolean => {
+  return findQuoteAsset(`${base}${quote}`) === quote;
+};
+
+/**
+ * Fetch JSON from a public REST endpoint
+ * @param url - Full request URL
+ * @returns Promise with the parsed JSON response
+ */
+export const requestJson = async (url: string): Promise<any> => {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+};
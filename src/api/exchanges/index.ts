@@ -0,0 +1,29 @@
+/**
+ * Exchange adapters
+ * This file registers the available exchange implementations
+ */
+
+import { simulatedMarketAdapter } from '../simulatedMarket';
+import { binanceAdapter } from './binance';
+import { bybitAdapter } from './bybit';
+import { okxAdapter } from './okx';
+import { ExchangeAdapter, ExchangeId } from './types';
+
+export type { ExchangeAdapter, ExchangeId } from './types';
+
+const adapters: Record<ExchangeId, ExchangeAdapter> = {
+  binance: binanceAdapter,
+  okx: okxAdapter,
+  bybit: bybitAdapter,
+  simulated: simulatedMarketAdapter
+};
+
+// Exchange options in the order they are offered in the toolbar
+export const EXCHANGES: ExchangeAdapter[] = [binanceAdapter, okxAdapter, bybitAdapter];
+
+/**
+ * Look up the adapter for an exchange
+ * @param id - Exchange identifier
+ * @returns The exchange adapter
+ */
+export const getExchangeAdapter = (id: ExchangeId): ExchangeAdapter => adapters[id];
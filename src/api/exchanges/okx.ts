@@ -0,0 +1,256 @@
+/**
+ * OKX exchange adapter
+ * Uses the public OKX v5 REST API. Spot data comes from the '<BASE>-<QUOTE>'
+ * instrument, derivatives data from the '<BASE>-<QUOTE>-SWAP' perpetual.
+ */
+
+import { KlineData, OrderData, TradingPair } from '../../types/api';
+import { getCandleClose } from '../../utils/intervals';
+import { decimalsFromStep } from '../../utils/precision';
+import { isMappablePair, requestJson, splitSymbol } from './common';
+import { ExchangeAdapter } from './types';
+
+const OKX_API_BASE_URL = 'https://www.okx.com';
+
+// Binance interval -> OKX bar; daily and longer bars use the UTC variants
+// so candles open at the same time as on Binance
+const OKX_BARS: Record<string, string> = {
+  '1s': '1s',
+  '1m': '1m',
+  '3m': '3m',
+  '5m': '5m',
+  '15m': '15m',
+  '30m': '30m',
+  '1h': '1H',
+  '2h': '2H',
+  '4h': '4H',
+  '6h': '6Hutc',
+  '12h': '12Hutc',
+  '1d': '1Dutc',
+  '3d': '3Dutc',
+  '1w': '1Wutc',
+  '1M': '1Mutc'
+};
+
+const toSpotInstId = (symbol: string) => {
+  const { base, quote } = splitSymbol(symbol);
+  return `${base}-${quote}`;
+};
+
+const toSwapInstId = (symbol: string) => `${toSpotInstId(symbol)}-SWAP`;
+
+const toBar = (interval: string) => {
+  const bar = OKX_BARS[interval];
+  if (!bar) {
+    throw new Error(`OKX does not support the ${interval} interval`);
+  }
+  return bar;
+};
+
+// OKX wraps every response in { code, msg, data }; code '0' means success
+const okxRequest = async (path: string): Promise<any[]> => {
+  const body = await requestJson(`${OKX_API_BASE_URL}${path}`);
+
+  if (body.code !== '0') {
+    throw new Error(`OKX error ${body.code}: ${body.msg}`);
+  }
+
+  return body.data;
+};
+
+// Contract sizes of perpetual swaps, used to turn contracts into base quantity
+const contractValues: Record<string, number> = {};
+
+const fetchContractValue = async (instId: string): Promise<number> => {
+  if (contractValues[instId] === undefined) {
+    const data = await okxRequest(`/api/v5/public/instruments?instType=SWAP&instId=${instId}`);
+    contractValues[instId] = parseFloat(data[0].ctVal);
+  }
+  return contractValues[instId];
+};
+
+const toOrderData = (levels: string[][]): OrderData[] => levels.map(level => ({
+  price: parseFloat(level[0]),
+  amount: parseFloat(level[1])
+}));
+
+export const okxAdapter: ExchangeAdapter = {
+  id: 'okx',
+  name: 'OKX',
+  intervals: Object.keys(OKX_BARS),
+  maxKlineLimit: 100,
+
+  fetchKlines: async (symbol, interval, limit = 100, startTime, endTime) => {
+    // Recent candles are served by /candles; ranges go through /history-candles,
+    // which pages with exclusive 'after' (older than) and 'before' (newer than) bounds
+    const isRange = startTime !== undefined || endTime !== undefined;
+    const path = isRange ? '/api/v5/market/history-candles' : '/api/v5/market/candles';
+    const range = `${endTime !== undefined ? `&after=${endTime + 1}` : ''}${startTime !== undefined ? `&before=${startTime - 1}` : ''}`;
+    const data = await okxRequest(
+      `${path}?instId=${toSpotInstId(symbol)}&bar=${toBar(interval)}&limit=${Math.min(limit, isRange ? 100 : 300)}${range}`
+    );
+
+    // OKX returns newest first:
+    // [ts, open, high, low, close, vol, volCcy, volCcyQuote, confirm]
+    // Candles carry no taker split or trade count
+    return data.reverse().map((item: string[]): KlineData => {
+      const openTime = parseInt(item[0], 10);
+      const open = parseFloat(item[1]);
+      const close = parseFloat(item[4]);
+
+      return {
+        time: new Date(openTime).toISOString(),
+        open,
+        high: parseFloat(item[2]),
+        low: parseFloat(item[3]),
+        close,
+        volume: parseFloat(item[5]),
+        closeTime: new Date(getCandleClose(openTime, interval)).toISOString(),
+        quoteVolume: parseFloat(item[7]),
+        trades: null,
+        takerBuyBaseVolume: null,
+        takerBuyQuoteVolume: null,
+        isRising: close >= open
+      };
+    });
+  },
+
+  fetchOrderBook: async (symbol, limit = 20) => {
+    const data = await okxRequest(
+      `/api/v5/market/books?instId=${toSpotInstId(symbol)}&sz=${Math.min(limit, 400)}`
+    );
+
+    return {
+      lastUpdateId: data[0].seqId,
+      bids: toOrderData(data[0].bids),
+      asks: toOrderData(data[0].asks)
+    };
+  },
+
+  fetchTicker: async (symbol) => {
+    const data = await okxRequest(`/api/v5/market/ticker?instId=${toSpotInstId(symbol)}`);
+    const ticker = data[0];
+
+    const lastPrice = parseFloat(ticker.last);
+    const openPrice = parseFloat(ticker.open24h);
+    const volume = parseFloat(ticker.vol24h);
+    const quoteVolume = parseFloat(ticker.volCcy24h);
+    const closeTime = parseInt(ticker.ts, 10);
+
+    return {
+      symbol,
+      priceChange: lastPrice - openPrice,
+      priceChangePercent: openPrice ? ((lastPrice - openPrice) / openPrice) * 100 : 0,
+      weightedAvgPrice: volume ? quoteVolume / volume : lastPrice,
+      prevClosePrice: openPrice,
+      lastPrice,
+      lastQty: parseFloat(ticker.lastSz),
+      bidPrice: parseFloat(ticker.bidPx),
+      bidQty: parseFloat(ticker.bidSz),
+      askPrice: parseFloat(ticker.askPx),
+      askQty: parseFloat(ticker.askSz),
+      openPrice,
+      highPrice: parseFloat(ticker.high24h),
+      lowPrice: parseFloat(ticker.low24h),
+      volume,
+      quoteVolume,
+      openTime: new Date(closeTime - 24 * 60 * 60 * 1000).toISOString(),
+      closeTime: new Date(closeTime).toISOString(),
+      // The ticker carries no trade ids or count
+      firstId: null,
+      lastId: null,
+      count: null
+    };
+  },
+
+  fetchRecentTrades: async (symbol, limit = 100) => {
+    const data = await okxRequest(
+      `/api/v5/market/trades?instId=${toSpotInstId(symbol)}&limit=${Math.min(limit, 500)}`
+    );
+
+    // side is the taker side
+    return data.map((item: any) => {
+      const price = parseFloat(item.px);
+      const quantity = parseFloat(item.sz);
+
+      return {
+        id: parseInt(item.tradeId, 10),
+        price,
+        quantity,
+        quoteQuantity: price * quantity,
+        time: new Date(parseInt(item.ts, 10)).toISOString(),
+        isBuyerMaker: item.side === 'sell',
+        isBestMatch: true,
+        isBuy: item.side === 'buy'
+      };
+    });
+  },
+
+  fetchFundingRate: async (symbol, limit = 100) => {
+    const data = await okxRequest(
+      `/api/v5/public/funding-rate-history?instId=${toSwapInstId(symbol)}&limit=${Math.min(limit, 100)}`
+    );
+
+    return data.reverse().map((item: any) => ({
+      symbol,
+      time: new Date(parseInt(item.fundingTime, 10)).toISOString(),
+      rate: parseFloat(item.realizedRate || item.fundingRate)
+    }));
+  },
+
+  fetchLiquidationOrders: async (symbol, limit = 100) => {
+    const { base, quote } = splitSymbol(symbol);
+    const instId = toSwapInstId(symbol);
+    const [data, contractValue] = await Promise.all([
+      okxRequest(`/api/v5/public/liquidation-orders?instType=SWAP&uly=${base}-${quote}&state=filled&limit=${Math.min(limit, 100)}`),
+      fetchContractValue(instId)
+    ]);
+
+    // side is the side of the liquidation order: 'sell' closes a long
+    const details: any[] = data.length > 0 ? data[0].details : [];
+    return details.map((item: any) => {
+      const quantity = parseFloat(item.sz) * contractValue;
+      const price = parseFloat(item.bkPx);
+
+      return {
+        symbol,
+        price,
+        origQty: quantity,
+        executedQty: quantity,
+        averagePrice: price,
+        status: 'FILLED',
+        timeInForce: 'IOC',
+        type: 'LIQUIDATION',
+        side: item.side.toUpperCase(),
+        time: new Date(parseInt(item.ts, 10)).toISOString()
+      };
+    });
+  },
+
+  fetchTradingPairs: async () => {
+    const [spot, swaps] = await Promise.all([
+      okxRequest('/api/v5/public/instruments?instType=SPOT'),
+      // Swaps may be unavailable while spot works
+      okxRequest('/api/v5/public/instruments?instType=SWAP').catch((): any[] => [])
+    ]);
+
+    const perpetuals = new Set(
+      swaps.filter((item: any) => item.state === 'live').map((item: any) => item.instId)
+    );
+
+    // Pairs whose symbol cannot be split back into the instrument are left out
+    return spot
+      .filter((item: any) => item.state === 'live' && isMappablePair(item.baseCcy, item.quoteCcy))
+      .map((item: any): TradingPair => ({
+        symbol: `${item.baseCcy}${item.quoteCcy}`,
+        status: 'TRADING',
+        baseAsset: item.baseCcy,
+        quoteAsset: item.quoteCcy,
+        tickSize: parseFloat(item.tickSz),
+        stepSize: parseFloat(item.lotSz),
+        priceDecimals: decimalsFromStep(item.tickSz),
+        quantityDecimals: decimalsFromStep(item.lotSz),
+        hasFutures: perpetuals.has(toSwapInstId(`${item.baseCcy}${item.quoteCcy}`))
+      }));
+  }
+};
@@ -0,0 +1,70 @@
+/**
+ * Exchange adapter types
+ * This file contains the interface every exchange implementation provides.
+ * Adapters take Binance-style symbols (e.g. 'BTCUSDT') and intervals
+ * (e.g. '1h') and translate them to the venue's own format.
+ */
+
+import {
+  FundingRate,
+  KlineData,
+  LiquidationOrder,
+  OrderBook,
+  TickerPriceChange,
+  Trade,
+  TradingPair
+} from '../../types/api';
+
+// 'simulated' is the offline demo market, never offered as a real venue
+export type ExchangeId = 'binance' | 'okx' | 'bybit' | 'simulated';
+
+export interface OrderBookStreamCallbacks {
+  onUpdate: (book: OrderBook) => void;
+  onError?: (error: unknown) => void;
+  onSyncChange?: (synced: boolean) => void;
+}
+
+export interface ExchangeAdapter {
+  id: ExchangeId;
+  name: string;
+
+  // Kline intervals the venue serves, as Binance interval codes
+  intervals: string[];
+
+  // Largest kline page a single request can return
+  maxKlineLimit: number;
+
+  // Klines are returned oldest first; startTime/endTime bound the open time (epoch ms)
+  fetchKlines: (
+    symbol: string,
+    interval: string,
+    limit?: number,
+    startTime?: number,
+    endTime?: number
+  ) => Promise<KlineData[]>;
+  fetchOrderBook: (symbol: string, limit?: number) => Promise<OrderBook>;
+  fetchTicker: (symbol: string) => Promise<TickerPriceChange>;
+  fetchRecentTrades: (symbol: string, limit?: number) => Promise<Trade[]>;
+  fetchFundingRate: (symbol: string, limit?: number) => Promise<FundingRate[]>;
+  fetchLiquidationOrders: (symbol: string, limit?: number) => Promise<LiquidationOrder[]>;
+  // Spot pairs that are trading, as Binance-style symbols, flagged when a perpetual exists
+  fetchTradingPairs: () => Promise<TradingPair[]>;
+
+  // Push updates; adapters without them are polled through the REST methods
+  subscribeKlines?: (
+    symbol: string,
+    interval: string,
+    handler: (kline: KlineData) => void
+  ) => () => void;
+  subscribeTicker?: (symbol: string, handler: (ticker: TickerPriceChange) => void) => () => void;
+  subscribeOrderBook?: (
+    symbol: string,
+    depth: number,
+    callbacks: OrderBookStreamCallbacks
+  ) => () => void;
+  // A null symbol subscribes to liquidations of every symbol
+  subscribeLiquidations?: (
+    symbol: string | null,
+    handler: (order: LiquidationOrder) => void
+  ) => () => void;
+}
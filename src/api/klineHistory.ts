@@ -0,0 +1,120 @@
+/**
+ * Kline history loader
+ * This file contains functions that load kline ranges longer than a single
+ * request allows by stitching pages together
+ */
+
+import { ExchangeAdapter } from './exchanges';
+import { KlineData } from '../types/api';
+
+// Upper bound on requests for one range, so a typo cannot page back for years
+const MAX_PAGES = 50;
+
+/**
+ * Merge kline series, dropping duplicate candles
+ * @param series - Kline arrays in any order; later arrays win on overlap
+ * @returns Candles sorted by open time with one candle per open time
+ */
+export const mergeKlines = (...series: KlineData[][]): KlineData[] => {
+  const byTime = new Map<string, KlineData>();
+
+  series.forEach(klines => {
+    klines.forEach(kline => byTime.set(kline.time, kline));
+  });
+
+  return Array.from(byTime.values()).sort((a, b) => (a.time < b.time ? -1 : a.time > b.time ? 1 : 0));
+};
+
+/**
+ * Fetch every kline opened within a time range
+ * Pages are requested backwards from endTime until startTime is covered or
+ * the exchange has no older data.
+ * @param adapter - Exchange to read from
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param interval - Time interval (e.g., '1m', '1h', '1d')
+ * @param startTime - Range start, epoch ms (inclusive)
+ * @param endTime - Range end, epoch ms (inclusive, default: now)
+ * @returns Promise with the candles in the range, oldest first
+ */
+export const fetchKlineHistory = async (
+  adapter: ExchangeAdapter,
+  symbol: string,
+  interval: string,
+  startTime: number,
+  endTime: number = Date.now()
+): Promise<KlineData[]> => {
+  const pages: KlineData[][] = [];
+  let cursor = endTime;
+
+  for (let page = 0; page < MAX_PAGES && cursor >= startTime; page++) {
+    const klines = await adapter.fetchKlines(
+      symbol,
+      interval,
+      adapter.maxKlineLimit,
+      undefined,
+      cursor
+    );
+
+    if (klines.length === 0) {
+      break;
+    }
+
+    pages.push(klines);
+
+    const oldest = new Date(klines[0].time).getTime();
+    if (oldest >= cursor) {
+      // The exchange ignored the bound; stop rather than loop forever
+      break;
+    }
+    cursor = oldest - 1;
+
+    if (klines.length < adapter.maxKlineLimit) {
+      // Reached the first candle the exchange has
+      break;
+    }
+  }
+
+  const startIso = new Date(startTime).toISOString();
+  return mergeKlines(...pages.reverse()).filter(kline => kline.time >= startIso);
+};
+
+/**
+ * Fetch the candles that precede a given candle
+ * @param adapter - Exchange to read from
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param interval - Time interval (e.g., '1m', '1h', '1d')
+ * @param before - Open time (ISO string) of the oldest candle already loaded
+ * @param count - Number of older candles to load
+ * @returns Promise with up to count candles, oldest first
+ */
+export const fetchOlderKlines = async (
+  adapter: ExchangeAdapter,
+  symbol: string,
+  interval: string,
+  before: string,
+  count: number
+): Promise<KlineData[]> => {
+  const pages: KlineData[][] = [];
+  let cursor = new Date(before).getTime() - 1;
+  let loaded = 0;
+
+  while (loaded < count && pages.length < MAX_PAGES) {
+    const klines = await adapter.fetchKlines(
+      symbol,
+      interval,
+      Math.min(adapter.maxKlineLimit, count - loaded),
+      undefined,
+      cursor
+    );
+
+    if (klines.length === 0) {
+      break;
+    }
+
+    pages.push(klines);
+    loaded += klines.length;
+    cursor = new Date(klines[0].time).getTime() - 1;
+  }
+
+  return mergeKlines(...pages.reverse()).filter(kline => kline.time < before);
+};
@@ -0,0 +1,261 @@
+/**
+ * Liquidation feed
+ * This file contains a rolling in-memory window of liquidation orders per
+ * exchange and symbol. Exchanges with a liquidation stream push into the
+ * window as orders happen; the others are polled through REST. Streams cannot
+ * be backfilled, so the window only covers the time since the feed started.
+ */
+
+import { ExchangeId, getExchangeAdapter } from './exchanges';
+import { LiquidationOrder } from '../types/api';
+
+// Longest timeframe the panel offers
+export const LIQUIDATION_WINDOW = 24 * 60 * 60 * 1000;
+
+// The market-wide stream can be busy on volatile days
+const MAX_ORDERS = 20000;
+
+// Exchanges without a liquidation stream are polled at this interval
+const POLL_INTERVAL = 30000;
+
+// Feeds keep collecting this long after their last subscriber leaves
+const CACHE_TIME = 5 * 60 * 1000;
+
+export type LiquidationSide = 'long' | 'short';
+
+export interface LiquidationFeedState {
+  // Orders inside the window, oldest first
+  orders: LiquidationOrder[];
+  error: unknown;
+  // Epoch ms since which the feed has been collecting
+  startedAt: number;
+}
+
+export interface LiquidationBucket {
+  // Lower bound of the price bucket
+  price: number;
+  side: LiquidationSide;
+  notional: number;
+  quantity: number;
+  count: number;
+}
+
+type Listener = (state: LiquidationFeedState) => void;
+
+interface FeedEntry {
+  state: LiquidationFeedState;
+  listeners: Set<Listener>;
+  keys: Set<string>;
+  stop: (() => void) | null;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const feeds = new Map<string, FeedEntry>();
+
+const feedKey = (exchange: ExchangeId, symbol: string | null) => `${exchange}:${symbol || '*'}`;
+
+// REST polls return orders that are already in the window
+const orderKey = (order: LiquidationOrder) => {
+  return `${order.symbol}:${order.time}:${order.side}:${order.price}:${order.origQty}`;
+};
+
+const notify = (entry: FeedEntry) => {
+  entry.listeners.forEach(listener => listener(entry.state));
+};
+
+const byTime = (a: LiquidationOrder, b: LiquidationOrder) => (a.time < b.time ? -1 : a.time > b.time ? 1 : 0);
+
+const addOrders = (entry: FeedEntry, incoming: LiquidationOrder[]) => {
+  const fresh: LiquidationOrder[] = [];
+  incoming.forEach(order => {
+    const key = orderKey(order);
+    if (!entry.keys.has(key)) {
+      entry.keys.add(key);
+      fresh.push(order);
+    }
+  });
+  if (fresh.length === 0) {
+    return;
+  }
+
+  // Stream orders arrive in time order and are only appended; REST pages can
+  // come newest first and reach back before the latest order held
+  fresh.sort(byTime);
+  const held = entry.state.orders;
+  let orders = held.concat(fresh);
+  if (held.length > 0 && fresh[0].time < held[held.length - 1].time) {
+    orders.sort(byTime);
+  }
+
+  // Drop from the head: orders that left the window, then any beyond the cap
+  const cutoff = new Date(Date.now() - LIQUIDATION_WINDOW).toISOString();
+  let head = 0;
+  while (head < orders.length && (orders[head].time < cutoff || orders.length - head > MAX_ORDERS)) {
+    entry.keys.delete(orderKey(orders[head]));
+    head++;
+  }
+  if (head > 0) {
+    orders = orders.slice(head);
+  }
+
+  entry.state = { ...entry.state, orders, error: null };
+  notify(entry);
+};
+
+const setError = (entry: FeedEntry, error: unknown) => {
+  entry.state = { ...entry.state, error };
+  notify(entry);
+};
+
+const startFeed = (exchange: ExchangeId, symbol: string | null, entry: FeedEntry): (() => void) => {
+  const adapter = getExchangeAdapter(exchange);
+
+  if (adapter.subscribeLiquidations) {
+    return adapter.subscribeLiquidations(symbol, order => addOrders(entry, [order]));
+  }
+
+  if (!symbol) {
+    setError(entry, new Error(`${adapter.name} does not provide a market-wide liquidation feed`));
+    return () => undefined;
+  }
+
+  const poll = () => {
+    adapter.fetchLiquidationOrders(symbol)
+      .then(orders => addOrders(entry, orders))
+      .catch(error => setError(entry, error));
+  };
+
+  poll();
+  const intervalId = setInterval(poll, POLL_INTERVAL);
+  return () => clearInterval(intervalId);
+};
+
+/**
+ * Subscribe to the liquidation window of a symbol
+ * @param exchange - Exchange to read from
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT'), or null for every symbol
+ * @param listener - Called whenever orders arrive or the feed fails
+ * @returns Function that removes the subscription
+ */
+export const subscribeLiquidationFeed = (
+  exchange: ExchangeId,
+  symbol: string | null,
+  listener: Listener
+): (() => void) => {
+  const key = feedKey(exchange, symbol);
+  let entry = feeds.get(key);
+
+  if (!entry) {
+    entry = {
+      state: { orders: [], error: null, startedAt: Date.now() },
+      listeners: new Set(),
+      keys: new Set(),
+      stop: null,
+      gcTimer: null
+    };
+    feeds.set(key, entry);
+  }
+
+  const feed = entry;
+  if (feed.gcTimer) {
+    clearTimeout(feed.gcTimer);
+    feed.gcTimer = null;
+  }
+
+  feed.listeners.add(listener);
+  if (!feed.stop) {
+    feed.stop = startFeed(exchange, symbol, feed);
+  }
+
+  return () => {
+    feed.listeners.delete(listener);
+    if (feed.listeners.size > 0) {
+      return;
+    }
+
+    feed.gcTimer = setTimeout(() => {
+      feed.stop?.();
+      feeds.delete(key);
+    }, CACHE_TIME);
+  };
+};
+
+/**
+ * Current liquidation window of a symbol
+ * @param exchange - Exchange to read from
+ * @param symbol - Trading pair symbol, or null for every symbol
+ * @returns Feed state, empty if the feed is not running
+ */
+export const getLiquidationFeedState = (
+  exchange: ExchangeId,
+  symbol: string | null
+): LiquidationFeedState => {
+  const entry = feeds.get(feedKey(exchange, symbol));
+  return entry ? entry.state : { orders: [], error: null, startedAt: Date.now() };
+};
+
+/**
+ * Position side closed by a liquidation order
+ * @param order - Liquidation order
+ * @returns 'long' for forced sells, 'short' for forced buys
+ */
+export const getLiquidationSide = (order: LiquidationOrder): LiquidationSide => {
+  return order.side === 'SELL' ? 'long' : 'short';
+};
+
+/**
+ * Quote value of a liquidation order
+ * @param order - Liquidation order
+ * @returns Filled quantity times average price
+ */
+export const getLiquidationNotional = (order: LiquidationOrder): number => {
+  return (order.averagePrice || order.price) * (order.executedQty || order.origQty);
+};
+
+/**
+ * Price bucket size that splits a price range into about the given number of buckets
+ * @param prices - Prices to cover
+ * @param buckets - Target number of buckets (default: 40)
+ * @returns Bucket size rounded to 1, 2 or 5 times a power of ten
+ */
+export const getBucketSize = (prices: number[], buckets: number = 40): number => {
+  if (prices.length === 0) {
+    return 1;
+  }
+
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  // A single price still gets a bucket about 0.1% wide
+  const raw = max > min ? (max - min) / buckets : max * 0.001;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].find(multiple => multiple * magnitude >= raw) || 10;
+
+  return step * magnitude;
+};
+
+/**
+ * Aggregate liquidation orders into price buckets per side
+ * @param orders - Liquidation orders of a single symbol
+ * @param bucketSize - Width of a price bucket (see getBucketSize)
+ * @returns Buckets sorted by price
+ */
+export const aggregateLiquidations = (
+  orders: LiquidationOrder[],
+  bucketSize: number
+): LiquidationBucket[] => {
+  const buckets = new Map<string, LiquidationBucket>();
+
+  orders.forEach(order => {
+    const price = Math.floor((order.averagePrice || order.price) / bucketSize) * bucketSize;
+    const side = getLiquidationSide(order);
+    const key = `${side}:${price}`;
+
+    const bucket = buckets.get(key) || { price, side, notional: 0, quantity: 0, count: 0 };
+    bucket.notional += getLiquidationNotional(order);
+    bucket.quantity += order.executedQty || order.origQty;
+    bucket.count += 1;
+    buckets.set(key, bucket);
+  });
+
+  return Array.from(buckets.values()).sort((a, b) => a.price - b.price);
+};
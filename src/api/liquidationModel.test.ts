@@ -0,0 +1,100 @@
+import {
+  buildLiquidationHeatmap,
+  getLiquidationPrice,
+  getMaintenanceMarginRatio,
+  getMarginBrackets,
+  MARGIN_BRACKETS
+} from './liquidationModel';
+import { KlineData, OpenInterestHist } from '../types/api';
+
+const candle = (time: string, low: number, high: number, close: number): KlineData => ({
+  time,
+  open: close,
+  high,
+  low,
+  close,
+  volume: 1,
+  closeTime: time,
+  quoteVolume: close,
+  trades: 1,
+  takerBuyBaseVolume: 0.5,
+  takerBuyQuoteVolume: close / 2,
+  isRising: true
+});
+
+const interest = (time: string, openInterest: number): OpenInterestHist => ({
+  symbol: 'BTCUSDT',
+  openInterest,
+  openInterestValue: openInterest * 100,
+  time
+});
+
+const BTC_BRACKETS = MARGIN_BRACKETS.BTCUSDT;
+
+describe('getMarginBrackets', () => {
+  test('has no tiers for contracts without a table', () => {
+    expect(getMarginBrackets('BTCUSDT')).toBe(BTC_BRACKETS);
+    expect(getMarginBrackets('PEPEUSDT')).toBeNull();
+  });
+});
+
+describe('getMaintenanceMarginRatio', () => {
+  test('uses the smallest bracket that allows the leverage', () => {
+    expect(getMaintenanceMarginRatio(10, BTC_BRACKETS)).toBe(0.004);
+    expect(getMaintenanceMarginRatio(25, BTC_BRACKETS)).toBe(0.004);
+    expect(getMaintenanceMarginRatio(125, BTC_BRACKETS)).toBe(0.004);
+  });
+
+  test('skips brackets capped below the leverage', () => {
+    const brackets = BTC_BRACKETS.slice(2);
+    expect(getMaintenanceMarginRatio(10, brackets)).toBe(0.0065);
+    expect(getMaintenanceMarginRatio(60, brackets)).toBe(0.0065);
+  });
+
+  test('falls back to the first bracket above every cap', () => {
+    expect(getMaintenanceMarginRatio(200, BTC_BRACKETS)).toBe(0.004);
+  });
+});
+
+describe('getLiquidationPrice', () => {
+  test('puts 10x and 25x longs about 9.6% and 3.6% below entry', () => {
+    const ratio10 = getMaintenanceMarginRatio(10, BTC_BRACKETS);
+    const ratio25 = getMaintenanceMarginRatio(25, BTC_BRACKETS);
+    expect(getLiquidationPrice(100, 10, 'long', ratio10) / 100 - 1).toBeCloseTo(-0.096, 3);
+    expect(getLiquidationPrice(100, 25, 'long', ratio25) / 100 - 1).toBeCloseTo(-0.036, 3);
+  });
+
+  test('puts shorts above entry', () => {
+    expect(getLiquidationPrice(100, 10, 'short', 0.004)).toBeCloseTo(109.56, 2);
+  });
+});
+
+describe('buildLiquidationHeatmap', () => {
+  const times = ['2024-01-01T00:00:00.000Z', '2024-01-01T01:00:00.000Z', '2024-01-01T02:00:00.000Z'];
+
+  test('adds levels when open interest rises and drops the ones price trades through', () => {
+    const candles = [candle(times[0], 99, 101, 100), candle(times[1], 99, 101, 100), candle(times[2], 80, 101, 100)];
+    const openInterest = [interest(times[0], 10), interest(times[1], 20), interest(times[2], 20)];
+    const heatmap = buildLiquidationHeatmap(candles, openInterest, BTC_BRACKETS, {
+      distribution: [{ leverage: 10, weight: 1 }]
+    });
+
+    const total = (column: number[]) => column.reduce((acc, value) => acc + value, 0);
+    expect(total(heatmap.longs[0])).toBe(0);
+    expect(total(heatmap.longs[1])).toBeCloseTo(1000);
+    expect(total(heatmap.shorts[1])).toBeCloseTo(1000);
+    // The third candle's low reaches the 10x longs
+    expect(total(heatmap.longs[2])).toBe(0);
+    expect(total(heatmap.shorts[2])).toBeCloseTo(1000);
+  });
+
+  test('takes closed positions evenly from every level', () => {
+    const candles = times.map(time => candle(time, 100, 100, 100));
+    const openInterest = [interest(times[0], 10), interest(times[1], 20), interest(times[2], 15)];
+    const heatmap = buildLiquidationHeatmap(candles, openInterest, BTC_BRACKETS);
+
+    const total = (column: number[]) => column.reduce((acc, value) => acc + value, 0);
+    expect(total(heatmap.longs[2])).toBeCloseTo(500);
+    expect(total(heatmap.shorts[2])).toBeCloseTo(500);
+  });
+});
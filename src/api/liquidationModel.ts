@@ -0,0 +1,223 @@
+/**
+ * Liquidation level model
+ * This file contains an estimate of where open positions would be liquidated.
+ * Every rise in open interest is treated as new longs and shorts entered at
+ * that period's price, spread over an assumed leverage distribution. Their
+ * liquidation prices follow from the maintenance margin brackets, and a level
+ * stays open until price trades through it or open interest falls.
+ * This is a model, not observed data: Binance does not publish positions.
+ */
+
+import { KlineData, OpenInterestHist } from '../types/api';
+
+export interface MarginBracket {
+  // Largest position notional (quote asset) the bracket applies to
+  notionalCap: number;
+  maxLeverage: number;
+  maintMarginRatio: number;
+}
+
+export interface LeverageWeight {
+  leverage: number;
+  // Share of new open interest entered at this leverage
+  weight: number;
+}
+
+export interface LiquidationHeatmap {
+  // Open times of the columns (ISO strings)
+  times: string[];
+  // Lower bound of the first price row
+  priceMin: number;
+  binSize: number;
+  bins: number;
+  // Modeled notional at risk per [column][row]
+  longs: number[][];
+  shorts: number[][];
+  // Largest long + short notional in a single cell
+  maxValue: number;
+}
+
+export interface LiquidationModelOptions {
+  distribution?: LeverageWeight[];
+  // Number of price rows (default: 80)
+  bins?: number;
+}
+
+interface LiquidationLevel {
+  price: number;
+  side: 'long' | 'short';
+  notional: number;
+}
+
+// /fapi/v1/leverageBracket requires a signed request, so the public USD-M
+// tiers are kept here per contract. Altcoin tiers are far steeper than
+// BTCUSDT's, so contracts without an entry get no model rather than a wrong one
+export const MARGIN_BRACKETS: Record<string, MarginBracket[]> = {
+  BTCUSDT: [
+    { notionalCap: 50000, maxLeverage: 125, maintMarginRatio: 0.004 },
+    { notionalCap: 600000, maxLeverage: 100, maintMarginRatio: 0.005 },
+    { notionalCap: 3000000, maxLeverage: 75, maintMarginRatio: 0.0065 },
+    { notionalCap: 12000000, maxLeverage: 50, maintMarginRatio: 0.01 },
+    { notionalCap: 70000000, maxLeverage: 25, maintMarginRatio: 0.02 },
+    { notionalCap: 100000000, maxLeverage: 20, maintMarginRatio: 0.025 },
+    { notionalCap: 230000000, maxLeverage: 10, maintMarginRatio: 0.05 },
+    { notionalCap: 480000000, maxLeverage: 5, maintMarginRatio: 0.1 },
+    { notionalCap: 600000000, maxLeverage: 4, maintMarginRatio: 0.125 },
+    { notionalCap: 800000000, maxLeverage: 3, maintMarginRatio: 0.15 },
+    { notionalCap: 1200000000, maxLeverage: 2, maintMarginRatio: 0.25 },
+    { notionalCap: Infinity, maxLeverage: 1, maintMarginRatio: 0.5 }
+  ]
+};
+
+export const DEFAULT_LEVERAGE_DISTRIBUTION: LeverageWeight[] = [
+  { leverage: 10, weight: 0.4 },
+  { leverage: 25, weight: 0.3 },
+  { leverage: 50, weight: 0.2 },
+  { leverage: 100, weight: 0.1 }
+];
+
+/**
+ * Maintenance margin brackets of a USD-M perpetual
+ * @param symbol - Contract symbol (e.g., 'BTCUSDT')
+ * @returns Brackets, smallest notional first, or null when the tiers are not known
+ */
+export const getMarginBrackets = (symbol: string): MarginBracket[] | null => {
+  return MARGIN_BRACKETS[symbol] || null;
+};
+
+// Price rows reach this far beyond the traded range (10x longs sit ~10% below entry)
+const PRICE_RANGE_PADDING = 0.12;
+
+/**
+ * Maintenance margin ratio of a position opened at a given leverage
+ * @param leverage - Position leverage
+ * @param brackets - Margin brackets, smallest notional first
+ * @returns Ratio of the smallest bracket that allows the leverage, which is
+ *   where a typical position sits; the first bracket above every cap
+ */
+export const getMaintenanceMarginRatio = (leverage: number, brackets: MarginBracket[]): number => {
+  const bracket = brackets.find(item => item.maxLeverage >= leverage);
+  return (bracket || brackets[0]).maintMarginRatio;
+};
+
+/**
+ * Liquidation price of an isolated position, ignoring fees and funding
+ * @param entryPrice - Average entry price
+ * @param leverage - Position leverage
+ * @param side - Position side
+ * @param maintMarginRatio - Maintenance margin ratio of the position's bracket
+ * @returns Mark price at which the position is liquidated
+ */
+export const getLiquidationPrice = (
+  entryPrice: number,
+  leverage: number,
+  side: 'long' | 'short',
+  maintMarginRatio: number
+): number => {
+  return side === 'long'
+    ? (entryPrice * (1 - 1 / leverage)) / (1 - maintMarginRatio)
+    : (entryPrice * (1 + 1 / leverage)) / (1 + maintMarginRatio);
+};
+
+const normalize = (distribution: LeverageWeight[]): LeverageWeight[] => {
+  const total = distribution.reduce((acc, item) => acc + Math.max(item.weight, 0), 0);
+  return total > 0
+    ? distribution.map(item => ({ ...item, weight: Math.max(item.weight, 0) / total }))
+    : distribution;
+};
+
+/**
+ * Model the liquidation levels built up over a range of candles
+ * @param candles - Candles of the range, oldest first
+ * @param openInterest - Open interest per period of the same length as the candles
+ * @param brackets - Margin brackets of the contract (see getMarginBrackets)
+ * @param options - Leverage distribution and row count
+ * @returns Heatmap of modeled notional at risk per candle and price row
+ */
+export const buildLiquidationHeatmap = (
+  candles: KlineData[],
+  openInterest: OpenInterestHist[],
+  brackets: MarginBracket[],
+  options: LiquidationModelOptions = {}
+): LiquidationHeatmap => {
+  const distribution = normalize(options.distribution || DEFAULT_LEVERAGE_DISTRIBUTION);
+  const bins = options.bins || 80;
+
+  const lows = candles.map(candle => candle.low);
+  const highs = candles.map(candle => candle.high);
+  const priceMin = candles.length > 0 ? Math.min(...lows) * (1 - PRICE_RANGE_PADDING) : 0;
+  const priceMax = candles.length > 0 ? Math.max(...highs) * (1 + PRICE_RANGE_PADDING) : 1;
+  const binSize = (priceMax - priceMin) / bins;
+
+  const interestByTime = new Map<number, OpenInterestHist>();
+  openInterest.forEach(item => interestByTime.set(new Date(item.time).getTime(), item));
+
+  let levels: LiquidationLevel[] = [];
+  let previous: OpenInterestHist | undefined;
+  const longs: number[][] = [];
+  const shorts: number[][] = [];
+  let maxValue = 0;
+
+  candles.forEach(candle => {
+    // Levels the candle traded through have been liquidated
+    levels = levels.filter(level => (level.side === 'long' ? candle.low > level.price : candle.high < level.price));
+
+    // Statistics are stamped with the period start, like candle open times
+    const interest = interestByTime.get(new Date(candle.time).getTime());
+    if (interest && previous) {
+      const delta = (interest.openInterest - previous.openInterest) * candle.close;
+
+      if (delta > 0) {
+        // Every new contract has a long and a short side
+        distribution.forEach(({ leverage, weight }) => {
+          const ratio = getMaintenanceMarginRatio(leverage, brackets);
+          (['long', 'short'] as const).forEach(side => {
+            levels.push({
+              price: getLiquidationPrice(candle.close, leverage, side, ratio),
+              side,
+              notional: delta * weight
+            });
+          });
+        });
+      } else if (delta < 0) {
+        // Closed positions are taken evenly from every open level
+        const open = levels.reduce((acc, level) => acc + level.notional, 0) / 2;
+        const remaining = open > 0 ? Math.max(1 + delta / open, 0) : 0;
+        levels = levels.map(level => ({ ...level, notional: level.notional * remaining }));
+      }
+    }
+    if (interest) {
+      previous = interest;
+    }
+
+    const longColumn = new Array<number>(bins).fill(0);
+    const shortColumn = new Array<number>(bins).fill(0);
+    levels.forEach(level => {
+      const row = Math.floor((level.price - priceMin) / binSize);
+      if (row < 0 || row >= bins) {
+        return;
+      }
+      if (level.side === 'long') {
+        longColumn[row] += level.notional;
+      } else {
+        shortColumn[row] += level.notional;
+      }
+    });
+
+    for (let row = 0; row < bins; row++) {
+      maxValue = Math.max(maxValue, longColumn[row] + shortColumn[row]);
+    }
+    longs.push(longColumn);
+    shorts.push(shortColumn);
+  });
+
+  return {
+    times: candles.map(candle => candle.time),
+    priceMin,
+    binSize,
+    bins,
+    longs,
+    shorts,
+    maxValue
+  };
+};
@@ -0,0 +1,136 @@
+import { createLocalOrderBook } from './localOrderBook';
+import { fetchOrderBook } from './binance';
+import { subscribeDiffDepthStream } from './binanceStream';
+import { OrderBook, OrderBookDiff } from '../types/api';
+
+jest.mock('./binance', () => ({
+  fetchOrderBook: jest.fn()
+}));
+jest.mock('./binanceStream', () => ({
+  subscribeDiffDepthStream: jest.fn()
+}));
+
+const mockFetchOrderBook = fetchOrderBook as jest.MockedFunction<typeof fetchOrderBook>;
+const mockSubscribe = subscribeDiffDepthStream as jest.MockedFunction<typeof subscribeDiffDepthStream>;
+
+const diff = (
+  firstUpdateId: number,
+  finalUpdateId: number,
+  bids: [number, number][] = [],
+  asks: [number, number][] = []
+): OrderBookDiff => ({
+  firstUpdateId,
+  finalUpdateId,
+  time: new Date(0).toISOString(),
+  bids: bids.map(([price, amount]) => ({ price, amount })),
+  asks: asks.map(([price, amount]) => ({ price, amount }))
+});
+
+const SNAPSHOT: OrderBook = {
+  lastUpdateId: 100,
+  bids: [{ price: 99, amount: 1 }, { price: 98, amount: 2 }],
+  asks: [{ price: 101, amount: 1 }, { price: 102, amount: 2 }]
+};
+
+// Lets the awaited snapshot request settle
+const flush = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+let push: (event: OrderBookDiff) => void;
+const unsubscribe = jest.fn();
+
+beforeEach(() => {
+  mockFetchOrderBook.mockReset();
+  mockSubscribe.mockReset();
+  unsubscribe.mockReset();
+  mockSubscribe.mockImplementation((_symbol, handler) => {
+    push = handler;
+    return unsubscribe;
+  });
+});
+
+test('applies buffered events on top of the snapshot', async () => {
+  mockFetchOrderBook.mockResolvedValue(SNAPSHOT);
+  const onUpdate = jest.fn();
+  const onSyncChange = jest.fn();
+  const book = createLocalOrderBook('BTCUSDT', { depth: 2, onUpdate, onSyncChange });
+
+  // Already in the snapshot, then the event that straddles it
+  push(diff(90, 95, [[99, 5]]));
+  push(diff(96, 102, [[99, 0], [97, 3]], [[100.5, 4]]));
+  await flush();
+
+  expect(mockFetchOrderBook).toHaveBeenCalledTimes(1);
+  expect(onSyncChange).toHaveBeenLastCalledWith(true);
+  expect(onUpdate).toHaveBeenLastCalledWith({
+    lastUpdateId: 102,
+    bids: [{ price: 98, amount: 2 }, { price: 97, amount: 3 }],
+    asks: [{ price: 100.5, amount: 4 }, { price: 101, amount: 1 }]
+  });
+
+  // Once in sync, events are applied as they arrive
+  push(diff(103, 104, [], [[100.5, 0]]));
+  expect(onUpdate).toHaveBeenLastCalledWith({
+    lastUpdateId: 104,
+    bids: [{ price: 98, amount: 2 }, { price: 97, amount: 3 }],
+    asks: [{ price: 101, amount: 1 }, { price: 102, amount: 2 }]
+  });
+
+  book.stop();
+  expect(unsubscribe).toHaveBeenCalled();
+});
+
+test('resyncs from a new snapshot after a sequence gap', async () => {
+  mockFetchOrderBook.mockResolvedValueOnce(SNAPSHOT);
+  const onUpdate = jest.fn();
+  const onSyncChange = jest.fn();
+  const book = createLocalOrderBook('BTCUSDT', { depth: 1, onUpdate, onSyncChange });
+
+  push(diff(100, 101));
+  await flush();
+  expect(onSyncChange).toHaveBeenLastCalledWith(true);
+
+  mockFetchOrderBook.mockResolvedValueOnce({ ...SNAPSHOT, lastUpdateId: 110, bids: [{ price: 97, amount: 1 }] });
+  push(diff(105, 110));
+  expect(onSyncChange).toHaveBeenLastCalledWith(false);
+  await flush();
+
+  expect(mockFetchOrderBook).toHaveBeenCalledTimes(2);
+  expect(onSyncChange).toHaveBeenLastCalledWith(true);
+  expect(onUpdate).toHaveBeenLastCalledWith({
+    lastUpdateId: 110,
+    bids: [{ price: 97, amount: 1 }],
+    asks: [{ price: 101, amount: 1 }]
+  });
+
+  book.stop();
+});
+
+test('retries a snapshot older than the first buffered event', async () => {
+  jest.useFakeTimers();
+  mockFetchOrderBook
+    .mockResolvedValueOnce({ ...SNAPSHOT, lastUpdateId: 50 })
+    .mockResolvedValueOnce(SNAPSHOT);
+  const onUpdate = jest.fn();
+  const book = createLocalOrderBook('BTCUSDT', { depth: 1, onUpdate });
+
+  push(diff(100, 101, [[99.5, 1]]));
+  await flush();
+  expect(onUpdate).not.toHaveBeenCalled();
+
+  jest.advanceTimersByTime(1000);
+  await flush();
+
+  expect(mockFetchOrderBook).toHaveBeenCalledTimes(2);
+  expect(onUpdate).toHaveBeenLastCalledWith({
+    lastUpdateId: 101,
+    bids: [{ price: 99.5, amount: 1 }],
+    asks: [{ price: 101, amount: 1 }]
+  });
+
+  book.stop();
+  jest.useRealTimers();
+});
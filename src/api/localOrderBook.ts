@@ -0,0 +1,213 @@
+/**
+ * Local order book engine
+ * This file keeps an order book in sync with Binance by applying diff depth
+ * events on top of a REST snapshot, following the procedure documented at
+ * https://developers.binance.com/docs/binance-spot-api-docs/web-socket-streams#how-to-manage-a-local-order-book-correctly
+ */
+
+import { fetchOrderBook } from './binance';
+import { subscribeDiffDepthStream } from './binanceStream';
+import { OrderBook, OrderBookDiff, OrderData } from '../types/api';
+
+// Depth of the REST snapshot the local book is seeded from
+const SNAPSHOT_LIMIT = 1000;
+
+// Delay before retrying a failed or stale snapshot
+const RESYNC_DELAY = 1000;
+
+// Levels far from the touch are trimmed once a side grows past this size
+const MAX_LEVELS_PER_SIDE = 2 * SNAPSHOT_LIMIT;
+
+export interface LocalOrderBookOptions {
+  // Number of levels per side passed to onUpdate
+  depth: number;
+  // Called with the top of the book after every applied update
+  onUpdate: (book: OrderBook) => void;
+  // Called when the snapshot cannot be fetched; the engine keeps retrying
+  onError?: (error: unknown) => void;
+  // Called whenever the book loses or regains sync with the stream
+  onSyncChange?: (synced: boolean) => void;
+}
+
+export interface LocalOrderBook {
+  stop: () => void;
+}
+
+const applyLevels = (side: Map<number, number>, levels: OrderData[]) => {
+  levels.forEach(level => {
+    if (level.amount === 0) {
+      side.delete(level.price);
+    } else {
+      side.set(level.price, level.amount);
+    }
+  });
+};
+
+const topLevels = (side: Map<number, number>, count: number, descending: boolean): OrderData[] => {
+  return Array.from(side.keys())
+    .sort((a, b) => (descending ? b - a : a - b))
+    .slice(0, count)
+    .map(price => ({ price, amount: side.get(price) as number }));
+};
+
+const trimSide = (side: Map<number, number>, descending: boolean) => {
+  if (side.size <= MAX_LEVELS_PER_SIDE) {
+    return;
+  }
+
+  Array.from(side.keys())
+    .sort((a, b) => (descending ? b - a : a - b))
+    .slice(MAX_LEVELS_PER_SIDE)
+    .forEach(price => side.delete(price));
+};
+
+/**
+ * Start maintaining a local order book for a symbol
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param options - Output depth and callbacks
+ * @returns Handle used to stop the engine
+ */
+export const createLocalOrderBook = (
+  symbol: string,
+  options: LocalOrderBookOptions
+): LocalOrderBook => {
+  const { depth, onUpdate, onError, onSyncChange } = options;
+
+  const bids = new Map<number, number>();
+  const asks = new Map<number, number>();
+  let lastUpdateId = 0;
+  let synced = false;
+  let syncing = false;
+  let stopped = false;
+  let buffer: OrderBookDiff[] = [];
+  let resyncTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setSynced = (value: boolean) => {
+    if (synced !== value) {
+      synced = value;
+      onSyncChange?.(value);
+    }
+  };
+
+  const emit = () => {
+    onUpdate({
+      lastUpdateId,
+      bids: topLevels(bids, depth, true),
+      asks: topLevels(asks, depth, false)
+    });
+  };
+
+  // Returns false when the event does not continue the local sequence
+  const applyDiff = (diff: OrderBookDiff): boolean => {
+    // Already contained in the book
+    if (diff.finalUpdateId <= lastUpdateId) {
+      return true;
+    }
+
+    // Events must chain: U of this one is at most u of the previous one + 1
+    if (diff.firstUpdateId > lastUpdateId + 1) {
+      return false;
+    }
+
+    applyLevels(bids, diff.bids);
+    applyLevels(asks, diff.asks);
+    lastUpdateId = diff.finalUpdateId;
+    return true;
+  };
+
+  const scheduleResync = () => {
+    if (stopped || resyncTimer) {
+      return;
+    }
+
+    resyncTimer = setTimeout(() => {
+      resyncTimer = null;
+      sync();
+    }, RESYNC_DELAY);
+  };
+
+  const sync = async () => {
+    if (stopped || syncing) {
+      return;
+    }
+
+    syncing = true;
+    setSynced(false);
+
+    try {
+      const snapshot = await fetchOrderBook(symbol, SNAPSHOT_LIMIT);
+      if (stopped) {
+        return;
+      }
+
+      // The snapshot must not be older than the first buffered event
+      if (buffer.length > 0 && snapshot.lastUpdateId < buffer[0].firstUpdateId) {
+        scheduleResync();
+        return;
+      }
+
+      bids.clear();
+      asks.clear();
+      applyLevels(bids, snapshot.bids);
+      applyLevels(asks, snapshot.asks);
+      lastUpdateId = snapshot.lastUpdateId;
+
+      const pending = buffer;
+      buffer = [];
+
+      for (const diff of pending) {
+        if (!applyDiff(diff)) {
+          // A gap right after the snapshot: start from a new snapshot
+          buffer = pending.slice(pending.indexOf(diff));
+          scheduleResync();
+          return;
+        }
+      }
+
+      setSynced(true);
+      emit();
+    } catch (error) {
+      if (!stopped) {
+        onError?.(error);
+        scheduleResync();
+      }
+    } finally {
+      syncing = false;
+    }
+  };
+
+  const unsubscribe = subscribeDiffDepthStream(symbol, (diff: OrderBookDiff) => {
+    if (!synced) {
+      buffer.push(diff);
+
+      // The snapshot is requested once the first event has been buffered
+      if (!syncing && !resyncTimer) {
+        sync();
+      }
+      return;
+    }
+
+    if (!applyDiff(diff)) {
+      // A missed event: onSyncChange(false) tells the consumer the book is resyncing
+      buffer = [diff];
+      setSynced(false);
+      sync();
+      return;
+    }
+
+    trimSide(bids, true);
+    trimSide(asks, false);
+    emit();
+  });
+
+  return {
+    stop: () => {
+      stopped = true;
+      unsubscribe();
+      if (resyncTimer) {
+        clearTimeout(resyncTimer);
+        resyncTimer = null;
+      }
+    }
+  };
+};
@@ -0,0 +1,258 @@
+/**
+ * Market data store
+ * This file contains a shared cache for API responses. Entries are keyed by
+ * endpoint and params, concurrent requests for the same key are deduplicated,
+ * and subscribers are refreshed from the same entry so panels stay consistent.
+ */
+
+// Unused entries are dropped this long after their last subscriber leaves
+const CACHE_TIME = 5 * 60 * 1000;
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+export interface QueryOptions<T> {
+  // Cached data younger than this is served without revalidating (default: 0)
+  staleTime?: number;
+  // Poll the endpoint while subscribed; the shortest interval of all subscribers wins
+  refreshInterval?: number;
+  // Push source (e.g. a WebSocket stream) that patches the entry while subscribed
+  live?: (update: (updater: (prev: T | undefined) => T | undefined) => void) => () => void;
+}
+
+type Listener = () => void;
+
+interface CacheEntry<T> {
+  state: QueryState<T>;
+  fetcher: () => Promise<T>;
+  promise: Promise<T> | null;
+  listeners: Map<Listener, QueryOptions<T>>;
+  pollTimer: ReturnType<typeof setInterval> | null;
+  pollInterval: number;
+  stopLive: (() => void) | null;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const cache = new Map<string, CacheEntry<any>>();
+
+const emptyState = <T>(): QueryState<T> => ({
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false
+});
+
+const getEntry = <T>(key: string, fetcher: () => Promise<T>): CacheEntry<T> => {
+  let entry = cache.get(key) as CacheEntry<T> | undefined;
+
+  if (!entry) {
+    entry = {
+      state: emptyState<T>(),
+      fetcher,
+      promise: null,
+      listeners: new Map(),
+      pollTimer: null,
+      pollInterval: 0,
+      stopLive: null,
+      gcTimer: null
+    };
+    cache.set(key, entry);
+  }
+
+  return entry;
+};
+
+const setState = <T>(entry: CacheEntry<T>, patch: Partial<QueryState<T>>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((_, listener) => listener());
+};
+
+const runFetch = <T>(entry: CacheEntry<T>): Promise<T> => {
+  // Every caller of an in-flight key shares the same request
+  if (entry.promise) {
+    return entry.promise;
+  }
+
+  setState(entry, { isFetching: true });
+
+  const promise = entry.fetcher()
+    .then(data => {
+      entry.promise = null;
+      setState(entry, { data, error: null, updatedAt: Date.now(), isFetching: false });
+      return data;
+    })
+    .catch(error => {
+      entry.promise = null;
+      // Previous data stays available next to the error
+      setState(entry, { error, isFetching: false });
+      throw error;
+    });
+
+  entry.promise = promise;
+  return promise;
+};
+
+const isStale = (entry: CacheEntry<any>, staleTime: number): boolean => {
+  return entry.state.updatedAt === 0 || Date.now() - entry.state.updatedAt > staleTime;
+};
+
+const updatePolling = <T>(entry: CacheEntry<T>) => {
+  const intervals = Array.from(entry.listeners.values())
+    .map(options => options.refreshInterval || 0)
+    .filter(interval => interval > 0);
+  const pollInterval = intervals.length > 0 ? Math.min(...intervals) : 0;
+
+  if (pollInterval === entry.pollInterval) {
+    return;
+  }
+
+  if (entry.pollTimer) {
+    clearInterval(entry.pollTimer);
+    entry.pollTimer = null;
+  }
+
+  entry.pollInterval = pollInterval;
+  if (pollInterval > 0) {
+    entry.pollTimer = setInterval(() => {
+      runFetch(entry).catch(() => undefined);
+    }, pollInterval);
+  }
+};
+
+/**
+ * Build a cache key from an endpoint and its params
+ * @param endpoint - API path (e.g., '/api/v3/klines')
+ * @param params - Request params; undefined values are left out
+ * @returns Stable key that does not depend on param order
+ */
+export const getQueryKey = (
+  endpoint: string,
+  params: Record<string, string | number | boolean | undefined> = {}
+): string => {
+  const query = Object.keys(params)
+    .filter(name => params[name] !== undefined)
+    .sort()
+    .map(name => `${name}=${params[name]}`)
+    .join('&');
+
+  return query ? `${endpoint}?${query}` : endpoint;
+};
+
+/**
+ * Fetch data through the cache
+ * @param key - Cache key (see getQueryKey)
+ * @param fetcher - Loads the data when the cache cannot serve it
+ * @param staleTime - Maximum age of cached data that may be returned (default: 0)
+ * @returns Promise with the cached or freshly loaded data
+ */
+export const fetchQuery = <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  staleTime: number = 0
+): Promise<T> => {
+  const entry = getEntry(key, fetcher);
+
+  if (entry.state.data !== undefined && !isStale(entry, staleTime)) {
+    return Promise.resolve(entry.state.data);
+  }
+
+  return runFetch(entry);
+};
+
+/**
+ * Read the current state of a cache entry
+ * @param key - Cache key
+ * @returns Current state, empty if the key was never loaded
+ */
+export const getQueryState = <T>(key: string): QueryState<T> => {
+  const entry = cache.get(key) as CacheEntry<T> | undefined;
+  return entry ? entry.state : emptyState<T>();
+};
+
+/**
+ * Patch the data of a cache entry, e.g. from a stream update
+ * @param key - Cache key
+ * @param updater - Receives the current data and returns the new data
+ */
+export const setQueryData = <T>(
+  key: string,
+  updater: (prev: T | undefined) => T | undefined
+) => {
+  const entry = cache.get(key) as CacheEntry<T> | undefined;
+  if (!entry) {
+    return;
+  }
+
+  const data = updater(entry.state.data);
+  if (data !== entry.state.data) {
+    setState(entry, { data, error: null, updatedAt: Date.now() });
+  }
+};
+
+/**
+ * Refetch a cache entry regardless of its age
+ * @param key - Cache key
+ * @returns Promise with the reloaded data
+ */
+export const invalidateQuery = <T>(key: string): Promise<T | undefined> => {
+  const entry = cache.get(key) as CacheEntry<T> | undefined;
+  return entry ? runFetch(entry) : Promise.resolve(undefined);
+};
+
+/**
+ * Subscribe to a cache entry. Stale data is served immediately and
+ * revalidated in the background.
+ * @param key - Cache key
+ * @param fetcher - Loads the data for this key
+ * @param listener - Called whenever the entry state changes
+ * @param options - Staleness, polling and live update options
+ * @returns Function that removes the subscription
+ */
+export const subscribeQuery = <T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  listener: Listener,
+  options: QueryOptions<T> = {}
+): (() => void) => {
+  const entry = getEntry(key, fetcher);
+
+  if (entry.gcTimer) {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = null;
+  }
+
+  entry.listeners.set(listener, options);
+  updatePolling(entry);
+
+  if (!entry.stopLive && options.live) {
+    entry.stopLive = options.live(updater => setQueryData(key, updater));
+  }
+
+  if (isStale(entry, options.staleTime || 0)) {
+    runFetch(entry).catch(() => undefined);
+  }
+
+  return () => {
+    entry.listeners.delete(listener);
+    updatePolling(entry);
+
+    if (entry.listeners.size > 0) {
+      return;
+    }
+
+    if (entry.stopLive) {
+      entry.stopLive();
+      entry.stopLive = null;
+    }
+
+    entry.gcTimer = setTimeout(() => {
+      if (entry.listeners.size === 0) {
+        cache.delete(key);
+      }
+    }, CACHE_TIME);
+  };
+};
@@ -0,0 +1,123 @@
+/**
+ * Open interest analysis
+ * This file contains the open interest calculations behind the Open Interest
+ * panel: changes over fixed windows and price/open interest divergences.
+ */
+
+import { KlineData, OpenInterestHist } from '../types/api';
+
+// Price rising while open interest falls reads as shorts covering; price falling
+// while open interest rises reads as shorts being added
+export type DivergenceKind = 'priceUpOiDown' | 'priceDownOiUp';
+
+export interface OpenInterestPoint {
+  time: string;
+  close: number;
+  openInterest: number;
+  openInterestValue: number;
+}
+
+export interface Divergence {
+  // Period the divergence was first seen
+  time: string;
+  kind: DivergenceKind;
+  // Changes in percent over the lookback window
+  priceChange: number;
+  openInterestChange: number;
+}
+
+export interface DivergenceOptions {
+  // Number of periods the changes are measured over (default: 12)
+  lookback?: number;
+  // Smallest price move in percent that counts (default: 0.5)
+  minPriceChange?: number;
+  // Smallest open interest move in percent that counts (default: 1)
+  minOpenInterestChange?: number;
+}
+
+const percentChange = (from: number, to: number) => (from > 0 ? ((to - from) / from) * 100 : 0);
+
+/**
+ * Join open interest statistics with the candles of the same periods
+ * @param candles - Candles of the statistics period, oldest first
+ * @param history - Open interest statistics, oldest first
+ * @returns Periods present in both, oldest first
+ */
+export const joinOpenInterest = (candles: KlineData[], history: OpenInterestHist[]): OpenInterestPoint[] => {
+  // Statistics are stamped with the period start, like candle open times
+  const closes = new Map<number, number>();
+  candles.forEach(candle => closes.set(new Date(candle.time).getTime(), candle.close));
+
+  return history
+    .filter(item => closes.has(new Date(item.time).getTime()))
+    .map(item => ({
+      time: item.time,
+      close: closes.get(new Date(item.time).getTime()) as number,
+      openInterest: item.openInterest,
+      openInterestValue: item.openInterestValue
+    }));
+};
+
+/**
+ * Open interest change over a window ending now
+ * @param history - Open interest statistics, oldest first
+ * @param current - Current open interest in contracts
+ * @param windowMs - Window length in milliseconds
+ * @param now - Epoch ms the window ends at (default: Date.now())
+ * @returns Change in percent, or null when the history does not reach back far enough
+ */
+export const getOpenInterestChange = (
+  history: OpenInterestHist[],
+  current: number,
+  windowMs: number,
+  now: number = Date.now()
+): number | null => {
+  const cutoff = now - windowMs;
+  const earlier = history.filter(item => new Date(item.time).getTime() <= cutoff);
+  if (earlier.length === 0) {
+    return null;
+  }
+  return percentChange(earlier[earlier.length - 1].openInterest, current);
+};
+
+/**
+ * Find periods where price and open interest moved in opposite directions
+ * @param points - Joined price and open interest periods, oldest first
+ * @param options - Lookback window and minimum moves
+ * @returns The first period of every divergence run, oldest first
+ */
+export const detectDivergences = (
+  points: OpenInterestPoint[],
+  options: DivergenceOptions = {}
+): Divergence[] => {
+  const lookback = options.lookback ?? 12;
+  const minPriceChange = options.minPriceChange ?? 0.5;
+  const minOpenInterestChange = options.minOpenInterestChange ?? 1;
+
+  const divergences: Divergence[] = [];
+  let previous: DivergenceKind | null = null;
+
+  for (let index = lookback; index < points.length; index++) {
+    const start = points[index - lookback];
+    const point = points[index];
+    const priceChange = percentChange(start.close, point.close);
+    const openInterestChange = percentChange(start.openInterest, point.openInterest);
+
+    let kind: DivergenceKind | null = null;
+    if (Math.abs(priceChange) >= minPriceChange && Math.abs(openInterestChange) >= minOpenInterestChange) {
+      if (priceChange > 0 && openInterestChange < 0) {
+        kind = 'priceUpOiDown';
+      } else if (priceChange < 0 && openInterestChange > 0) {
+        kind = 'priceDownOiUp';
+      }
+    }
+
+    // A divergence usually lasts several periods; report it once
+    if (kind !== null && kind !== previous) {
+      divergences.push({ time: point.time, kind, priceChange, openInterestChange });
+    }
+    previous = kind;
+  }
+
+  return divergences;
+};
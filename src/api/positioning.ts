@@ -0,0 +1,93 @@
+/**
+ * Positioning ratios
+ * This file contains a common view over the Binance long/short ratio
+ * statistics, so the Long/Short Ratio panel can switch between them.
+ */
+
+import {
+  fetchGlobalLongShortAccountRatio,
+  fetchTakerLongShortRatio,
+  fetchTopLongShortAccountRatio,
+  fetchTopLongShortPositionRatio
+} from './binance';
+
+export type PositioningRatioKind = 'globalAccount' | 'topAccount' | 'topPosition' | 'taker';
+
+export const POSITIONING_RATIO_KINDS: PositioningRatioKind[] = ['globalAccount', 'topAccount', 'topPosition', 'taker'];
+
+export interface PositioningPoint {
+  time: string;
+  ratio: number;
+  // Long and short side: account or position shares, or taker buy and sell volume
+  long: number;
+  short: number;
+}
+
+export interface PositioningReading {
+  current: PositioningPoint;
+  // Ratio change in percent against the window start; null when the series is too short
+  change: number | null;
+}
+
+/**
+ * Fetch one of the positioning ratios of a perpetual contract
+ * @param kind - Ratio to fetch
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param period - Statistics period (see FUTURES_DATA_PERIODS)
+ * @param limit - Number of periods to fetch
+ * @returns Promise with the ratio series, oldest first
+ */
+export const fetchPositioningRatio = async (
+  kind: PositioningRatioKind,
+  symbol: string,
+  period: string,
+  limit: number
+): Promise<PositioningPoint[]> => {
+  if (kind === 'taker') {
+    const data = await fetchTakerLongShortRatio(symbol, period, limit);
+    return data.map(item => ({
+      time: item.time,
+      ratio: item.buySellRatio,
+      long: item.buyVolume,
+      short: item.sellVolume
+    }));
+  }
+
+  const fetcher = kind === 'globalAccount'
+    ? fetchGlobalLongShortAccountRatio
+    : kind === 'topAccount'
+      ? fetchTopLongShortAccountRatio
+      : fetchTopLongShortPositionRatio;
+  const data = await fetcher(symbol, period, limit);
+  return data.map(item => ({
+    time: item.time,
+    ratio: item.longShortRatio,
+    long: item.longShare,
+    short: item.shortShare
+  }));
+};
+
+/**
+ * Latest reading of a ratio series and its change over a window
+ * @param points - Ratio series, oldest first
+ * @param windowMs - Window length in milliseconds
+ * @returns The latest point and its change, or null for an empty series
+ */
+export const getPositioningReading = (
+  points: PositioningPoint[],
+  windowMs: number
+): PositioningReading | null => {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const current = points[points.length - 1];
+  const cutoff = new Date(current.time).getTime() - windowMs;
+  const earlier = points.filter(point => new Date(point.time).getTime() <= cutoff);
+  const start = earlier.length > 0 ? earlier[earlier.length - 1] : null;
+
+  return {
+    current,
+    change: start && start.ratio > 0 ? ((current.ratio - start.ratio) / start.ratio) * 100 : null
+  };
+};
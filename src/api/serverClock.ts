@@ -0,0 +1,111 @@
+/**
+ * Server clock
+ * This file contains a clock synchronized with the Binance server time. The
+ * browser clock can be off by seconds, which makes countdowns to candle closes
+ * and funding settlements wrong. The offset is estimated from /api/v3/time,
+ * assuming the server read the time halfway through the round trip, and the
+ * sample with the shortest round trip is trusted most.
+ */
+
+import { fetchServerTime } from './binance';
+
+// The offset drifts slowly; resample this often while someone is listening
+const SYNC_INTERVAL = 5 * 60 * 1000;
+
+// Recent samples kept to pick the shortest round trip from
+const MAX_SAMPLES = 5;
+
+export interface ServerClockState {
+  // Server time minus browser time, in ms
+  offset: number;
+  // Estimated one-way latency of the best sample, in ms
+  latency: number;
+  // Browser epoch ms of the last successful sample; 0 until the first one
+  syncedAt: number;
+  error: unknown;
+}
+
+interface ClockSample {
+  offset: number;
+  roundTrip: number;
+}
+
+type Listener = (state: ServerClockState) => void;
+
+let state: ServerClockState = { offset: 0, latency: 0, syncedAt: 0, error: null };
+let samples: ClockSample[] = [];
+const listeners = new Set<Listener>();
+let syncTimer: ReturnType<typeof setInterval> | null = null;
+let syncing: Promise<void> | null = null;
+
+const notify = () => {
+  listeners.forEach(listener => listener(state));
+};
+
+/**
+ * Take one server time sample and update the offset
+ * @returns Promise that resolves once the sample is applied; failures are kept in the state
+ */
+export const syncServerClock = (): Promise<void> => {
+  if (syncing) {
+    return syncing;
+  }
+
+  const sentAt = Date.now();
+  syncing = fetchServerTime()
+    .then(serverTime => {
+      const receivedAt = Date.now();
+      const roundTrip = receivedAt - sentAt;
+      samples = samples.concat({ offset: serverTime + roundTrip / 2 - receivedAt, roundTrip }).slice(-MAX_SAMPLES);
+
+      const best = samples.reduce((acc, sample) => (sample.roundTrip < acc.roundTrip ? sample : acc));
+      state = { offset: best.offset, latency: best.roundTrip / 2, syncedAt: receivedAt, error: null };
+    })
+    .catch(error => {
+      // Keep the last known offset; the browser clock is the fallback
+      state = { ...state, error };
+    })
+    .then(() => {
+      syncing = null;
+      notify();
+    });
+
+  return syncing;
+};
+
+/**
+ * Current time according to the server clock
+ * @returns Browser time corrected by the last known offset, in epoch ms
+ */
+export const getServerNow = (): number => Date.now() + state.offset;
+
+/**
+ * Read the current clock synchronization state
+ * @returns Offset, latency and the time of the last sample
+ */
+export const getServerClockState = (): ServerClockState => state;
+
+/**
+ * Subscribe to clock synchronization updates; the clock is resampled while
+ * anyone is subscribed
+ * @param listener - Called with the state after every sample
+ * @returns Function that removes the subscription
+ */
+export const subscribeServerClock = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+
+  if (!syncTimer) {
+    if (Date.now() - state.syncedAt >= SYNC_INTERVAL) {
+      syncServerClock();
+    }
+    syncTimer = setInterval(syncServerClock, SYNC_INTERVAL);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && syncTimer) {
+      clearInterval(syncTimer);
+      syncTimer = null;
+    }
+  };
+};
@@ -0,0 +1,444 @@
+/**
+ * Simulated market
+ * This file contains a deterministic market simulator that implements the
+ * exchange adapter interface, so the whole dashboard can run in demo mode
+ * without network access.
+ *
+ * Every symbol follows one seeded, mean-reverting random walk of hourly
+ * prices. Minutes inside an hour are filled in with a seeded Brownian bridge,
+ * and candles, ticker, order book, trades, funding and liquidations are all
+ * read off that same path. The same seed and clock always produce the same
+ * numbers.
+ */
+
+import {
+  FundingRate,
+  KlineData,
+  LiquidationOrder,
+  OrderBook,
+  OrderData,
+  TickerPriceChange,
+  Trade
+} from '../types/api';
+import { addIntervals, getCandleOpen, INTERVALS } from '../utils/intervals';
+import { ExchangeAdapter } from './exchanges/types';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// The walk starts here; earlier candles do not exist, like before a listing
+const PATH_START = Date.UTC(2015, 0, 1);
+
+// Hourly log-price volatility and pull back towards the base price
+const HOURLY_VOLATILITY = 0.006;
+const MEAN_REVERSION = 0.002;
+
+// Quote volume traded per minute, in USD
+const QUOTE_VOLUME_PER_MINUTE = 250000;
+
+// Average quote size of a simulated trade, in USD
+const QUOTE_VOLUME_PER_TRADE = 2000;
+
+const countTrades = (quoteVolume: number) => Math.max(1, Math.round(quoteVolume / QUOTE_VOLUME_PER_TRADE));
+
+// Funding is settled every 8 hours at 00:00, 08:00 and 16:00 UTC
+const FUNDING_INTERVAL = 8 * HOUR;
+
+// Starting prices for well-known assets; others get a seeded price
+const BASE_PRICES: Record<string, number> = {
+  BTCUSDT: 50000,
+  ETHUSDT: 3000,
+  BNBUSDT: 500,
+  SOLUSDT: 150,
+  XRPUSDT: 0.6,
+  DOGEUSDT: 0.15,
+  ADAUSDT: 0.5
+};
+
+export interface SimulatedMarketOptions {
+  // Seed of the random walk (default: 42)
+  seed?: number;
+  // Clock used as "now" (default: Date.now)
+  now?: () => number;
+}
+
+// murmur3 finalizer: spreads every input bit over the whole output
+const mix = (value: number): number => {
+  let h = value | 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+};
+
+const hashString = (value: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h = Math.imul(h ^ value.charCodeAt(i), 16777619);
+  }
+  return mix(h);
+};
+
+/**
+ * Create a simulated market
+ * @param options - Seed and clock
+ * @returns Exchange adapter serving simulated data
+ */
+export const createSimulatedMarket = (options: SimulatedMarketOptions = {}): ExchangeAdapter => {
+  const seed = options.seed ?? 42;
+  const now = options.now ?? (() => Date.now());
+
+  // Uniform number in [0, 1) for a tuple of integer keys
+  const uniform = (...keys: number[]): number => {
+    let h = mix(seed);
+    keys.forEach(key => {
+      h = mix(h ^ mix(key | 0) ^ mix(Math.floor(key / 4294967296)));
+    });
+    return h / 4294967296;
+  };
+
+  // Standard normal number for a tuple of integer keys (Box-Muller)
+  const gaussian = (...keys: number[]): number => {
+    const u1 = Math.max(uniform(...keys, 1), 1e-12);
+    const u2 = uniform(...keys, 2);
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  };
+
+  const symbolKey = (symbol: string) => hashString(symbol);
+
+  const basePrice = (symbol: string): number => {
+    return BASE_PRICES[symbol] ?? Math.pow(10, uniform(symbolKey(symbol), 0) * 3 - 1);
+  };
+
+  // Hourly log-price deviation from the base price, extended lazily
+  const hourlyPaths = new Map<string, number[]>();
+
+  const hourlyDeviation = (symbol: string, hour: number): number => {
+    let path = hourlyPaths.get(symbol);
+    if (!path) {
+      path = [0];
+      hourlyPaths.set(symbol, path);
+    }
+
+    const key = symbolKey(symbol);
+    while (path.length <= hour) {
+      const i = path.length;
+      path.push(path[i - 1] * (1 - MEAN_REVERSION) + HOURLY_VOLATILITY * gaussian(key, i, 0));
+    }
+
+    return path[Math.max(hour, 0)];
+  };
+
+  // Minute log-prices of one hour (61 points, both hour ends included)
+  const bridgeCache = new Map<string, number[]>();
+
+  const minuteBridge = (symbol: string, hour: number): number[] => {
+    const cacheKey = `${symbol}:${hour}`;
+    const cached = bridgeCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const key = symbolKey(symbol);
+    const start = hourlyDeviation(symbol, hour);
+    const end = hourlyDeviation(symbol, hour + 1);
+    const step = HOURLY_VOLATILITY / Math.sqrt(60);
+
+    const walk = [0];
+    for (let i = 1; i <= 60; i++) {
+      walk.push(walk[i - 1] + step * gaussian(key, hour, i, 1));
+    }
+
+    // Pin the walk to the hourly points at both ends
+    const points = walk.map((w, i) => start + (end - start) * (i / 60) + w - walk[60] * (i / 60));
+
+    if (bridgeCache.size > 2000) {
+      bridgeCache.clear();
+    }
+    bridgeCache.set(cacheKey, points);
+    return points;
+  };
+
+  /**
+   * Simulated price of a symbol at a point in time
+   */
+  const priceAt = (symbol: string, time: number): number => {
+    const elapsed = Math.max(time - PATH_START, 0);
+    const hour = Math.floor(elapsed / HOUR);
+    const minuteOffset = (elapsed - hour * HOUR) / MINUTE;
+    const minute = Math.floor(minuteOffset);
+    const bridge = minuteBridge(symbol, hour);
+
+    // Interpolate between minutes and add a little second-level noise
+    const fraction = minuteOffset - minute;
+    const second = Math.floor(elapsed / SECOND);
+    const noise = fraction > 0
+      ? (HOURLY_VOLATILITY / 60) * gaussian(symbolKey(symbol), second, 3) * Math.sqrt(fraction * (1 - fraction))
+      : 0;
+    const deviation = bridge[minute] + (bridge[minute + 1] - bridge[minute]) * fraction + noise;
+
+    return basePrice(symbol) * Math.exp(deviation);
+  };
+
+  // Price resolution in the order book and for rounding
+  const tickSize = (price: number) => Math.pow(10, Math.floor(Math.log10(price * 0.0001)));
+
+  const roundToTick = (price: number) => {
+    const tick = tickSize(price);
+    return Math.round(price / tick) * tick;
+  };
+
+  const buildCandle = (symbol: string, openTime: number, duration: number): KlineData => {
+    const closeTime = openTime + duration - 1;
+    const end = Math.min(openTime + duration, now());
+
+    // Sample finely enough for believable wicks without walking every second
+    const step = duration < MINUTE ? SECOND : duration <= 12 * HOUR ? MINUTE : HOUR;
+
+    const open = priceAt(symbol, openTime);
+    const close = priceAt(symbol, end);
+    let high = Math.max(open, close);
+    let low = Math.min(open, close);
+    for (let t = openTime + step; t < end; t += step) {
+      const price = priceAt(symbol, t);
+      high = Math.max(high, price);
+      low = Math.min(low, price);
+    }
+
+    const minutes = (end - openTime) / MINUTE;
+    const move = Math.log(close / open);
+    const activity = (0.6 + 0.8 * uniform(symbolKey(symbol), Math.floor(openTime / SECOND), 4)) * (1 + 30 * Math.abs(move));
+    const quoteVolume = QUOTE_VOLUME_PER_MINUTE * minutes * activity;
+    const volume = quoteVolume / ((open + close) / 2);
+
+    // Rising candles are driven by taker buying and vice versa
+    const takerBuyRatio = Math.min(Math.max(0.5 + 4 * move + 0.1 * (uniform(symbolKey(symbol), Math.floor(openTime / SECOND), 5) - 0.5), 0.05), 0.95);
+
+    return {
+      time: new Date(openTime).toISOString(),
+      open,
+      high,
+      low,
+      close,
+      volume,
+      closeTime: new Date(closeTime).toISOString(),
+      quoteVolume,
+      trades: countTrades(quoteVolume),
+      takerBuyBaseVolume: volume * takerBuyRatio,
+      takerBuyQuoteVolume: quoteVolume * takerBuyRatio,
+      isRising: close >= open
+    };
+  };
+
+  const fetchKlines = async (
+    symbol: string,
+    interval: string,
+    limit: number = 100,
+    startTime?: number,
+    endTime?: number
+  ): Promise<KlineData[]> => {
+    // First candle opening at or after a time
+    const openAtOrAfter = (time: number) => {
+      const open = getCandleOpen(time, interval);
+      return open < time ? addIntervals(open, interval, 1) : open;
+    };
+    const first = openAtOrAfter(PATH_START);
+    const currentOpen = getCandleOpen(now(), interval);
+
+    let lastOpen = Math.min(currentOpen, getCandleOpen(endTime ?? currentOpen, interval));
+    let firstOpen = addIntervals(lastOpen, interval, -(limit - 1));
+    if (startTime !== undefined && endTime === undefined) {
+      firstOpen = openAtOrAfter(startTime);
+      lastOpen = Math.min(currentOpen, addIntervals(firstOpen, interval, limit - 1));
+    } else if (startTime !== undefined) {
+      firstOpen = Math.max(firstOpen, openAtOrAfter(startTime));
+    }
+
+    const klines: KlineData[] = [];
+    for (let openTime = Math.max(firstOpen, first); openTime <= lastOpen;) {
+      const nextOpen = addIntervals(openTime, interval, 1);
+      klines.push(buildCandle(symbol, openTime, nextOpen - openTime));
+      openTime = nextOpen;
+    }
+    return klines;
+  };
+
+  const fetchTicker = async (symbol: string): Promise<TickerPriceChange> => {
+    const current = now();
+    const day = buildCandle(symbol, current - DAY, DAY);
+    const lastId = Math.floor(current / 100);
+    const trades = countTrades(day.quoteVolume);
+
+    return {
+      symbol,
+      priceChange: day.close - day.open,
+      priceChangePercent: ((day.close - day.open) / day.open) * 100,
+      weightedAvgPrice: day.quoteVolume / day.volume,
+      prevClosePrice: day.open,
+      lastPrice: day.close,
+      lastQty: (50 + 500 * uniform(symbolKey(symbol), lastId, 6)) / day.close,
+      bidPrice: roundToTick(day.close) - tickSize(day.close),
+      bidQty: (1000 + 20000 * uniform(symbolKey(symbol), lastId, 7)) / day.close,
+      askPrice: roundToTick(day.close) + tickSize(day.close),
+      askQty: (1000 + 20000 * uniform(symbolKey(symbol), lastId, 8)) / day.close,
+      openPrice: day.open,
+      highPrice: day.high,
+      lowPrice: day.low,
+      volume: day.volume,
+      quoteVolume: day.quoteVolume,
+      openTime: day.time,
+      closeTime: new Date(current).toISOString(),
+      firstId: lastId - trades + 1,
+      lastId,
+      count: trades
+    };
+  };
+
+  const fetchOrderBook = async (symbol: string, limit: number = 20): Promise<OrderBook> => {
+    const current = now();
+    const mid = priceAt(symbol, current);
+    const tick = tickSize(mid);
+    const center = Math.round(mid / tick) * tick;
+    const updateId = Math.floor(current / 100);
+    const key = symbolKey(symbol);
+
+    // Liquidity thickens away from the touch
+    const level = (side: number, i: number): OrderData => ({
+      price: center + side * (i + 1) * tick,
+      amount: ((200 + 4000 * uniform(key, updateId, side, i, 9)) * (1 + i * 0.15)) / mid
+    });
+
+    return {
+      lastUpdateId: updateId,
+      bids: Array.from({ length: limit }, (_, i) => level(-1, i)),
+      asks: Array.from({ length: limit }, (_, i) => level(1, i))
+    };
+  };
+
+  const fetchRecentTrades = async (symbol: string, limit: number = 100): Promise<Trade[]> => {
+    const current = now();
+    const key = symbolKey(symbol);
+    const trades: Trade[] = [];
+
+    // One trade roughly every 250ms, newest last
+    let time = Math.floor(current / 250) * 250;
+    for (let i = 0; i < limit; i++, time -= 250) {
+      const price = priceAt(symbol, time);
+      const previous = priceAt(symbol, time - SECOND);
+      const quoteQuantity = 20 + 5000 * Math.pow(uniform(key, time / 250, 10), 3);
+      const isBuyerMaker = price < previous;
+
+      trades.unshift({
+        id: time / 250,
+        price,
+        quantity: quoteQuantity / price,
+        quoteQuantity,
+        time: new Date(time).toISOString(),
+        isBuyerMaker,
+        isBestMatch: true,
+        isBuy: !isBuyerMaker
+      });
+    }
+
+    return trades;
+  };
+
+  const fetchFundingRate = async (symbol: string, limit: number = 100): Promise<FundingRate[]> => {
+    const last = Math.floor(now() / FUNDING_INTERVAL) * FUNDING_INTERVAL;
+    const rates: FundingRate[] = [];
+
+    // Funding follows the premium built up over the preceding period
+    for (let time = last - (limit - 1) * FUNDING_INTERVAL; time <= last; time += FUNDING_INTERVAL) {
+      const move = Math.log(priceAt(symbol, time) / priceAt(symbol, time - FUNDING_INTERVAL));
+      const noise = 0.00005 * (uniform(symbolKey(symbol), time / HOUR, 11) - 0.5);
+      rates.push({
+        symbol,
+        time: new Date(time).toISOString(),
+        rate: 0.0001 + 0.0004 * Math.tanh(20 * move) + noise
+      });
+    }
+
+    return rates;
+  };
+
+  const fetchLiquidationOrders = async (symbol: string, limit: number = 100): Promise<LiquidationOrder[]> => {
+    const current = Math.floor(now() / MINUTE) * MINUTE;
+    const key = symbolKey(symbol);
+    const threshold = (1.5 * HOURLY_VOLATILITY) / Math.sqrt(60);
+    const orders: LiquidationOrder[] = [];
+
+    // Sharp minutes liquidate the side they move against
+    for (let time = current; time > current - DAY && orders.length < limit; time -= MINUTE) {
+      const price = priceAt(symbol, time);
+      const move = Math.log(price / priceAt(symbol, time - MINUTE));
+      if (Math.abs(move) < threshold) {
+        continue;
+      }
+
+      const quantity = ((Math.abs(move) / threshold) * (2000 + 50000 * uniform(key, time / MINUTE, 12))) / price;
+      orders.push({
+        symbol,
+        price,
+        origQty: quantity,
+        executedQty: quantity,
+        averagePrice: price,
+        status: 'FILLED',
+        timeInForce: 'IOC',
+        type: 'LIMIT',
+        side: move < 0 ? 'SELL' : 'BUY',
+        time: new Date(time).toISOString()
+      });
+    }
+
+    return orders;
+  };
+
+  // Streams are emulated with timers and read the same path
+  const poll = <T>(load: () => Promise<T>, handler: (value: T) => void, every: number) => {
+    const tick = () => {
+      load().then(handler).catch(error => console.error('Simulated market error:', error));
+    };
+    const intervalId = setInterval(tick, every);
+    return () => clearInterval(intervalId);
+  };
+
+  return {
+    id: 'simulated',
+    name: 'Simulated',
+    intervals: INTERVALS,
+    maxKlineLimit: 1000,
+
+    fetchKlines,
+    fetchOrderBook,
+    fetchTicker,
+    fetchRecentTrades,
+    fetchFundingRate,
+    fetchLiquidationOrders,
+    // Any symbol gets a price path, so there is no listing to offer
+    fetchTradingPairs: async () => [],
+
+    subscribeKlines: (symbol, interval, handler) => {
+      return poll(
+        () => fetchKlines(symbol, interval, 1),
+        klines => handler(klines[klines.length - 1]),
+        SECOND
+      );
+    },
+
+    subscribeTicker: (symbol, handler) => poll(() => fetchTicker(symbol), handler, SECOND),
+
+    subscribeOrderBook: (symbol, depth, callbacks) => {
+      callbacks.onSyncChange?.(true);
+      fetchOrderBook(symbol, depth)
+        .then(callbacks.onUpdate)
+        .catch(callbacks.onError ?? (error => console.error('Simulated market error:', error)));
+      return poll(() => fetchOrderBook(symbol, depth), callbacks.onUpdate, 500);
+    }
+  };
+};
+
+export const simulatedMarketAdapter = createSimulatedMarket();
@@ -0,0 +1,56 @@
+import { classifyTrades, getPercentileThresholds, getSizeClass } from './tradeFlow';
+import { Trade } from '../types/api';
+
+const trade = (id: number, quoteQuantity: number, isBuyerMaker = false): Trade => ({
+  id,
+  price: 100,
+  quantity: quoteQuantity / 100,
+  quoteQuantity,
+  time: new Date(Date.UTC(2024, 0, 1) + id * 1000).toISOString(),
+  isBuyerMaker,
+  isBestMatch: true,
+  isBuy: !isBuyerMaker
+});
+
+describe('getPercentileThresholds', () => {
+  test('puts the thresholds at the 70th and 95th notional percentiles', () => {
+    // Notionals 1..100, shuffled by ID
+    const trades = Array.from({ length: 100 }, (_, index) => trade(index, ((index * 37) % 100) + 1));
+    expect(getPercentileThresholds(trades)).toEqual({ medium: 71, large: 96 });
+  });
+
+  test('returns zero thresholds without trades', () => {
+    expect(getPercentileThresholds([])).toEqual({ medium: 0, large: 0 });
+  });
+});
+
+describe('getSizeClass', () => {
+  const thresholds = { medium: 1000, large: 10000 };
+
+  test('includes each threshold in the larger class', () => {
+    expect(getSizeClass(trade(0, 999), thresholds)).toBe('small');
+    expect(getSizeClass(trade(1, 1000), thresholds)).toBe('medium');
+    expect(getSizeClass(trade(2, 10000), thresholds)).toBe('large');
+  });
+});
+
+describe('classifyTrades', () => {
+  test('splits each size class by taker side', () => {
+    const flows = classifyTrades(
+      [trade(0, 500), trade(1, 200, true), trade(2, 5000), trade(3, 20000, true), trade(4, 30000, true)],
+      { medium: 1000, large: 10000 }
+    );
+
+    expect(flows.map(flow => flow.sizeClass)).toEqual(['large', 'medium', 'small']);
+    expect(flows[0]).toEqual({
+      sizeClass: 'large',
+      buyVolume: 0,
+      sellVolume: 50000,
+      buyCount: 0,
+      sellCount: 2,
+      netFlow: -50000
+    });
+    expect(flows[1].netFlow).toBe(5000);
+    expect(flows[2]).toMatchObject({ buyVolume: 500, sellVolume: 200, netFlow: 300 });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Trade flow
+ * This file contains functions that classify trades by notional size and
+ * split each size class into taker buys and taker sells
+ */
+
+import { Trade } from '../types/api';
+
+export type SizeClass = 'small' | 'medium' | 'large';
+
+export const SIZE_CLASSES: SizeClass[] = ['large', 'medium', 'small'];
+
+export interface SizeThresholds {
+  // Smallest notional (quote asset) of a medium trade
+  medium: number;
+  // Smallest notional (quote asset) of a large trade
+  large: number;
+}
+
+export interface SizeClassFlow {
+  sizeClass: SizeClass;
+  buyVolume: number;
+  sellVolume: number;
+  buyCount: number;
+  sellCount: number;
+  // Taker buy minus taker sell notional
+  netFlow: number;
+}
+
+// Automatic thresholds: the top 5% of trades are large, the next 25% medium
+const MEDIUM_PERCENTILE = 0.7;
+const LARGE_PERCENTILE = 0.95;
+
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const index = Math.min(Math.floor(p * sorted.length), sorted.length - 1);
+  return sorted[index];
+};
+
+/**
+ * Size thresholds from the notional distribution of a symbol's trades
+ * @param trades - Trades of the symbol
+ * @returns Thresholds at the 70th and 95th notional percentiles
+ */
+export const getPercentileThresholds = (trades: Trade[]): SizeThresholds => {
+  const notionals = trades.map(trade => trade.quoteQuantity).sort((a, b) => a - b);
+
+  return {
+    medium: percentile(notionals, MEDIUM_PERCENTILE),
+    large: percentile(notionals, LARGE_PERCENTILE)
+  };
+};
+
+/**
+ * Size class of a trade
+ * @param trade - Trade to classify
+ * @param thresholds - Notional thresholds
+ * @returns The trade's size class
+ */
+export const getSizeClass = (trade: Trade, thresholds: SizeThresholds): SizeClass => {
+  if (trade.quoteQuantity >= thresholds.large) {
+    return 'large';
+  }
+  return trade.quoteQuantity >= thresholds.medium ? 'medium' : 'small';
+};
+
+/**
+ * Taker buy and sell notional per size class
+ * @param trades - Trades to aggregate
+ * @param thresholds - Notional thresholds
+ * @returns Flow per size class, largest class first
+ */
+export const classifyTrades = (trades: Trade[], thresholds: SizeThresholds): SizeClassFlow[] => {
+  const flows = SIZE_CLASSES.reduce((acc, sizeClass) => {
+    acc[sizeClass] = { sizeClass, buyVolume: 0, sellVolume: 0, buyCount: 0, sellCount: 0, netFlow: 0 };
+    return acc;
+  }, {} as Record<SizeClass, SizeClassFlow>);
+
+  trades.forEach(trade => {
+    const flow = flows[getSizeClass(trade, thresholds)];
+
+    // The taker sold into the bid when the buyer was the maker
+    if (trade.isBuyerMaker) {
+      flow.sellVolume += trade.quoteQuantity;
+      flow.sellCount += 1;
+    } else {
+      flow.buyVolume += trade.quoteQuantity;
+      flow.buyCount += 1;
+    }
+  });
+
+  return SIZE_CLASSES.map(sizeClass => {
+    const flow = flows[sizeClass];
+    return { ...flow, netFlow: flow.buyVolume - flow.sellVolume };
+  });
+};
@@ -0,0 +1,89 @@
+import { fetchAggTradeHistory, fetchAggTradeRange } from './tradeHistory';
+import { fetchAggTrades } from './binance';
+import { Trade } from '../types/api';
+
+jest.mock('./binance', () => ({
+  fetchAggTrades: jest.fn()
+}));
+
+const mockFetchAggTrades = fetchAggTrades as jest.MockedFunction<typeof fetchAggTrades>;
+
+const NOW = Date.UTC(2024, 0, 1, 12);
+
+// One trade per second; the latest has the highest ID and trades at NOW
+const createTrades = (count: number): Trade[] => Array.from({ length: count }, (_, id) => ({
+  id,
+  price: 100,
+  quantity: 1,
+  quoteQuantity: 100,
+  time: new Date(NOW - (count - 1 - id) * 1000).toISOString(),
+  isBuyerMaker: false,
+  isBestMatch: true,
+  isBuy: true
+}));
+
+// Serves pages the way /api/v3/aggTrades does: the latest trades without an
+// ID, otherwise the trades from fromId on
+const serve = (trades: Trade[]) => {
+  mockFetchAggTrades.mockImplementation(async (_symbol, options = {}) => {
+    const limit = options.limit ?? 1000;
+    if (options.fromId === undefined) {
+      return trades.slice(-limit);
+    }
+    return trades.filter(trade => trade.id >= options.fromId!).slice(0, limit);
+  });
+};
+
+beforeEach(() => {
+  mockFetchAggTrades.mockReset();
+});
+
+test('pages backward until it reaches the range start', async () => {
+  const trades = createTrades(3000);
+  serve(trades);
+
+  const result = await fetchAggTradeHistory('BTCUSDT', NOW - 2500 * 1000);
+
+  expect(result.complete).toBe(true);
+  expect(result.trades.map(trade => trade.id)).toEqual(trades.slice(-2501).map(trade => trade.id));
+  expect(mockFetchAggTrades).toHaveBeenCalledTimes(3);
+  expect(mockFetchAggTrades.mock.calls[1][1]).toEqual({ fromId: 1000, limit: 1000 });
+});
+
+test('stops at the first trade of the symbol', async () => {
+  const trades = createTrades(1500);
+  serve(trades);
+
+  const result = await fetchAggTradeHistory('BTCUSDT', NOW - 3600 * 1000);
+
+  expect(result.complete).toBe(true);
+  expect(result.trades).toEqual(trades);
+  // The last page only asks for the trades before the previous one
+  expect(mockFetchAggTrades.mock.calls[1][1]).toEqual({ fromId: 0, limit: 500 });
+});
+
+test('drops the oldest trades when the page limit is hit', async () => {
+  const trades = createTrades(50000);
+  serve(trades);
+
+  const result = await fetchAggTradeHistory('BTCUSDT', NOW - 50000 * 1000);
+
+  expect(result.complete).toBe(false);
+  expect(result.trades).toHaveLength(40000);
+  expect(result.trades[0].id).toBe(10000);
+  expect(result.trades[result.trades.length - 1].id).toBe(49999);
+});
+
+test('loads the trades between two IDs page by page', async () => {
+  const trades = createTrades(5000);
+  serve(trades);
+
+  const result = await fetchAggTradeRange('BTCUSDT', 100, 2300);
+
+  expect(result.map(trade => trade.id)).toEqual(trades.slice(100, 2300).map(trade => trade.id));
+  expect(mockFetchAggTrades.mock.calls.map(call => call[1])).toEqual([
+    { fromId: 100, limit: 1000 },
+    { fromId: 1100, limit: 1000 },
+    { fromId: 2100, limit: 200 }
+  ]);
+});
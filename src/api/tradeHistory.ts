@@ -0,0 +1,83 @@
+/**
+ * Trade history loader
+ * This file contains functions that load aggregated trades for time ranges
+ * longer than a single request allows by paging backward through trade IDs
+ */
+
+import { fetchAggTrades } from './binance';
+import { Trade } from '../types/api';
+
+// Upper bound on requests for one range; busy symbols trade tens of thousands of times an hour
+const MAX_PAGES = 40;
+const PAGE_SIZE = 1000;
+
+export interface TradeHistory {
+  trades: Trade[];
+  // False when the page limit was hit before reaching startTime
+  complete: boolean;
+}
+
+/**
+ * Fetch every aggregated trade since a point in time. Pages run backward from
+ * the latest trade, so a range too long for the page limit loses its oldest
+ * trades and still reaches up to now
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param startTime - Range start, epoch ms (inclusive)
+ * @returns Promise with the trades up to now, oldest first
+ */
+export const fetchAggTradeHistory = async (
+  symbol: string,
+  startTime: number
+): Promise<TradeHistory> => {
+  const startIso = new Date(startTime).toISOString();
+
+  // Without a range or ID Binance returns the latest trades; earlier pages
+  // end where the previous one started
+  let page = await fetchAggTrades(symbol, { limit: PAGE_SIZE });
+  const pages: Trade[][] = [];
+
+  for (let count = 1; ; count++) {
+    const inRange = page.filter(trade => trade.time >= startIso);
+    pages.unshift(inRange);
+
+    const firstId = page.length > 0 ? page[0].id : 0;
+    if (inRange.length < page.length || firstId === 0) {
+      break;
+    }
+    if (count >= MAX_PAGES) {
+      return { trades: ([] as Trade[]).concat(...pages), complete: false };
+    }
+
+    const fromId = Math.max(firstId - PAGE_SIZE, 0);
+    page = await fetchAggTrades(symbol, { fromId, limit: firstId - fromId });
+  }
+
+  return { trades: ([] as Trade[]).concat(...pages), complete: true };
+};
+
+/**
+ * Fetch the aggregated trades between two trade IDs, e.g. the ones a stream
+ * missed while it was connecting
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param fromId - First aggregate trade ID (inclusive)
+ * @param toId - Aggregate trade ID to stop before (exclusive)
+ * @returns Promise with the trades, oldest first
+ */
+export const fetchAggTradeRange = async (
+  symbol: string,
+  fromId: number,
+  toId: number
+): Promise<Trade[]> => {
+  const trades: Trade[] = [];
+
+  for (let id = fromId, count = 0; id < toId && count < MAX_PAGES; count++) {
+    const page = await fetchAggTrades(symbol, { fromId: id, limit: Math.min(toId - id, PAGE_SIZE) });
+    if (page.length === 0) {
+      break;
+    }
+    trades.push(...page.filter(trade => trade.id < toId));
+    id = page[page.length - 1].id + 1;
+  }
+
+  return trades;
+};
@@ -0,0 +1,83 @@
+/**
+ * Volume pulse
+ * This file contains the taker volume analysis behind the Volume Pulse panel:
+ * each candle's volume and taker delta are compared with the candles before it
+ * and flagged when they are unusually far from the norm.
+ */
+
+import { KlineData } from '../types/api';
+import { getVolumeDelta } from './cvd';
+
+export interface VolumePulsePoint {
+  time: string;
+  close: number;
+  // Close-to-close change in percent
+  priceChangePercent: number;
+  volume: number;
+  // Taker split; null when the candles do not carry it (OKX, Bybit)
+  buyVolume: number | null;
+  sellVolume: number | null;
+  // Taker buy minus taker sell volume
+  delta: number | null;
+  // Standard scores against the lookback window; null until the window is
+  // filled, and the delta score also without a taker split
+  volumeZ: number | null;
+  deltaZ: number | null;
+  isPulse: boolean;
+}
+
+export interface VolumePulseOptions {
+  // Number of preceding candles the scores are computed against (default: 20)
+  lookback?: number;
+  // Score a candle must reach to count as a pulse (default: 2.5)
+  sigma?: number;
+}
+
+const zScore = (value: number, window: number[]): number | null => {
+  const mean = window.reduce((acc, item) => acc + item, 0) / window.length;
+  const variance = window.reduce((acc, item) => acc + (item - mean) * (item - mean), 0) / window.length;
+  const deviation = Math.sqrt(variance);
+  return deviation > 0 ? (value - mean) / deviation : null;
+};
+
+/**
+ * Split candles into taker buy and sell volume and score them. Candles without
+ * taker buy volume are scored on total volume alone
+ * @param klines - Candles, oldest first
+ * @param options - Lookback window and pulse threshold
+ * @returns One point per candle, oldest first
+ */
+export const computeVolumePulse = (
+  klines: KlineData[],
+  options: VolumePulseOptions = {}
+): VolumePulsePoint[] => {
+  const lookback = options.lookback ?? 20;
+  const sigma = options.sigma ?? 2.5;
+
+  const volumes = klines.map(kline => kline.volume);
+  const deltas = klines.map(getVolumeDelta);
+
+  return klines.map((kline, index) => {
+    const start = index - lookback;
+    const volumeZ = start >= 0 ? zScore(volumes[index], volumes.slice(start, index)) : null;
+    const delta = deltas[index];
+    const deltaWindow = deltas.slice(Math.max(start, 0), index).filter((value): value is number => value !== null);
+    const deltaZ = delta !== null && deltaWindow.length >= lookback ? zScore(delta, deltaWindow) : null;
+    const previousClose = index > 0 ? klines[index - 1].close : kline.open;
+    const buyVolume = kline.takerBuyBaseVolume;
+
+    return {
+      time: kline.time,
+      close: kline.close,
+      priceChangePercent: ((kline.close - previousClose) / previousClose) * 100,
+      volume: kline.volume,
+      buyVolume,
+      sellVolume: buyVolume !== null ? kline.volume - buyVolume : null,
+      delta,
+      volumeZ,
+      deltaZ,
+      // Unusually low volume is not a pulse; a one-sided delta is, in either direction
+      isPulse: (volumeZ !== null && volumeZ >= sigma) || (deltaZ !== null && Math.abs(deltaZ) >= sigma)
+    };
+  });
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import styled from 'styled-components';
+import { Box, Typography, Button } from '@mui/material';
+import { ErrorOutline as ErrorIcon, Refresh as RefreshIcon } from '@mui/icons-material';
+import { BinanceApiError, describeApiError, RateLimitError } from '../../api/errors';
+
+// Styled components
+const Container = styled(Box)`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  height: 100%;
+  padding: 16px;
+  text-align: center;
+`;
+
+// Interface definitions
+interface ApiErrorProps {
+  error: unknown;
+  onRetry?: () => void;
+}
+
+const getDetail = (error: unknown): string => {
+  if (error instanceof RateLimitError && error.retryAt > Date.now()) {
+    const seconds = Math.ceil((error.retryAt - Date.now()) / 1000);
+    return `${error.message} Requests resume in about ${seconds}s.`;
+  }
+
+  if (error instanceof BinanceApiError && error.code !== undefined) {
+    return `${error.message} (code ${error.code})`;
+  }
+
+  return error instanceof Error ? error.message : String(error);
+};
+
+const ApiError: React.FC<ApiErrorProps> = ({ error, onRetry }) => {
+  return (
+    <Container>
+      <ErrorIcon sx={{ color: '#ff5252', mb: 1 }} />
+      <Typography variant="body1" sx={{ color: '#ff5252', fontWeight: 600 }}>
+        {describeApiError(error)}
+      </Typography>
+      <Typography variant="caption" sx={{ color: '#9e9e9e', mt: 0.5, maxWidth: 360 }}>
+        {getDetail(error)}
+      </Typography>
+      {onRetry && (
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<RefreshIcon />}
+          onClick={onRetry}
+          sx={{ mt: 2, borderColor: '#2a2e39', color: '#d1d4dc' }}
+        >
+          Retry
+        </Button>
+      )}
+    </Container>
+  );
+};
+
+/**
+ * Inline notice for a failed refresh while earlier data is still shown
+ */
+export const ApiErrorNotice: React.FC<ApiErrorProps> = ({ error, onRetry }) => {
+  return (
+    <Typography component="span" variant="caption" sx={{ ml: 1, color: '#ff9800' }}>
+      {describeApiError(error)}, showing last received data
+      {onRetry && (
+        <Button size="small" onClick={onRetry} sx={{ ml: 0.5, minWidth: 0, p: 0, fontSize: '0.7rem' }}>
+          Retry
+        </Button>
+      )}
+    </Typography>
+  );
+};
+
+export default ApiError;
@@ -0,0 +1,63 @@
+import React from 'react';
+import styled from 'styled-components';
+import { Box, Typography, Tooltip } from '@mui/material';
+import { BINANCE_API_BASE_URL, BINANCE_FUTURES_API_BASE_URL } from '../../api/binanceClient';
+import { useWeightUsage } from '../../hooks/useWeightUsage';
+
+// Styled components
+const Container = styled(Box)`
+  display: flex;
+  flex-direction: column;
+  align-items: flex-end;
+  margin-right: 16px;
+`;
+
+// Interface definitions
+interface WeightLineProps {
+  label: string;
+  used: number;
+  limit: number;
+  blocked: boolean;
+}
+
+const MARKETS = [
+  { label: 'Spot', baseUrl: BINANCE_API_BASE_URL },
+  { label: 'Futures', baseUrl: BINANCE_FUTURES_API_BASE_URL }
+];
+
+const WeightLine: React.FC<WeightLineProps> = ({ label, used, limit, blocked }) => {
+  const ratio = used / limit;
+  const color = blocked || ratio >= 0.9 ? '#f44336' : ratio >= 0.7 ? '#ff9800' : '#9e9e9e';
+
+  return (
+    <Typography variant="caption" sx={{ color, lineHeight: 1.4 }}>
+      {label} {blocked ? 'rate limited' : `${used}/${limit}`}
+    </Typography>
+  );
+};
+
+const ApiWeight: React.FC = () => {
+  const usage = useWeightUsage();
+  const now = Date.now();
+
+  return (
+    <Tooltip title="Binance request weight used in the current minute">
+      <Container>
+        {MARKETS.map(market => {
+          const state = usage[market.baseUrl];
+          return state ? (
+            <WeightLine
+              key={market.baseUrl}
+              label={market.label}
+              used={state.used}
+              limit={state.limit}
+              blocked={state.blockedUntil > now}
+            />
+          ) : null;
+        })}
+      </Container>
+    </Tooltip>
+  );
+};
+
+export default ApiWeight;
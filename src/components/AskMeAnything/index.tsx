@@ -5,6 +5,13 @@ import {
   CircularProgress, Divider, IconButton 
 } from '@mui/material';
 import { Send as SendIcon, Person as PersonIcon, SmartToy as BotIcon } from '@mui/icons-material';
+import { ExchangeId } from '../../api/exchanges';
+import { useKlines, useTicker } from '../../hooks/useMarketData';
+import { usePrecision } from '../../hooks/usePrecision';
+import { KlineData, TickerPriceChange } from '../../types/api';
+import { formatLargeNumber, formatPrice } from '../../utils/formatters';
+import { computeIndicator } from '../../utils/indicators';
+import { SymbolPrecision } from '../../utils/precision';
 
 // Styled components
 const Container = styled(Box)`
@@ -92,6 +99,7 @@ const StyledTextField = styled(TextField)`
 
 // Interface definitions
 interface AskMeAnythingProps {
+  exchange: ExchangeId;
   symbol: string;
 }
 
@@ -102,7 +110,57 @@ interface Message {
   timestamp: Date;
 }
 
-const AskMeAnything: React.FC<AskMeAnythingProps> = ({ symbol }) => {
+// Candles the trend answer is read from; enough for the 50-period EMA and MACD to settle
+const TREND_INTERVAL = '1h';
+const TREND_CANDLES = 200;
+
+// Trend of the latest candle from the 50-period EMA, MACD(12, 26, 9) and RSI(14)
+const describeTrend = (symbol: string, klines: KlineData[], precision: SymbolPrecision): string | null => {
+  const ema = computeIndicator('ema', { period: 50 }, klines);
+  const macd = computeIndicator('macd', { fast: 12, slow: 26, signal: 9 }, klines);
+  const rsi = computeIndicator('rsi', { period: 14 }, klines);
+
+  const last = klines.length - 1;
+  if (last < 1) {
+    return null;
+  }
+
+  const close = klines[last].close;
+  const emaValue = ema[last].value;
+  const histogram = macd[last].histogram;
+  const prevHistogram = macd[last - 1].histogram;
+  const rsiValue = rsi[last].value;
+  if (emaValue === null || histogram === null || prevHistogram === null || rsiValue === null) {
+    return null;
+  }
+
+  const trend = close > emaValue && histogram > 0
+    ? 'bullish'
+    : close < emaValue && histogram < 0
+      ? 'bearish'
+      : 'mixed';
+  const momentum = histogram >= 0 ? 'bullish' : 'bearish';
+  const strength = Math.abs(histogram) > Math.abs(prevHistogram) ? 'strengthening' : 'fading';
+  const rsiZone = rsiValue >= 70 ? 'overbought' : rsiValue <= 30 ? 'oversold' : 'neutral';
+
+  return `On the ${TREND_INTERVAL} chart, ${symbol} is in a ${trend} trend: the price of ${formatPrice(close, precision)} is ${close >= emaValue ? 'above' : 'below'} the 50-period EMA at ${formatPrice(emaValue, precision)}. The MACD histogram shows ${momentum} momentum ${strength}, and the RSI(14) of ${rsiValue.toFixed(1)} is ${rsiZone}.`;
+};
+
+// Volatility of the latest candle as ATR(14) in price and as a share of the close
+const describeVolatility = (symbol: string, klines: KlineData[], precision: SymbolPrecision): string | null => {
+  const atr = computeIndicator('atr', { period: 14 }, klines);
+
+  const last = klines.length - 1;
+  const atrValue = last >= 0 ? atr[last].value : null;
+  if (atrValue === null) {
+    return null;
+  }
+
+  const close = klines[last].close;
+  return `On the ${TREND_INTERVAL} chart, ${symbol} moves ${formatPrice(atrValue, precision)} per candle on average (ATR(14)), ${(atrValue / close * 100).toFixed(2)}% of the last price.`;
+};
+
+const AskMeAnything: React.FC<AskMeAnythingProps> = ({ exchange, symbol }) => {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: 1,
@@ -114,6 +172,11 @@ const AskMeAnything: React.FC<AskMeAnythingProps> = ({ symbol }) => {
   const [input, setInput] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  
+  // Shares the ticker entry with the 24h Price Change panel
+  const { data: ticker } = useTicker(exchange, symbol);
+  const precision = usePrecision(exchange, symbol, ticker?.lastPrice);
+  const { data: klines } = useKlines(exchange, symbol, TREND_INTERVAL, TREND_CANDLES);
 
   // Auto-scroll to the latest message
   useEffect(() => {
@@ -139,7 +202,7 @@ const AskMeAnything: React.FC<AskMeAnythingProps> = ({ symbol }) => {
     // Simulate API call delay
     setTimeout(() => {
       // Generate AI response
-      const aiResponse = generateAIResponse(input, symbol);
+      const aiResponse = generateAIResponse(input, symbol, ticker);
       
       const aiMessage: Message = {
         id: messages.length + 2,
@@ -154,39 +217,42 @@ const AskMeAnything: React.FC<AskMeAnythingProps> = ({ symbol }) => {
   };
 
   // Generate AI response (simulated)
-  const generateAIResponse = (question: string, symbol: string): string => {
+  const generateAIResponse = (question: string, symbol: string, ticker?: TickerPriceChange): string => {
     const lowerQuestion = question.toLowerCase();
     
     if (lowerQuestion.includes('price') || lowerQuestion.includes('how much')) {
-      return `The current price of ${symbol} is approximately ${getRandomPrice(symbol)}. In the past 24 hours, the price has ${Math.random() > 0.5 ? 'increased' : 'decreased'} by ${(Math.random() * 5).toFixed(2)}%.`;
+      if (!ticker) {
+        return `Price data for ${symbol} is not available right now. Please try again in a moment.`;
+      }
+      return `The current price of ${symbol} is ${formatPrice(ticker.lastPrice, precision)}. In the past 24 hours, the price has ${ticker.priceChange >= 0 ? 'increased' : 'decreased'} by ${Math.abs(ticker.priceChangePercent).toFixed(2)}%, trading between ${formatPrice(ticker.lowPrice, precision)} and ${formatPrice(ticker.highPrice, precision)}.`;
     }
     
     if (lowerQuestion.includes('trend') || lowerQuestion.includes('movement')) {
-      return `Based on technical analysis, ${symbol} is currently in a ${Math.random() > 0.5 ? 'bullish' : 'bearish'} trend. The MACD indicator shows ${Math.random() > 0.5 ? 'bullish' : 'bearish'} momentum strengthening, with an RSI of ${Math.floor(Math.random() * 100)}.`;
+      const trend = klines ? describeTrend(symbol, klines, precision) : null;
+      if (!trend) {
+        return `Candle data for ${symbol} is not available right now. Please try again in a moment.`;
+      }
+      return trend;
     }
     
     if (lowerQuestion.includes('volume') || lowerQuestion.includes('trading volume')) {
-      return `The 24-hour trading volume for ${symbol} is approximately ${Math.floor(Math.random() * 10000) + 1000}, which is ${Math.random() > 0.5 ? 'up' : 'down'} ${(Math.random() * 20).toFixed(2)}% compared to yesterday.`;
+      if (!ticker) {
+        return `Volume data for ${symbol} is not available right now. Please try again in a moment.`;
+      }
+      // Not every venue publishes the trade count
+      const trades = ticker.count !== null ? ` across ${ticker.count.toLocaleString()} trades` : '';
+      return `The 24-hour trading volume for ${symbol} is ${formatLargeNumber(ticker.volume, 2)} (${formatLargeNumber(ticker.quoteVolume, 2)} in quote currency)${trades}.`;
     }
     
     if (lowerQuestion.includes('advice') || lowerQuestion.includes('should i')) {
       return `I cannot provide specific investment advice. Investment decisions should be based on your own research and risk tolerance. I recommend monitoring market dynamics, setting stop-losses, and only investing funds you can afford to lose.`;
     }
     
-    return `Regarding your question about ${symbol}, current market data shows a volatility of ${(Math.random() * 100).toFixed(2)}% and a liquidity index of ${(Math.random() * 10).toFixed(2)}. More detailed analysis would require consideration of additional market factors. Do you have any other questions?`;
-  };
-
-  // Get random price based on trading pair
-  const getRandomPrice = (symbol: string): string => {
-    if (symbol === 'BTCUSDT') {
-      return `$${(Math.random() * 5000 + 45000).toFixed(2)}`;
-    } else if (symbol === 'ETHUSDT') {
-      return `$${(Math.random() * 500 + 2500).toFixed(2)}`;
-    } else if (symbol === 'BNBUSDT') {
-      return `$${(Math.random() * 100 + 400).toFixed(2)}`;
-    } else {
-      return `$${(Math.random() * 50 + 50).toFixed(2)}`;
+    const volatility = klines ? describeVolatility(symbol, klines, precision) : null;
+    if (!volatility) {
+      return `Regarding your question about ${symbol}, a detailed analysis would require consideration of additional market factors. Do you have any other questions?`;
     }
+    return `Regarding your question about ${symbol}: ${volatility} More detailed analysis would require consideration of additional market factors. Do you have any other questions?`;
   };
 
   // Handle sending on Enter key press
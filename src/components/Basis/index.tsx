@@ -0,0 +1,285 @@
+import React, { useMemo } from 'react';
+import styled from 'styled-components';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
+} from '@mui/material';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import ApiError, { ApiErrorNotice } from '../ApiError';
+import { Basis as BasisReading, getBasis, joinBasisHistory, PERPETUAL_FUNDING_INTERVAL } from '../../api/basis';
+import { FUTURES_KLINE_INTERVALS } from '../../api/binance';
+import { InvalidSymbolError } from '../../api/errors';
+import {
+  useFuturesKlines,
+  usePremiumIndex,
+  usePremiumIndexKlines,
+  useTermStructure
+} from '../../hooks/useFuturesData';
+import { useKlines, useTicker, useTradingPairs } from '../../hooks/useMarketData';
+import { usePrecision } from '../../hooks/usePrecision';
+import { useServerNow } from '../../hooks/useServerClock';
+import { formatDate, formatPrice } from '../../utils/formatters';
+import { getIntervalTimeFormat } from '../../utils/intervals';
+
+// 样式组件
+const Container = styled(Box)`
+  padding: 16px;
+  height: 100%;
+  display: flex;
+  flex-direction: column;
+`;
+
+const ChartContainer = styled(Box)`
+  flex: 1;
+  min-height: 0;
+`;
+
+const StyledTableCell = styled(TableCell)`
+  color: #d1d4dc;
+  border-bottom: 1px solid #2a2e39;
+  padding: 2px 8px;
+  font-size: 0.75rem;
+`;
+
+const LoadingContainer = styled(Box)`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  height: 100%;
+`;
+
+const NoticeContainer = styled(Box)`
+  color: #787b86;
+  text-align: center;
+  padding: 16px;
+`;
+
+// 接口定义
+interface BasisProps {
+  symbol: string;
+  interval: string;
+}
+
+interface BasisRow {
+  label: string;
+  price: number;
+  basis: BasisReading;
+}
+
+interface HistoryData {
+  time: string;
+  basisPercent: number;
+  premiumPercent: number | null;
+}
+
+// 历史图表的K线数量
+const CANDLES = 120;
+
+const CONTRACT_LABELS: Record<string, string> = {
+  CURRENT_QUARTER: '当季',
+  NEXT_QUARTER: '次季'
+};
+
+const formatSignedPercent = (value: number | null, decimals: number = 3) => (
+  value === null ? '-' : `${value >= 0 ? '+' : ''}${value.toFixed(decimals)}%`
+);
+
+const changeColor = (value: number | null) => (
+  value === null ? '#787b86' : value >= 0 ? '#4caf50 !important' : '#f44336 !important'
+);
+
+const Basis: React.FC<BasisProps> = ({ symbol, interval }) => {
+  const { data: pairs } = useTradingPairs('binance');
+  const ticker = useTicker('binance', symbol);
+  const premium = usePremiumIndex(symbol);
+  const termStructure = useTermStructure(symbol);
+  // 合约接口没有秒级K线，此时历史基差按1分钟K线计算
+  const historyInterval = FUTURES_KLINE_INTERVALS.includes(interval) ? interval : '1m';
+  const spotKlines = useKlines('binance', symbol, historyInterval, CANDLES);
+  const perpKlines = useFuturesKlines(symbol, historyInterval, CANDLES);
+  const premiumKlines = usePremiumIndexKlines(symbol, historyInterval, CANDLES);
+  // 交割合约的剩余期限按服务器时间计算
+  const now = useServerNow(60000);
+  const precision = usePrecision('binance', symbol, ticker.data?.lastPrice);
+
+  // 现货交易对可能没有永续合约，此时没有基差
+  const pair = pairs?.find(item => item.symbol === symbol);
+  const spotOnly = (pair !== undefined && !pair.hasFutures)
+    || premium.error instanceof InvalidSymbolError
+    || perpKlines.error instanceof InvalidSymbolError;
+
+  const history: HistoryData[] = useMemo(() => {
+    return joinBasisHistory(spotKlines.data || [], perpKlines.data || [], premiumKlines.data || [])
+      .map(point => ({ ...point, time: formatDate(point.time, getIntervalTimeFormat(historyInterval)) }));
+  }, [spotKlines.data, perpKlines.data, premiumKlines.data, historyInterval]);
+
+  // 以现货最新成交价为基准
+  const spotPrice = ticker.data?.lastPrice;
+  const rows: BasisRow[] = [];
+  if (spotPrice && premium.data) {
+    rows.push({
+      label: '指数',
+      price: premium.data.indexPrice,
+      // 指数不会收敛，不计算年化
+      basis: getBasis(premium.data.indexPrice, spotPrice, 0)
+    });
+    rows.push({
+      label: '永续标记',
+      price: premium.data.markPrice,
+      basis: getBasis(premium.data.markPrice, spotPrice, PERPETUAL_FUNDING_INTERVAL)
+    });
+  }
+  if (spotPrice) {
+    (termStructure.data || []).forEach(contract => {
+      const delivery = new Date(contract.deliveryDate);
+      rows.push({
+        label: `${CONTRACT_LABELS[contract.contractType]} ${formatDate(delivery, 'MM-DD')}`,
+        price: contract.markPrice,
+        basis: getBasis(contract.markPrice, spotPrice, delivery.getTime() - now)
+      });
+    });
+  }
+
+  const error = ticker.error || premium.error || termStructure.error
+    || spotKlines.error || perpKlines.error || premiumKlines.error;
+  const retry = () => {
+    ticker.refetch();
+    premium.refetch();
+    termStructure.refetch();
+    spotKlines.refetch();
+    perpKlines.refetch();
+    premiumKlines.refetch();
+  };
+
+  // 自定义工具提示
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const data: HistoryData = payload[0].payload;
+      return (
+        <Paper sx={{ p: 1, backgroundColor: '#1e2230', border: '1px solid #2a2e39' }}>
+          <Typography variant="body2" sx={{ color: '#d1d4dc' }}>
+            时间: {data.time}
+          </Typography>
+          <Typography variant="body2" sx={{ color: '#8884d8' }}>
+            永续-现货: {formatSignedPercent(data.basisPercent, 4)}
+          </Typography>
+          <Typography variant="body2" sx={{ color: '#f0b90b' }}>
+            溢价指数: {formatSignedPercent(data.premiumPercent, 4)}
+          </Typography>
+        </Paper>
+      );
+    }
+    return null;
+  };
+
+  if (spotOnly) {
+    return (
+      <NoticeContainer>
+        <Typography variant="body2">
+          {symbol} 没有永续合约，无基差
+        </Typography>
+      </NoticeContainer>
+    );
+  }
+
+  if (!premium.data && !perpKlines.data && !error) {
+    return (
+      <LoadingContainer>
+        <CircularProgress size={40} />
+      </LoadingContainer>
+    );
+  }
+
+  if (!premium.data && !perpKlines.data) {
+    return <ApiError error={error} onRetry={retry} />;
+  }
+
+  return (
+    <Container>
+      <Typography variant="subtitle2" sx={{ mb: 1, color: '#d1d4dc' }}>
+        {symbol} 基差
+        {spotPrice !== undefined && (
+          <Typography component="span" variant="caption" sx={{ ml: 1, color: '#787b86' }}>
+            现货 {formatPrice(spotPrice, precision)}
+          </Typography>
+        )}
+        {error ? <ApiErrorNotice error={error} onRetry={retry} /> : null}
+      </Typography>
+
+      <Table size="small" sx={{ mb: 1 }}>
+        <TableHead>
+          <TableRow>
+            <StyledTableCell />
+            <StyledTableCell align="right">价格</StyledTableCell>
+            <StyledTableCell align="right">基差</StyledTableCell>
+            <StyledTableCell align="right">基差率</StyledTableCell>
+            <StyledTableCell align="right">年化</StyledTableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.label}>
+              <StyledTableCell>{row.label}</StyledTableCell>
+              <StyledTableCell align="right">{formatPrice(row.price, precision)}</StyledTableCell>
+              <StyledTableCell align="right" sx={{ color: changeColor(row.basis.basis) }}>
+                {row.basis.basis >= 0 ? '+' : ''}{formatPrice(row.basis.basis, precision)}
+              </StyledTableCell>
+              <StyledTableCell align="right" sx={{ color: changeColor(row.basis.basisPercent) }}>
+                {formatSignedPercent(row.basis.basisPercent)}
+              </StyledTableCell>
+              <StyledTableCell align="right" sx={{ color: changeColor(row.basis.annualizedPercent) }}>
+                {formatSignedPercent(row.basis.annualizedPercent, 2)}
+              </StyledTableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <ChartContainer>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={history}
+            margin={{ top: 5, right: 10, left: 0, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#2a2e39" />
+            <XAxis
+              dataKey="time"
+              tick={{ fill: '#d1d4dc', fontSize: 11 }}
+              axisLine={{ stroke: '#2a2e39' }}
+            />
+            <YAxis
+              domain={['auto', 'auto']}
+              tick={{ fill: '#d1d4dc', fontSize: 11 }}
+              axisLine={{ stroke: '#2a2e39' }}
+              tickFormatter={(value) => `${value.toFixed(3)}%`}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <ReferenceLine y={0} stroke="#787b86" strokeDasharray="3 3" />
+            <Line
+              type="monotone"
+              dataKey="basisPercent"
+              stroke="#8884d8"
+              dot={false}
+            />
+            <Line
+              type="monotone"
+              dataKey="premiumPercent"
+              stroke="#f0b90b"
+              dot={false}
+              connectNulls
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </ChartContainer>
+    </Container>
+  );
+};
+
+export default Basis;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { Box, Typography, MenuItem, TextField, ToggleButton, ToggleButtonGroup } from '@mui/material';
+import {
+  CHART_TYPE_DEFINITIONS,
+  CHART_TYPES,
+  ChartSettings,
+  ChartType,
+  MAX_ATR_PERIOD,
+  MIN_ATR_PERIOD
+} from '../../utils/chartTypes';
+
+// Styled components
+const Container = styled(Box)`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+`;
+
+// Interface definitions
+interface ChartTypePickerProps {
+  value: ChartSettings;
+  onChange: (settings: ChartSettings) => void;
+  // Box or range typed in, in price; null uses the ATR
+  size: number | null;
+  onSizeChange: (size: number | null) => void;
+  // Box or range the bars were formed with
+  boxSize: number | null;
+  formatSize: (size: number) => string;
+}
+
+const FIELD_SX = { width: 90, '& .MuiInputBase-input': { py: 0.5 } };
+
+// Empty falls back to the ATR; anything else must be a positive price
+const SizeField: React.FC<{ label: string; value: number | null; onChange: (size: number | null) => void }> = ({
+  label,
+  value,
+  onChange
+}) => {
+  const [text, setText] = useState<string>(value === null ? '' : String(value));
+  const parsed = Number(text);
+  const valid = text.trim() === '' || parsed > 0;
+
+  return (
+    <TextField
+      size="small"
+      type="number"
+      label={label}
+      placeholder="ATR"
+      value={text}
+      error={!valid}
+      inputProps={{ min: 0 }}
+      InputLabelProps={{ shrink: true }}
+      sx={FIELD_SX}
+      onChange={(e) => {
+        setText(e.target.value);
+        const next = Number(e.target.value);
+        if (e.target.value.trim() === '') {
+          onChange(null);
+        } else if (next > 0) {
+          onChange(next);
+        }
+      }}
+    />
+  );
+};
+
+const AtrPeriodField: React.FC<{ value: number; onChange: (period: number) => void }> = ({ value, onChange }) => {
+  const [text, setText] = useState<string>(String(value));
+  const parsed = Number(text);
+  const valid = Number.isInteger(parsed) && parsed >= MIN_ATR_PERIOD && parsed <= MAX_ATR_PERIOD;
+
+  return (
+    <TextField
+      size="small"
+      type="number"
+      label="ATR"
+      value={text}
+      error={!valid}
+      inputProps={{ min: MIN_ATR_PERIOD, max: MAX_ATR_PERIOD, step: 1 }}
+      sx={FIELD_SX}
+      onChange={(e) => {
+        setText(e.target.value);
+        const next = Number(e.target.value);
+        if (Number.isInteger(next) && next >= MIN_ATR_PERIOD && next <= MAX_ATR_PERIOD) {
+          onChange(next);
+        }
+      }}
+    />
+  );
+};
+
+const ChartTypePicker: React.FC<ChartTypePickerProps> = ({
+  value,
+  onChange,
+  size,
+  onSizeChange,
+  boxSize,
+  formatSize
+}) => {
+  const { type, renkoBoxMode, atrPeriod } = value;
+  // Renko in ATR mode and bars without a size typed in are sized by the ATR
+  const usesAtr = (type === 'renko' && renkoBoxMode === 'atr') || size === null;
+
+  return (
+    <Container>
+      <TextField
+        select
+        size="small"
+        value={type}
+        onChange={(e) => onChange({ ...value, type: e.target.value as ChartType })}
+        sx={{ minWidth: 130, '& .MuiSelect-select': { py: 0.5 } }}
+      >
+        {CHART_TYPES.map(item => (
+          <MenuItem key={item} value={item}>
+            {CHART_TYPE_DEFINITIONS[item].label}
+          </MenuItem>
+        ))}
+      </TextField>
+
+      {/* Renko boxes follow the ATR or a fixed price move */}
+      {type === 'renko' && (
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={renkoBoxMode}
+          onChange={(_, mode) => mode !== null && onChange({ ...value, renkoBoxMode: mode })}
+        >
+          <ToggleButton value="atr" sx={{ py: 0.25, px: 1 }}>ATR</ToggleButton>
+          <ToggleButton value="fixed" sx={{ py: 0.25, px: 1 }}>Fixed</ToggleButton>
+        </ToggleButtonGroup>
+      )}
+      {((type === 'renko' && renkoBoxMode === 'fixed') || type === 'range') && (
+        <SizeField label={type === 'renko' ? 'Box' : 'Range'} value={size} onChange={onSizeChange} />
+      )}
+      {(type === 'renko' || type === 'range') && usesAtr && (
+        <AtrPeriodField value={atrPeriod} onChange={(period) => onChange({ ...value, atrPeriod: period })} />
+      )}
+      {boxSize !== null && (
+        <Typography variant="caption" sx={{ color: '#787b86' }}>
+          {type === 'renko' ? 'Box' : 'Range'} {formatSize(boxSize)}
+        </Typography>
+      )}
+    </Container>
+  );
+};
+
+export default ChartTypePicker;
@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import styled from 'styled-components';
+import { Box, Typography, IconButton, ToggleButton, ToggleButtonGroup, Tooltip } from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  DeleteSweep as ClearIcon,
+  FileDownload as ExportIcon,
+  FileUpload as ImportIcon
+} from '@mui/icons-material';
+import {
+  Drawing,
+  DRAWING_TOOLS,
+  DrawingTool,
+  exportDrawings,
+  parseDrawingsFile
+} from '../../utils/drawings';
+
+// Styled components
+const Container = styled(Box)`
+  display: flex;
+  align-items: center;
+`;
+
+// Interface definitions
+interface DrawingToolbarProps {
+  symbol: string;
+  drawings: Drawing[];
+  onChange: (drawings: Drawing[]) => void;
+  tool: DrawingTool | null;
+  onToolChange: (tool: DrawingTool | null) => void;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+}
+
+const TOOL_LABELS: Record<DrawingTool, string> = {
+  trendline: 'Trend',
+  horizontal: 'H-Line',
+  ray: 'Ray',
+  rectangle: 'Rect',
+  fibonacci: 'Fib',
+  text: 'Text'
+};
+
+const TOOL_HINTS: Record<DrawingTool, string> = {
+  trendline: 'Trendline: click the start and end points',
+  horizontal: 'Horizontal level: click a price',
+  ray: 'Ray: click the origin and a point it passes through',
+  rectangle: 'Rectangle: click two opposite corners',
+  fibonacci: 'Fibonacci retracement: click the swing start and end',
+  text: 'Text note: click where it goes'
+};
+
+const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
+  symbol,
+  drawings,
+  onChange,
+  tool,
+  onToolChange,
+  selectedId,
+  onSelect
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleDeleteSelected = () => {
+    onChange(drawings.filter(drawing => drawing.id !== selectedId));
+    onSelect(null);
+  };
+
+  const handleClear = () => {
+    if (window.confirm(`Remove all ${drawings.length} drawings on ${symbol}?`)) {
+      onChange([]);
+      onSelect(null);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportDrawings(symbol, drawings)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `drawings-${symbol}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Imported drawings replace saved ones with the same id and add the rest
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseDrawingsFile(await file.text());
+      if (imported.symbol !== symbol) {
+        setImportError(`File has drawings for ${imported.symbol}`);
+        return;
+      }
+
+      const ids = new Set(imported.drawings.map(drawing => drawing.id));
+      onChange(drawings.filter(drawing => !ids.has(drawing.id)).concat(imported.drawings));
+      setImportError(null);
+    } catch (err) {
+      console.error('Error importing chart drawings:', err);
+      setImportError('Not a valid drawings file');
+    }
+  };
+
+  return (
+    <Container>
+      {importError && (
+        <Typography variant="caption" sx={{ mr: 1, color: '#f44336' }}>
+          {importError}
+        </Typography>
+      )}
+
+      {/* Pick a tool, then click on the chart; Esc cancels */}
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={tool}
+        onChange={(_, value) => onToolChange(value)}
+        sx={{ mr: 1 }}
+      >
+        {DRAWING_TOOLS.map(item => (
+          <ToggleButton key={item} value={item} title={TOOL_HINTS[item]} sx={{ py: 0.25, px: 1 }}>
+            {TOOL_LABELS[item]}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+
+      <Tooltip title="Delete selected drawing (Del)">
+        <span>
+          <IconButton size="small" disabled={!selectedId} onClick={handleDeleteSelected}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Remove all drawings">
+        <span>
+          <IconButton size="small" disabled={drawings.length === 0} onClick={handleClear}>
+            <ClearIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Import drawings">
+        <IconButton size="small" onClick={() => fileInputRef.current?.click()}>
+          <ImportIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="Export drawings">
+        <span>
+          <IconButton size="small" disabled={drawings.length === 0} onClick={handleExport}>
+            <ExportIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) {
+            handleImport(file);
+          }
+          // Allow importing the same file again
+          e.target.value = '';
+        }}
+      />
+    </Container>
+  );
+};
+
+export default DrawingToolbar;
@@ -1,7 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import styled from 'styled-components';
 import { Box, Typography, CircularProgress, Paper } from '@mui/material';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import ApiError, { ApiErrorNotice } from '../ApiError';
+import { InvalidSymbolError } from '../../api/errors';
+import { ExchangeId, getExchangeAdapter } from '../../api/exchanges';
+import { usePremiumIndex } from '../../hooks/useFuturesData';
+import { useFundingRateHistory, useTradingPairs } from '../../hooks/useMarketData';
+import { usePrecision } from '../../hooks/usePrecision';
+import { useServerNow } from '../../hooks/useServerClock';
+import { formatCountdown, formatDate, formatPercentage, formatPrice } from '../../utils/formatters';
 
 // 样式组件
 const Container = styled(Box)`
@@ -34,6 +42,16 @@ const RateBox = styled(Paper)`
   }
 `;
 
+const RateValue = styled(Typography)<{ rate?: number }>`
+  font-size: 1.25rem;
+  font-weight: bold;
+  color: ${props => props.rate === undefined
+    ? '#d1d4dc'
+    : props.rate >= 0
+      ? '#4caf50'
+      : '#f44336'};
+`;
+
 const ChartContainer = styled(Box)`
   flex: 1;
 `;
@@ -45,16 +63,16 @@ const LoadingContainer = styled(Box)`
   height: 100%;
 `;
 
-const ErrorContainer = styled(Box)`
-  color: #ff5252;
+const NoticeContainer = styled(Box)`
+  color: #787b86;
   text-align: center;
   padding: 16px;
 `;
 
 // 接口定义
 interface FundingRateProps {
+  exchange: ExchangeId;
   symbol: string;
-  refreshInterval?: number;
 }
 
 interface FundingRateData {
@@ -62,64 +80,44 @@ interface FundingRateData {
   rate: number;
 }
 
-const FundingRate: React.FC<FundingRateProps> = ({ symbol, refreshInterval = 60000 }) => {
-  const [currentRate, setCurrentRate] = useState<number>(0);
-  const [nextRate, setNextRate] = useState<number>(0);
-  const [avgRate, setAvgRate] = useState<number>(0);
-  const [historyData, setHistoryData] = useState<FundingRateData[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchFundingRateData = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        // 模拟API调用 - 在实际应用中替换为真实的API调用
-        // 例如: const response = await fetch(`https://api.binance.com/fapi/v1/fundingRate?symbol=${symbol}`);
-        
-        // 生成模拟数据
-        const mockCurrentRate = (Math.random() * 0.002 - 0.001).toFixed(4);
-        const mockNextRate = (Math.random() * 0.002 - 0.001).toFixed(4);
-        
-        // 生成历史数据
-        const mockHistoryData: FundingRateData[] = [];
-        const now = new Date();
-        
-        for (let i = 0; i < 24; i++) {
-          const time = new Date(now.getTime() - (23 - i) * 3600000);
-          const rate = parseFloat((Math.random() * 0.002 - 0.001).toFixed(4));
-          
-          mockHistoryData.push({
-            time: `${time.getHours().toString().padStart(2, '0')}:00`,
-            rate
-          });
-        }
-        
-        // 计算平均值
-        const sum = mockHistoryData.reduce((acc, curr) => acc + curr.rate, 0);
-        const avg = parseFloat((sum / mockHistoryData.length).toFixed(4));
-        
-        setCurrentRate(parseFloat(mockCurrentRate));
-        setNextRate(parseFloat(mockNextRate));
-        setAvgRate(avg);
-        setHistoryData(mockHistoryData);
-        setLoading(false);
-      } catch (err) {
-        console.error('Error fetching funding rate data:', err);
-        setError('获取资金费率数据失败');
-        setLoading(false);
-      }
-    };
-
-    fetchFundingRateData();
-    
-    // 设置定时刷新
-    const intervalId = setInterval(fetchFundingRateData, refreshInterval);
-    
-    return () => clearInterval(intervalId);
-  }, [symbol, refreshInterval]);
+// 平均费率的统计窗口
+const AVERAGE_WINDOW = 24 * 60 * 60 * 1000;
+
+const FundingRate: React.FC<FundingRateProps> = ({ exchange, symbol }) => {
+  const { data: pairs } = useTradingPairs(exchange);
+  const history = useFundingRateHistory(exchange, symbol);
+  // 标记价格与预测费率来自币安的溢价指数，其他交易所只有已结算的费率
+  const hasPremiumIndex = exchange === 'binance';
+  const premium = usePremiumIndex(symbol, hasPremiumIndex);
+  // 倒计时使用与服务器同步的时钟，每秒刷新
+  const now = useServerNow();
+  const precision = usePrecision(exchange, symbol, premium.data?.markPrice);
+
+  // 现货交易对可能没有永续合约，此时没有资金费率
+  const pair = pairs?.find(item => item.symbol === symbol);
+  const spotOnly = (pair !== undefined && !pair.hasFutures)
+    || history.error instanceof InvalidSymbolError
+    || premium.error instanceof InvalidSymbolError;
+
+  const historyData: FundingRateData[] = (history.data || []).map(item => ({
+    time: formatDate(item.time, 'MM-DD HH:mm'),
+    rate: item.rate * 100
+  }));
+
+  // 最近一次已结算的费率
+  const settled = history.data && history.data.length > 0 ? history.data[history.data.length - 1] : null;
+
+  // 最近24小时内结算的平均费率（结算周期可能是1、4或8小时）
+  const recent = (history.data || []).filter(item => new Date(item.time).getTime() >= now - AVERAGE_WINDOW);
+  const avgRate = recent.length > 0
+    ? recent.reduce((acc, item) => acc + item.rate, 0) / recent.length
+    : null;
+
+  const error = history.error || premium.error;
+  const retry = () => {
+    history.refetch();
+    premium.refetch();
+  };
 
   // 自定义工具提示
   const CustomTooltip = ({ active, payload }: any) => {
@@ -140,7 +138,17 @@ const FundingRate: React.FC<FundingRateProps> = ({ symbol, refreshInterval = 600
     return null;
   };
 
-  if (loading) {
+  if (spotOnly) {
+    return (
+      <NoticeContainer>
+        <Typography variant="body2">
+          {symbol} 没有永续合约，无资金费率
+        </Typography>
+      </NoticeContainer>
+    );
+  }
+
+  if (!history.data && !premium.data && !error) {
     return (
       <LoadingContainer>
         <CircularProgress size={40} />
@@ -148,42 +156,43 @@ const FundingRate: React.FC<FundingRateProps> = ({ symbol, refreshInterval = 600
     );
   }
 
-  if (error) {
-    return (
-      <ErrorContainer>
-        <Typography variant="body1">{error}</Typography>
-      </ErrorContainer>
-    );
+  if (!history.data && !premium.data) {
+    return <ApiError error={error} onRetry={retry} />;
   }
 
   return (
     <Container>
       <Typography variant="subtitle2" sx={{ mb: 1, color: '#d1d4dc' }}>
-        {symbol} 资金费率
+        {getExchangeAdapter(exchange).name} {symbol} 资金费率
+        {premium.data && (
+          <Typography component="span" variant="caption" sx={{ ml: 1, color: '#787b86' }}>
+            标记价格 {formatPrice(premium.data.markPrice, precision)}
+          </Typography>
+        )}
+        {error ? <ApiErrorNotice error={error} onRetry={retry} /> : null}
       </Typography>
       
       <RateContainer>
         <RateBox>
           <Typography variant="caption" sx={{ color: '#d1d4dc' }}>
-            当前费率
-          </Typography>
-          <Typography variant="h6" sx={{ 
-            color: currentRate >= 0 ? '#4caf50' : '#f44336',
-            fontWeight: 'bold'
-          }}>
-            {currentRate.toFixed(4)}%
+            上次结算
           </Typography>
+          <RateValue rate={settled?.rate}>
+            {settled ? formatPercentage(settled.rate, 4) : '-'}
+          </RateValue>
         </RateBox>
         
         <RateBox>
           <Typography variant="caption" sx={{ color: '#d1d4dc' }}>
             预测费率
           </Typography>
-          <Typography variant="h6" sx={{ 
-            color: nextRate >= 0 ? '#4caf50' : '#f44336',
-            fontWeight: 'bold'
-          }}>
-            {nextRate.toFixed(4)}%
+          <RateValue rate={premium.data?.fundingRate}>
+            {premium.data ? formatPercentage(premium.data.fundingRate, 4) : '-'}
+          </RateValue>
+          <Typography variant="caption" sx={{ color: '#787b86' }}>
+            {premium.data
+              ? `${formatCountdown(new Date(premium.data.nextFundingTime).getTime() - now)} 后结算`
+              : hasPremiumIndex ? '-' : '仅币安提供'}
           </Typography>
         </RateBox>
         
@@ -191,12 +200,9 @@ const FundingRate: React.FC<FundingRateProps> = ({ symbol, refreshInterval = 600
           <Typography variant="caption" sx={{ color: '#d1d4dc' }}>
             24小时平均
           </Typography>
-          <Typography variant="h6" sx={{ 
-            color: avgRate >= 0 ? '#4caf50' : '#f44336',
-            fontWeight: 'bold'
-          }}>
-            {avgRate.toFixed(4)}%
-          </Typography>
+          <RateValue rate={avgRate ?? undefined}>
+            {avgRate !== null ? formatPercentage(avgRate, 4) : '-'}
+          </RateValue>
         </RateBox>
       </RateContainer>
       
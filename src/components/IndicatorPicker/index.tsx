@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import {
+  Box, Typography, Button, Chip, Menu, MenuItem, Popover, TextField
+} from '@mui/material';
+import { Add as AddIcon } from '@mui/icons-material';
+import {
+  getDefaultParams,
+  getIndicatorLabel,
+  IndicatorConfig,
+  IndicatorParamDefinition,
+  INDICATORS,
+  INDICATOR_TYPES,
+  IndicatorType,
+  isValidParam
+} from '../../utils/indicators';
+
+// Styled components
+const Container = styled(Box)`
+  display: flex;
+  align-items: center;
+  flex-wrap: wrap;
+  gap: 4px;
+`;
+
+const ParamsContainer = styled(Box)`
+  padding: 12px;
+  display: flex;
+  flex-direction: column;
+  gap: 12px;
+  width: 180px;
+  background-color: #1e2230;
+`;
+
+// Interface definitions
+interface IndicatorPickerProps {
+  value: IndicatorConfig[];
+  onChange: (indicators: IndicatorConfig[]) => void;
+}
+
+interface ParamFieldProps {
+  param: IndicatorParamDefinition;
+  value: number | string;
+  onChange: (value: number | string) => void;
+}
+
+// Keeps what is typed, and only applies values the indicator accepts
+const ParamField: React.FC<ParamFieldProps> = ({ param, value, onChange }) => {
+  const [text, setText] = useState<string>(String(value));
+
+  if (param.options) {
+    return (
+      <TextField
+        select
+        size="small"
+        label={param.label}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {param.options.map(option => (
+          <MenuItem key={option.value} value={option.value}>
+            {option.label}
+          </MenuItem>
+        ))}
+      </TextField>
+    );
+  }
+
+  const parsed = Number(text);
+  const valid = text.trim() !== '' && isValidParam(param, parsed);
+
+  return (
+    <TextField
+      size="small"
+      type="number"
+      label={param.label}
+      value={text}
+      error={!valid}
+      helperText={valid ? undefined : `${param.min} - ${param.max}`}
+      inputProps={{ min: param.min, max: param.max, step: param.step }}
+      onChange={(e) => {
+        setText(e.target.value);
+        const next = Number(e.target.value);
+        if (e.target.value.trim() !== '' && isValidParam(param, next)) {
+          onChange(next);
+        }
+      }}
+    />
+  );
+};
+
+const IndicatorPicker: React.FC<IndicatorPickerProps> = ({ value, onChange }) => {
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
+  const [editing, setEditing] = useState<{ id: string; anchor: HTMLElement } | null>(null);
+
+  const editingConfig = editing ? value.find(item => item.id === editing.id) : undefined;
+
+  const handleAdd = (type: IndicatorType) => {
+    setMenuAnchor(null);
+    onChange([...value, { id: `${type}-${Date.now()}`, type, params: getDefaultParams(type) }]);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(value.filter(item => item.id !== id));
+  };
+
+  const handleParamChange = (id: string, key: string, paramValue: number | string) => {
+    onChange(value.map(item => (
+      item.id === id ? { ...item, params: { ...item.params, [key]: paramValue } } : item
+    )));
+  };
+
+  return (
+    <Container>
+      <Button
+        size="small"
+        startIcon={<AddIcon />}
+        onClick={(e) => setMenuAnchor(e.currentTarget)}
+        sx={{ color: '#d1d4dc', textTransform: 'none', py: 0 }}
+      >
+        Indicators
+      </Button>
+
+      {/* Click an indicator to edit its parameters */}
+      {value.map(item => (
+        <Chip
+          key={item.id}
+          size="small"
+          variant="outlined"
+          label={getIndicatorLabel(item)}
+          onClick={(e) => setEditing({ id: item.id, anchor: e.currentTarget })}
+          onDelete={() => handleRemove(item.id)}
+          sx={{ color: INDICATORS[item.type].outputs[0].color, borderColor: '#2a2e39' }}
+        />
+      ))}
+
+      <Menu
+        anchorEl={menuAnchor}
+        open={Boolean(menuAnchor)}
+        onClose={() => setMenuAnchor(null)}
+      >
+        {INDICATOR_TYPES.map(type => (
+          <MenuItem key={type} dense onClick={() => handleAdd(type)}>
+            {INDICATORS[type].label}
+            <Typography variant="caption" sx={{ ml: 1, color: '#787b86' }}>
+              {INDICATORS[type].placement === 'overlay' ? 'Overlay' : 'Pane'}
+            </Typography>
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <Popover
+        open={Boolean(editing && editingConfig)}
+        anchorEl={editing?.anchor}
+        onClose={() => setEditing(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+      >
+        {editingConfig && (
+          <ParamsContainer>
+            <Typography variant="subtitle2" sx={{ color: '#d1d4dc' }}>
+              {INDICATORS[editingConfig.type].label}
+            </Typography>
+            {INDICATORS[editingConfig.type].params.map(param => (
+              <ParamField
+                key={param.key}
+                param={param}
+                value={editingConfig.params[param.key]}
+                onChange={(paramValue) => handleParamChange(editingConfig.id, param.key, paramValue)}
+              />
+            ))}
+          </ParamsContainer>
+        )}
+      </Popover>
+    </Container>
+  );
+};
+
+export default IndicatorPicker;
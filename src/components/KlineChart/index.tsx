@@ -1,13 +1,80 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import styled from 'styled-components';
-import { Box, Typography, CircularProgress } from '@mui/material';
-import { 
-  XAxis, YAxis, CartesianGrid, Tooltip, 
-  ResponsiveContainer, BarChart, Bar, ComposedChart
-} from 'recharts';
-import { fetchKlineData } from '../../api/binance';
-import { KlineData as KlineDataType } from '../../types/api';
-import { formatDate } from '../../utils/formatters';
+import {
+  Box, Typography, CircularProgress, ToggleButton, ToggleButtonGroup,
+  Button, Dialog, DialogActions, DialogContent, DialogTitle, TextField
+} from '@mui/material';
+import {
+  AreaSeries,
+  BarSeries,
+  CandlestickData,
+  CandlestickSeries,
+  ColorType,
+  createChart,
+  CrosshairMode,
+  HistogramData,
+  HistogramSeries,
+  IChartApi,
+  ISeriesApi,
+  LineData,
+  LineSeries,
+  LineStyle,
+  LogicalRange,
+  MouseEventParams,
+  PriceFormat,
+  PriceScaleMode,
+  TickMarkType,
+  Time,
+  UTCTimestamp
+} from 'lightweight-charts';
+import ApiError, { ApiErrorNotice } from '../ApiError';
+import ChartTypePicker from '../ChartTypePicker';
+import DrawingToolbar from '../DrawingToolbar';
+import IndicatorPicker from '../IndicatorPicker';
+import { FUTURES_KLINE_INTERVALS } from '../../api/binance';
+import { computeCvd, CVD_ANCHORS, CvdAnchor, hasTakerSplit } from '../../api/cvd';
+import { ExchangeId, getExchangeAdapter } from '../../api/exchanges';
+import { fetchOlderKlines, mergeKlines } from '../../api/klineHistory';
+import { KlineData } from '../../types/api';
+import { useChartSettings } from '../../hooks/useChartSettings';
+import { useDrawings } from '../../hooks/useDrawings';
+import { useFuturesKlines } from '../../hooks/useFuturesData';
+import { useIndicators } from '../../hooks/useIndicators';
+import { useKlines } from '../../hooks/useMarketData';
+import { usePrecision } from '../../hooks/usePrecision';
+import { useServerClock, useServerNow } from '../../hooks/useServerClock';
+import {
+  formatCountdown,
+  formatDate,
+  formatLargeNumber,
+  formatPrice,
+  formatQuantity
+} from '../../utils/formatters';
+import {
+  buildChartSeries,
+  CHART_TYPE_DEFINITIONS,
+  ChartStyle,
+  ChartType
+} from '../../utils/chartTypes';
+import {
+  Drawing,
+  DRAWING_COLORS,
+  DRAWING_POINT_COUNT,
+  DrawingPoint,
+  DrawingTool,
+  logicalToTime
+} from '../../utils/drawings';
+import { createDrawingsPrimitive, DrawingsPrimitive } from '../../utils/drawingsPrimitive';
+import {
+  createIndicator,
+  getIndicatorLabel,
+  IndicatorCalculator,
+  IndicatorConfig,
+  IndicatorOutput,
+  INDICATORS,
+  IndicatorValues
+} from '../../utils/indicators';
+import { parseInterval } from '../../utils/intervals';
 
 // Styled components
 const Container = styled(Box)`
@@ -17,360 +84,1050 @@ const Container = styled(Box)`
   flex-direction: column;
 `;
 
-const ChartContainer = styled(Box)`
-  flex: 1;
+const HeaderContainer = styled(Box)`
   display: flex;
-  flex-direction: column;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
 `;
 
-const MainChartContainer = styled(Box)`
-  flex: 3;
+const ToolbarContainer = styled(Box)`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 4px;
 `;
 
-const VolumeChartContainer = styled(Box)`
+const ChartContainer = styled(Box)`
   flex: 1;
-  margin-top: 8px;
+  position: relative;
+  min-height: 0;
+`;
+
+const LegendContainer = styled(Box)`
+  position: absolute;
+  top: 4px;
+  left: 8px;
+  z-index: 2;
+  pointer-events: none;
+  font-size: 0.75rem;
+  color: #787b86;
 `;
 
-const LoadingContainer = styled(Box)`
+const OverlayContainer = styled(Box)`
+  position: absolute;
+  top: 0;
+  right: 0;
+  bottom: 0;
+  left: 0;
+  z-index: 3;
   display: flex;
   align-items: center;
   justify-content: center;
-  height: 100%;
 `;
 
-const ErrorContainer = styled(Box)`
-  color: #ff5252;
-  text-align: center;
-  padding: 16px;
-`;
+// Time left until the current candle closes, by the server clock; ticks on
+// its own so the chart does not re-render every second
+const CandleCountdown: React.FC<{ closeTime: string }> = ({ closeTime }) => {
+  const now = useServerNow();
+  const { offset, latency, syncedAt } = useServerClock();
+  // closeTime is the last millisecond of the candle
+  const remaining = new Date(closeTime).getTime() + 1 - now;
 
-// Custom candlestick component
-const CandlestickBar = (props: any) => {
-  const { x, y, width, height, open, close, low, high } = props;
-  const isRising = close > open;
-  const color = isRising ? '#26a69a' : '#ef5350';
-  
-  // Calculate positions for the candle body
-  const bodyY = isRising ? y + (high - close) / (high - low) * height : y + (high - open) / (high - low) * height;
-  const bodyHeight = isRising 
-    ? (close - open) / (high - low) * height 
-    : (open - close) / (high - low) * height;
-  
-  // Ensure minimum body height for visibility
-  const minBodyHeight = 1;
-  const adjustedBodyHeight = Math.max(bodyHeight, minBodyHeight);
-  
-  // Calculate positions for the wick
-  const wickX = x + width / 2;
-  const wickTop = y;
-  const wickBottom = y + height;
-  
   return (
-    <g>
-      {/* Wick line */}
-      <line 
-        x1={wickX} 
-        y1={wickTop} 
-        x2={wickX} 
-        y2={wickBottom} 
-        stroke={color} 
-        strokeWidth={1} 
-      />
-      {/* Candle body */}
-      <rect 
-        x={x} 
-        y={bodyY} 
-        width={width} 
-        height={adjustedBodyHeight} 
-        fill={color} 
-        stroke={color} 
-      />
-    </g>
+    <Typography
+      component="span"
+      variant="caption"
+      sx={{ ml: 1, color: '#787b86' }}
+      title={syncedAt > 0
+        ? `Server clock offset ${offset >= 0 ? '+' : ''}${Math.round(offset)} ms, latency ${Math.round(latency)} ms`
+        : 'Server clock not synchronized yet'}
+    >
+      closes in {formatCountdown(remaining)}
+    </Typography>
   );
 };
 
 // Interface definitions
 interface KlineChartProps {
+  exchange: ExchangeId;
   symbol: string;
   interval: string;
-  height?: number;
 }
 
-interface KlineData {
+// Indicator values at the crosshair
+interface IndicatorLegend {
+  id: string;
+  label: string;
+  values: { color: string; value: number }[];
+  unit: 'price' | 'index';
+}
+
+// Values shown in the legend: the candle under the crosshair, or the latest one
+interface LegendData {
   time: string;
   open: number;
   high: number;
   low: number;
   close: number;
   volume: number;
-  // Add a property to determine if price is rising or falling
-  isRising?: boolean;
+  spotCvd?: number;
+  perpCvd?: number;
+  indicators?: IndicatorLegend[];
+}
+
+type PriceSeries = ISeriesApi<'Candlestick' | 'Bar' | 'Line' | 'Area'>;
+
+type IndicatorSeries = ISeriesApi<'Line' | 'Histogram'>;
+
+// Bars on the chart and the time scale key of each: the open time on
+// time-based chart types, the bar's index on evenly spaced ones
+interface PlottedBars {
+  type: ChartType;
+  bars: KlineData[];
+  times: UTCTimestamp[];
+  // Box or range of Renko and range bars, in price
+  boxSize: number | null;
+}
+
+// Series of an indicator on the chart, and its calculator fed up to the
+// last closed candle
+interface IndicatorRun {
+  // Type and parameters; the series are recreated when these change
+  key: string;
+  config: IndicatorConfig;
+  series: IndicatorSeries[];
+  calculator: IndicatorCalculator;
+  // Chart type of the bars the values were computed on
+  chartType: ChartType | null;
+  firstTime: string | null;
+  // Candles pushed into the calculator
+  pushed: number;
+}
+
+// Indexes of the first and last visible bar
+interface VisibleRange {
+  from: number;
+  to: number;
+}
+
+// Bars already drawn, to tell a live update from a new data set
+interface RenderedCandles {
+  chartType: ChartType;
+  firstTime: string;
+  length: number;
 }
 
-const KlineChart: React.FC<KlineChartProps> = ({ symbol, interval, height = 400 }) => {
-  const [klineData, setKlineData] = useState<KlineData[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+// Older candles loaded each time the view gets this close to the left edge
+const BACKFILL_PAGE_SIZE = 500;
+const BACKFILL_THRESHOLD = 10;
+
+// Perpetual candles loaded for the perp CVD series; older candles show spot only
+const PERP_CANDLES = 500;
+
+// Height of the CVD and indicator panes in pixels
+const CVD_PANE_HEIGHT = 100;
+const INDICATOR_PANE_HEIGHT = 100;
+
+const UP_COLOR = '#26a69a';
+const DOWN_COLOR = '#ef5350';
+const LINE_COLOR = '#2196f3';
+const SPOT_CVD_COLOR = '#90caf9';
+const PERP_CVD_COLOR = '#f0b90b';
+
+const CVD_ANCHOR_LABELS: Record<CvdAnchor, string> = {
+  session: 'Session',
+  day: 'Day',
+  visible: 'Visible'
+};
+
+// lightweight-charts keys bars by UTC seconds
+const toChartTime = (time: string) => (new Date(time).getTime() / 1000) as UTCTimestamp;
+const fromChartTime = (time: Time) => new Date((time as number) * 1000);
+
+// Line and area charts plot the close
+const toPriceData = (bar: KlineData, time: UTCTimestamp, style: ChartStyle): CandlestickData<Time> | LineData<Time> => (
+  style === 'line' || style === 'area'
+    ? { time, value: bar.close }
+    : { time, open: bar.open, high: bar.high, low: bar.low, close: bar.close }
+);
+
+const toVolumeBar = (bar: KlineData, time: UTCTimestamp): HistogramData<Time> => ({
+  time,
+  value: bar.volume,
+  color: bar.close >= bar.open ? 'rgba(38, 166, 154, 0.5)' : 'rgba(239, 83, 80, 0.5)'
+});
+
+const createPriceSeries = (chart: IChartApi, style: ChartStyle): PriceSeries => {
+  switch (style) {
+    case 'hollow':
+      // Rising candles are outlined, falling ones filled
+      return chart.addSeries(CandlestickSeries, {
+        upColor: 'transparent',
+        downColor: DOWN_COLOR,
+        borderUpColor: UP_COLOR,
+        borderDownColor: DOWN_COLOR,
+        wickUpColor: UP_COLOR,
+        wickDownColor: DOWN_COLOR
+      }, 0);
+    case 'bars':
+      return chart.addSeries(BarSeries, { upColor: UP_COLOR, downColor: DOWN_COLOR }, 0);
+    case 'line':
+      return chart.addSeries(LineSeries, { color: LINE_COLOR, lineWidth: 2 }, 0);
+    case 'area':
+      return chart.addSeries(AreaSeries, {
+        lineColor: LINE_COLOR,
+        topColor: 'rgba(33, 150, 243, 0.4)',
+        bottomColor: 'rgba(33, 150, 243, 0)',
+        lineWidth: 2
+      }, 0);
+    default:
+      return chart.addSeries(CandlestickSeries, {
+        upColor: UP_COLOR,
+        downColor: DOWN_COLOR,
+        wickUpColor: UP_COLOR,
+        wickDownColor: DOWN_COLOR,
+        borderVisible: false
+      }, 0);
+  }
+};
+
+// Axis labels in local time, like every other timestamp in the app
+const formatTickMark = (time: Time, tickMarkType: TickMarkType) => {
+  const date = fromChartTime(time);
+  switch (tickMarkType) {
+    case TickMarkType.Year:
+      return formatDate(date, 'YYYY');
+    case TickMarkType.Month:
+      return formatDate(date, 'YYYY-MM');
+    case TickMarkType.DayOfMonth:
+      return formatDate(date, 'MM-DD');
+    case TickMarkType.TimeWithSeconds:
+      return formatDate(date, 'HH:mm:ss');
+    default:
+      return formatDate(date, 'HH:mm');
+  }
+};
+
+// Evenly spaced bars are keyed by index; label them with the open time of
+// the candle they formed in
+const formatBarTime = (times: number[], time: Time, format: string) => {
+  const barTime = times[time as number];
+  return barTime === undefined ? '' : formatDate(new Date(barTime), format);
+};
+
+const getIndicatorKey = (config: IndicatorConfig) => `${config.type}:${JSON.stringify(config.params)}`;
+
+// Overlays join the candles' price scale; other indicators open a pane below the others
+const createIndicatorRun = (chart: IChartApi, config: IndicatorConfig, priceFormat: PriceFormat): IndicatorRun => {
+  const definition = INDICATORS[config.type];
+  const paneIndex = definition.placement === 'overlay' ? 0 : chart.panes().length;
+  const format = definition.unit === 'price' ? priceFormat : undefined;
+
+  const series: IndicatorSeries[] = definition.outputs.map(output => (output.histogram
+    ? chart.addSeries(HistogramSeries, {
+      priceFormat: format,
+      priceLineVisible: false,
+      lastValueVisible: false
+    }, paneIndex)
+    : chart.addSeries(LineSeries, {
+      color: output.color,
+      lineWidth: 1,
+      priceFormat: format,
+      priceLineVisible: false,
+      crosshairMarkerVisible: false
+    }, paneIndex)));
+
+  (definition.levels || []).forEach(level => {
+    series[series.length - 1].createPriceLine({
+      price: level,
+      color: '#787b86',
+      lineWidth: 1,
+      lineStyle: LineStyle.Dashed,
+      axisLabelVisible: false
+    });
+  });
+
+  if (definition.placement === 'pane') {
+    chart.panes()[paneIndex].setHeight(INDICATOR_PANE_HEIGHT);
+  }
+
+  return {
+    key: getIndicatorKey(config),
+    config,
+    series,
+    calculator: createIndicator(config.type, config.params),
+    chartType: null,
+    firstTime: null,
+    pushed: 0
+  };
+};
+
+const toIndicatorPoint = (time: UTCTimestamp, values: IndicatorValues, output: IndicatorOutput) => {
+  const value = values[output.key];
+  if (value === null || value === undefined) {
+    return { time };
+  }
+  return output.histogram
+    ? { time, value, color: value >= 0 ? 'rgba(38, 166, 154, 0.5)' : 'rgba(239, 83, 80, 0.5)' }
+    : { time, value };
+};
+
+// Like the candles, a live update only recomputes the newest bar; anything
+// else, such as backfilled history or evenly spaced bars, is computed again
+// from the first bar
+const updateIndicatorRun = (run: IndicatorRun, { type, bars, times }: PlottedBars) => {
+  const outputs = INDICATORS[run.config.type].outputs;
+  const last = bars.length - 1;
+
+  if (bars.length === 0) {
+    run.series.forEach(series => series.setData([]));
+    run.chartType = null;
+    run.firstTime = null;
+    run.pushed = 0;
+    return;
+  }
+
+  if (run.chartType === type && CHART_TYPE_DEFINITIONS[type].timeBased
+    && run.firstTime === bars[0].time && run.pushed <= last && last - run.pushed <= 1) {
+    const updates = bars.slice(run.pushed, last).map((bar, i) => ({
+      time: times[run.pushed + i],
+      values: run.calculator.push(bar)
+    }));
+    updates.push({ time: times[last], values: run.calculator.peek(bars[last]) });
+    run.pushed = last;
+    updates.forEach(({ time, values }) => {
+      run.series.forEach((series, index) => series.update(toIndicatorPoint(time, values, outputs[index])));
+    });
+    return;
+  }
+
+  const calculator = createIndicator(run.config.type, run.config.params);
+  const values = bars.map((bar, index) => (index < last ? calculator.push(bar) : calculator.peek(bar)));
+  run.series.forEach((series, index) => {
+    series.setData(times.map((time, i) => toIndicatorPoint(time, values[i], outputs[index])));
+  });
+  run.calculator = calculator;
+  run.chartType = type;
+  run.firstTime = bars[0].time;
+  run.pushed = last;
+};
+
+const formatSigned = (value: number) => `${value < 0 ? '-' : '+'}${formatLargeNumber(Math.abs(value), 2)}`;
+
+// Running CVD at the bars from index `from` to `to`, reset at the anchor; each
+// bar takes the value at the close of the candle it formed in
+const getCvdLine = (candles: KlineData[], anchor: CvdAnchor, { bars, times }: PlottedBars, from: number, to: number) => {
+  const first = bars[from].time;
+  const last = bars[to].time;
+  // The visible anchor starts at the first visible bar; the others need the earlier candles too
+  const points = computeCvd(
+    anchor === 'visible' ? candles.filter(candle => candle.time >= first && candle.time <= last) : candles,
+    anchor
+  );
+  const cvdByTime = new Map<string, number>();
+  points.forEach(point => cvdByTime.set(point.time, point.cvd));
+
+  const line: LineData<Time>[] = [];
+  for (let i = from; i <= to; i++) {
+    const cvd = cvdByTime.get(bars[i].time);
+    if (cvd !== undefined) {
+      line.push({ time: times[i], value: cvd });
+    }
+  }
+  return line;
+};
+
+const KlineChart: React.FC<KlineChartProps> = ({ exchange, symbol, interval }) => {
+  // Candles come from the shared store, which the kline stream keeps live
+  const { data, error, refetch } = useKlines(exchange, symbol, interval);
+
+  // Everything loaded so far: backfilled history plus the live window
+  const [history, setHistory] = useState<KlineData[]>([]);
+  const [visibleRange, setVisibleRange] = useState<VisibleRange | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState<boolean>(false);
+  const [historyExhausted, setHistoryExhausted] = useState<boolean>(false);
+  const [hovered, setHovered] = useState<LegendData | null>(null);
+  const [autoScale, setAutoScale] = useState<boolean>(true);
+  const [logScale, setLogScale] = useState<boolean>(false);
+  const [cvdAnchor, setCvdAnchor] = useState<CvdAnchor>('day');
+  const [showPerpCvd, setShowPerpCvd] = useState<boolean>(false);
+  const [indicators, setIndicators] = useIndicators();
+  const [chartSettings, setChartSettings] = useChartSettings();
+  // Box or range typed in for Renko and range bars; prices differ per symbol
+  const [barSize, setBarSize] = useState<number | null>(null);
+  const [drawings, setDrawings] = useDrawings(symbol);
+  const [drawingTool, setDrawingTool] = useState<DrawingTool | null>(null);
+  const [selectedDrawingId, setSelectedDrawingId] = useState<string | null>(null);
+  // Where a text note goes while its text is being typed
+  const [textAnchor, setTextAnchor] = useState<DrawingPoint | null>(null);
+  const [noteText, setNoteText] = useState<string>('');
+  // CVD needs the taker split, which not every venue's candles carry
+  const cvdAvailable = useMemo(() => hasTakerSplit(history), [history]);
+  // Loads the USD-M perpetual candles only while the perp series is shown
+  // The futures API has no candles for every spot interval, and none for the simulated market
+  const perpCvdAvailable = cvdAvailable && exchange !== 'simulated' && FUTURES_KLINE_INTERVALS.includes(interval);
+  const perpCvdVisible = showPerpCvd && perpCvdAvailable;
+  const perp = useFuturesKlines(symbol, interval, PERP_CANDLES, perpCvdVisible);
+  const precision = usePrecision(exchange, symbol, history.length > 0 ? history[history.length - 1].close : undefined);
+  const priceFormat: PriceFormat = useMemo(() => ({
+    type: 'price',
+    precision: precision.price,
+    minMove: Math.pow(10, -precision.price)
+  }), [precision.price]);
+
+  const { style: chartStyle, timeBased } = CHART_TYPE_DEFINITIONS[chartSettings.type];
+  const plotted: PlottedBars = useMemo(() => {
+    const { bars, boxSize } = buildChartSeries(history, chartSettings, barSize);
+    const isTimeBased = CHART_TYPE_DEFINITIONS[chartSettings.type].timeBased;
+    return {
+      type: chartSettings.type,
+      bars,
+      times: bars.map((bar, index) => (isTimeBased ? toChartTime(bar.time) : index as UTCTimestamp)),
+      boxSize
+    };
+  }, [history, chartSettings, barSize]);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const priceSeriesRef = useRef<PriceSeries | null>(null);
+  const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
+  const spotCvdSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
+  const perpCvdSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
+  const renderedRef = useRef<RenderedCandles | null>(null);
+  const indicatorRunsRef = useRef<Map<string, IndicatorRun>>(new Map());
+  const drawingsPrimitiveRef = useRef<DrawingsPrimitive | null>(null);
+  // Drawing being placed; kept out of state so following the mouse does not re-render
+  const draftRef = useRef<Drawing | null>(null);
+  // Open times of the candles the bars formed in, in epoch ms, to turn chart
+  // positions into times
+  const timesRef = useRef<number[]>([]);
+  const plottedRef = useRef<PlottedBars>(plotted);
+  const loadingOlderRef = useRef<boolean>(false);
+  // The chart handlers are bound once; they reach the latest callbacks through these
+  const loadOlderRef = useRef<() => void>(() => undefined);
+  const clickHandlerRef = useRef<(param: MouseEventParams<Time>) => void>(() => undefined);
+  const moveHandlerRef = useRef<(param: MouseEventParams<Time>) => void>(() => undefined);
+
+  useEffect(() => {
+    setHistory([]);
+    setVisibleRange(null);
+    setHistoryExhausted(false);
+    setHovered(null);
+  }, [exchange, symbol, interval]);
+
+  const cancelDraft = useCallback(() => {
+    draftRef.current = null;
+    drawingsPrimitiveRef.current?.setDraft(null);
+  }, []);
+
+  useEffect(() => {
+    cancelDraft();
+    setSelectedDrawingId(null);
+  }, [symbol, cancelDraft]);
+
+  useEffect(() => {
+    setBarSize(null);
+  }, [symbol]);
+
+  // The live window drops its oldest candle as new ones open; keep it here
+  useEffect(() => {
+    if (data && data.length > 0) {
+      setHistory(prev => mergeKlines(prev, data));
+    }
+  }, [data]);
+
+  const loadOlder = useCallback(async () => {
+    if (loadingOlderRef.current || historyExhausted || history.length === 0) {
+      return;
+    }
+
+    // The state only updates on the next render; the ref stops range events
+    // fired before then from starting the same backfill again
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const older = await fetchOlderKlines(
+        getExchangeAdapter(exchange),
+        symbol,
+        interval,
+        history[0].time,
+        BACKFILL_PAGE_SIZE
+      );
+
+      if (older.length === 0) {
+        setHistoryExhausted(true);
+      } else {
+        setHistory(prev => mergeKlines(older, prev));
+      }
+    } catch (err) {
+      console.error('Error loading older kline data:', err);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  }, [exchange, symbol, interval, history, historyExhausted]);
+
+  useEffect(() => {
+    loadOlderRef.current = loadOlder;
+  }, [loadOlder]);
 
+  // Create the chart once; the effects below feed it data and options
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        // Fetch real data from Binance API
-        const data = await fetchKlineData(symbol, interval);
-        
-        // Transform the data to match our component's expected format
-        const formattedData = data.map((item: KlineDataType) => ({
-          time: formatDate(item.time, 'MM-DD HH:mm'),
-          open: item.open,
-          high: item.high,
-          low: item.low,
-          close: item.close,
-          volume: item.volume,
-          isRising: item.isRising
-        }));
-        
-        setKlineData(formattedData);
-        setLoading(false);
-      } catch (err) {
-        console.error('Error fetching kline data:', err);
-        setError('Failed to fetch kline data');
-        setLoading(false);
-        
-        // Fallback to mock data if API fails
-        generateMockData();
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+
+    const runs = indicatorRunsRef.current;
+
+    // Mouse-wheel zoom and drag pan are on by default
+    const chart = createChart(container, {
+      autoSize: true,
+      layout: {
+        background: { type: ColorType.Solid, color: 'transparent' },
+        textColor: '#d1d4dc',
+        panes: { separatorColor: '#2a2e39' }
+      },
+      grid: {
+        vertLines: { color: '#2a2e39' },
+        horzLines: { color: '#2a2e39' }
+      },
+      crosshair: { mode: CrosshairMode.Normal },
+      rightPriceScale: { borderColor: '#2a2e39' },
+      timeScale: {
+        borderColor: '#2a2e39',
+        timeVisible: true
+      }
+    });
+
+    // Drawings are painted over the price series, which is added for the
+    // chart type below
+    const drawingsPrimitive = createDrawingsPrimitive();
+
+    // Volume shares the time scale and fills the bottom fifth of the price pane
+    const volumeSeries = chart.addSeries(HistogramSeries, {
+      priceScaleId: 'volume',
+      priceFormat: { type: 'volume' },
+      lastValueVisible: false,
+      priceLineVisible: false
+    });
+    volumeSeries.priceScale().applyOptions({ scaleMargins: { top: 0.8, bottom: 0 } });
+
+    // CVD gets its own pane under the candles
+    const spotCvdSeries = chart.addSeries(LineSeries, {
+      color: SPOT_CVD_COLOR,
+      lineWidth: 1,
+      priceFormat: { type: 'volume' },
+      priceLineVisible: false
+    }, 1);
+    const perpCvdSeries = chart.addSeries(LineSeries, {
+      color: PERP_CVD_COLOR,
+      lineWidth: 1,
+      priceFormat: { type: 'volume' },
+      priceLineVisible: false
+    }, 1);
+    chart.panes()[1].setHeight(CVD_PANE_HEIGHT);
+
+    const handleCrosshairMove = (param: MouseEventParams<Time>) => {
+      const bar = param.logical !== undefined ? plottedRef.current.bars[param.logical] : undefined;
+      moveHandlerRef.current(param);
+      if (!param.time || !bar) {
+        setHovered(null);
+        return;
       }
+
+      const spotCvd = param.seriesData.get(spotCvdSeries) as LineData<Time> | undefined;
+      const perpCvd = param.seriesData.get(perpCvdSeries) as LineData<Time> | undefined;
+      const indicatorValues: IndicatorLegend[] = [];
+      indicatorRunsRef.current.forEach(run => {
+        const definition = INDICATORS[run.config.type];
+        const values = run.series
+          .map((series, index) => ({
+            color: definition.outputs[index].color,
+            point: param.seriesData.get(series) as LineData<Time> | undefined
+          }))
+          .filter(item => item.point && item.point.value !== undefined)
+          .map(item => ({ color: item.color, value: (item.point as LineData<Time>).value }));
+        indicatorValues.push({ id: run.config.id, label: getIndicatorLabel(run.config), values, unit: definition.unit });
+      });
+      setHovered({
+        time: bar.time,
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close,
+        volume: bar.volume,
+        spotCvd: spotCvd?.value,
+        perpCvd: perpCvd?.value,
+        indicators: indicatorValues
+      });
     };
 
-    // Fallback function to generate mock data if API fails
-    const generateMockData = () => {
-      const mockData: KlineData[] = [];
-      const now = new Date();
-      let basePrice = 50000; // Base price
-      
-      if (symbol === 'BTCUSDT') {
-        basePrice = 50000;
-      } else if (symbol === 'ETHUSDT') {
-        basePrice = 3000;
-      } else if (symbol === 'BNBUSDT') {
-        basePrice = 500;
-      } else {
-        basePrice = 100;
+    const handleVisibleRangeChange = (range: LogicalRange | null) => {
+      if (!range) {
+        return;
       }
-      
-      // Generate 100 kline data points
-      for (let i = 0; i < 100; i++) {
-        const time = new Date(now.getTime() - (99 - i) * getIntervalMilliseconds(interval));
-        const volatility = basePrice * 0.02; // 2% volatility
-        
-        const open = i === 0 ? basePrice : mockData[i - 1].close;
-        const change = (Math.random() - 0.5) * volatility;
-        const close = open + change;
-        const high = Math.max(open, close) + Math.random() * volatility * 0.5;
-        const low = Math.min(open, close) - Math.random() * volatility * 0.5;
-        const volume = Math.floor(Math.random() * 100) + 50;
-        
-        mockData.push({
-          time: formatTime(time, interval),
-          open,
-          high,
-          low,
-          close,
-          volume,
-          isRising: close >= open
-        });
+
+      const from = Math.max(0, Math.ceil(range.from));
+      const to = Math.floor(range.to);
+      setVisibleRange(prev => (prev && prev.from === from && prev.to === to ? prev : { from, to }));
+
+      // Nearing the left edge pulls in the previous page of history
+      if (range.from < BACKFILL_THRESHOLD) {
+        loadOlderRef.current();
       }
-      
-      setKlineData(mockData);
-      setLoading(false);
     };
 
-    fetchData();
-    
-    // Set up interval to refresh data
-    const refreshInterval = setInterval(fetchData, 60000); // Refresh every minute
-    
+    const handleClick = (param: MouseEventParams<Time>) => clickHandlerRef.current(param);
+
+    chart.subscribeCrosshairMove(handleCrosshairMove);
+    chart.subscribeClick(handleClick);
+    chart.timeScale().subscribeVisibleLogicalRangeChange(handleVisibleRangeChange);
+
+    chartRef.current = chart;
+    volumeSeriesRef.current = volumeSeries;
+    spotCvdSeriesRef.current = spotCvdSeries;
+    perpCvdSeriesRef.current = perpCvdSeries;
+    drawingsPrimitiveRef.current = drawingsPrimitive;
+
+    return () => {
+      chart.unsubscribeCrosshairMove(handleCrosshairMove);
+      chart.unsubscribeClick(handleClick);
+      chart.timeScale().unsubscribeVisibleLogicalRangeChange(handleVisibleRangeChange);
+      chart.remove();
+      chartRef.current = null;
+      volumeSeriesRef.current = null;
+      spotCvdSeriesRef.current = null;
+      perpCvdSeriesRef.current = null;
+      drawingsPrimitiveRef.current = null;
+      renderedRef.current = null;
+      runs.clear();
+    };
+  }, []);
+
+  // A chart type drawn another way gets a new price series; the drawings move to it
+  useEffect(() => {
+    const chart = chartRef.current;
+    const drawingsPrimitive = drawingsPrimitiveRef.current;
+    if (!chart || !drawingsPrimitive) {
+      return;
+    }
+
+    const priceSeries = createPriceSeries(chart, chartStyle);
+    priceSeries.attachPrimitive(drawingsPrimitive);
+    priceSeriesRef.current = priceSeries;
+    renderedRef.current = null;
+
     return () => {
-      clearInterval(refreshInterval);
+      // On unmount the chart is already removed
+      if (chartRef.current === chart) {
+        priceSeries.detachPrimitive(drawingsPrimitive);
+        chart.removeSeries(priceSeries);
+      }
+      priceSeriesRef.current = null;
     };
-  }, [symbol, interval]);
-
-  // Get milliseconds based on interval
-  const getIntervalMilliseconds = (interval: string): number => {
-    const value = parseInt(interval.slice(0, -1));
-    const unit = interval.slice(-1);
-    
-    switch (unit) {
-      case 'm': return value * 60 * 1000;
-      case 'h': return value * 60 * 60 * 1000;
-      case 'd': return value * 24 * 60 * 60 * 1000;
-      case 'w': return value * 7 * 24 * 60 * 60 * 1000;
-      default: return 60 * 1000; // Default 1 minute
+  }, [chartStyle]);
+
+  // Live ticks only update the newest bars so the viewport stays where the
+  // user left it. Backfilled history is prepended with setData, which keeps
+  // the view anchored to the right edge. Evenly spaced bars can change
+  // anywhere near the end, so they are always set again
+  useEffect(() => {
+    const chart = chartRef.current;
+    const priceSeries = priceSeriesRef.current;
+    const volumeSeries = volumeSeriesRef.current;
+    if (!chart || !priceSeries || !volumeSeries) {
+      return;
     }
-  };
 
-  // Format time
-  const formatTime = (date: Date, interval: string): string => {
-    const unit = interval.slice(-1);
-    
-    if (unit === 'm') {
-      return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
-    } else if (unit === 'h') {
-      return `${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')} ${date.getHours().toString().padStart(2, '0')}:00`;
+    const { type, bars, times } = plotted;
+    const rendered = renderedRef.current;
+    if (bars.length === 0) {
+      priceSeries.setData([]);
+      volumeSeries.setData([]);
+      renderedRef.current = null;
+      return;
+    }
+
+    const added = rendered ? bars.length - rendered.length : -1;
+    if (rendered && rendered.chartType === type && CHART_TYPE_DEFINITIONS[type].timeBased
+      && rendered.firstTime === bars[0].time && (added === 0 || added === 1)) {
+      // A new candle can open in the same update that closes the previous one
+      for (let i = bars.length - 1 - added; i < bars.length; i++) {
+        priceSeries.update(toPriceData(bars[i], times[i], chartStyle));
+        volumeSeries.update(toVolumeBar(bars[i], times[i]));
+      }
     } else {
-      return `${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+      priceSeries.setData(bars.map((bar, i) => toPriceData(bar, times[i], chartStyle)));
+      volumeSeries.setData(bars.map((bar, i) => toVolumeBar(bar, times[i])));
+      // A new chart or chart type starts at the latest bar
+      if (!rendered || rendered.chartType !== type) {
+        chart.timeScale().scrollToRealTime();
+      }
+    }
+
+    renderedRef.current = { chartType: type, firstTime: bars[0].time, length: bars.length };
+  }, [plotted, chartStyle]);
+
+  // Spot and perp CVD over the same bars, so both start at the same anchor
+  useEffect(() => {
+    const spotCvdSeries = spotCvdSeriesRef.current;
+    const perpCvdSeries = perpCvdSeriesRef.current;
+    if (!spotCvdSeries || !perpCvdSeries) {
+      return;
+    }
+
+    if (plotted.bars.length === 0 || !cvdAvailable) {
+      spotCvdSeries.setData([]);
+      perpCvdSeries.setData([]);
+      return;
+    }
+
+    const lastIndex = plotted.bars.length - 1;
+    const from = cvdAnchor === 'visible' && visibleRange ? Math.min(visibleRange.from, lastIndex) : 0;
+
+    spotCvdSeries.setData(getCvdLine(history, cvdAnchor, plotted, from, lastIndex));
+    perpCvdSeries.setData(perpCvdVisible && perp.data ? getCvdLine(perp.data, cvdAnchor, plotted, from, lastIndex) : []);
+  }, [history, plotted, cvdAnchor, visibleRange, cvdAvailable, perpCvdVisible, perp.data]);
+
+  // Add, recreate and remove indicator series as the selection changes, then
+  // bring each one up to date with the candles
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) {
+      return;
+    }
+
+    const runs = indicatorRunsRef.current;
+    runs.forEach((run, id) => {
+      const config = indicators.find(item => item.id === id);
+      if (!config || getIndicatorKey(config) !== run.key) {
+        // Panes left empty are removed by the chart
+        run.series.forEach(series => chart.removeSeries(series));
+        runs.delete(id);
+      }
+    });
+    indicators.forEach(config => {
+      if (!runs.has(config.id)) {
+        runs.set(config.id, createIndicatorRun(chart, config, priceFormat));
+      }
+    });
+    runs.forEach(run => updateIndicatorRun(run, plotted));
+  }, [indicators, plotted, priceFormat]);
+
+  // Also applied to each new price series
+  useEffect(() => {
+    priceSeriesRef.current?.applyOptions({ priceFormat });
+    indicatorRunsRef.current.forEach(run => {
+      if (INDICATORS[run.config.type].unit === 'price') {
+        run.series.forEach(series => series.applyOptions({ priceFormat }));
+      }
+    });
+  }, [priceFormat, chartStyle]);
+
+  useEffect(() => {
+    priceSeriesRef.current?.priceScale().applyOptions({
+      autoScale,
+      mode: logScale ? PriceScaleMode.Logarithmic : PriceScaleMode.Normal
+    });
+  }, [autoScale, logScale, chartStyle]);
+
+  // Axis labels in local time; evenly spaced bars are labelled with the time they formed
+  useEffect(() => {
+    chartRef.current?.applyOptions({
+      timeScale: {
+        secondsVisible: parseInterval(interval).unit === 's',
+        tickMarkFormatter: timeBased
+          ? formatTickMark
+          : (time: Time) => formatBarTime(timesRef.current, time, 'MM-DD HH:mm')
+      },
+      localization: {
+        timeFormatter: timeBased
+          ? (time: Time) => formatDate(fromChartTime(time), 'YYYY-MM-DD HH:mm')
+          : (time: Time) => formatBarTime(timesRef.current, time, 'YYYY-MM-DD HH:mm')
+      }
+    });
+  }, [interval, timeBased]);
+
+  useEffect(() => {
+    plottedRef.current = plotted;
+    timesRef.current = plotted.bars.map(bar => new Date(bar.time).getTime());
+    drawingsPrimitiveRef.current?.setTimeline(timesRef.current);
+  }, [plotted]);
+
+  useEffect(() => {
+    drawingsPrimitiveRef.current?.setDrawings(drawings, selectedDrawingId);
+  }, [drawings, selectedDrawingId]);
+
+  useEffect(() => {
+    drawingsPrimitiveRef.current?.setPriceFormatter(price => formatPrice(price, precision));
+  }, [precision]);
+
+  // Time and price under the mouse, when it is over the candles
+  const getDrawingPoint = (param: MouseEventParams<Time>): DrawingPoint | null => {
+    const chart = chartRef.current;
+    const priceSeries = priceSeriesRef.current;
+    if (!chart || !priceSeries || !param.point || (param.paneIndex ?? 0) !== 0) {
+      return null;
     }
+
+    const logical = chart.timeScale().coordinateToLogical(param.point.x);
+    const price = priceSeries.coordinateToPrice(param.point.y);
+    const time = logical !== null ? logicalToTime(timesRef.current, logical) : null;
+    return time !== null && price !== null ? { time, price } : null;
   };
 
-  // Custom tooltip
-  const CustomTooltip = ({ active, payload }: any) => {
-    if (active && payload && payload.length) {
-      const data = payload[0].payload;
-      return (
-        <Box sx={{ 
-          backgroundColor: '#1e2230', 
-          border: '1px solid #2a2e39',
-          p: 1,
-          borderRadius: 1
-        }}>
-          <Typography variant="caption" sx={{ color: '#d1d4dc', display: 'block' }}>
-            Time: {data.time}
-          </Typography>
-          <Typography variant="caption" sx={{ color: '#d1d4dc', display: 'block' }}>
-            Open: {data.open.toFixed(2)}
-          </Typography>
-          <Typography variant="caption" sx={{ color: '#d1d4dc', display: 'block' }}>
-            High: {data.high.toFixed(2)}
-          </Typography>
-          <Typography variant="caption" sx={{ color: '#d1d4dc', display: 'block' }}>
-            Low: {data.low.toFixed(2)}
-          </Typography>
-          <Typography variant="caption" sx={{ color: '#d1d4dc', display: 'block' }}>
-            Close: {data.close.toFixed(2)}
-          </Typography>
-          <Typography variant="caption" sx={{ color: '#d1d4dc', display: 'block' }}>
-            Volume: {data.volume.toFixed(2)}
-          </Typography>
-        </Box>
-      );
+  const addDrawing = (drawing: Drawing) => {
+    setDrawings([...drawings, drawing]);
+    setSelectedDrawingId(drawing.id);
+    setDrawingTool(null);
+  };
+
+  // Without a tool a click selects the drawing under it; with one it places the
+  // next point, and the last point completes the drawing
+  clickHandlerRef.current = (param: MouseEventParams<Time>) => {
+    const primitive = drawingsPrimitiveRef.current;
+    if (!drawingTool) {
+      setSelectedDrawingId(primitive && param.point ? primitive.findDrawingAt(param.point.x, param.point.y) : null);
+      return;
     }
-    return null;
+
+    const point = getDrawingPoint(param);
+    if (!point) {
+      return;
+    }
+    if (drawingTool === 'text') {
+      setNoteText('');
+      setTextAnchor(point);
+      return;
+    }
+
+    const points = draftRef.current ? [draftRef.current.points[0], point] : [point];
+    if (points.length < DRAWING_POINT_COUNT[drawingTool]) {
+      draftRef.current = { id: 'draft', tool: drawingTool, points: [point, point], color: DRAWING_COLORS[drawingTool] };
+      primitive?.setDraft(draftRef.current);
+      return;
+    }
+
+    cancelDraft();
+    addDrawing({ id: `${drawingTool}-${Date.now()}`, tool: drawingTool, points, color: DRAWING_COLORS[drawingTool] });
   };
 
-  if (loading) {
-    return (
-      <LoadingContainer>
-        <CircularProgress size={40} />
-      </LoadingContainer>
-    );
-  }
+  // The last point of a drawing being placed follows the mouse
+  moveHandlerRef.current = (param: MouseEventParams<Time>) => {
+    const draft = draftRef.current;
+    const point = draft ? getDrawingPoint(param) : null;
+    if (draft && point) {
+      draftRef.current = { ...draft, points: [draft.points[0], point] };
+      drawingsPrimitiveRef.current?.setDraft(draftRef.current);
+    }
+  };
+
+  const handleDrawingToolChange = (tool: DrawingTool | null) => {
+    cancelDraft();
+    setSelectedDrawingId(null);
+    setDrawingTool(tool);
+  };
+
+  const handleAddNote = () => {
+    if (textAnchor && noteText.trim()) {
+      addDrawing({ id: `text-${Date.now()}`, tool: 'text', points: [textAnchor], color: DRAWING_COLORS.text, text: noteText.trim() });
+    }
+    setTextAnchor(null);
+  };
+
+  // Esc cancels the drawing being placed; Delete removes the selected one
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
+        return;
+      }
+
+      if (e.key === 'Escape') {
+        cancelDraft();
+        setDrawingTool(null);
+        setSelectedDrawingId(null);
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedDrawingId) {
+        setDrawings(drawings.filter(drawing => drawing.id !== selectedDrawingId));
+        setSelectedDrawingId(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [drawings, selectedDrawingId, setDrawings, cancelDraft]);
+
+  const latest = history.length > 0 ? history[history.length - 1] : null;
+  const latestBar = plotted.bars.length > 0 ? plotted.bars[plotted.bars.length - 1] : null;
+  const legend: LegendData | null = hovered || latestBar;
 
-  if (error) {
+  const loading = !data && !error;
+  const legendTimeFormat = parseInterval(interval).unit === 's' ? 'YYYY-MM-DD HH:mm:ss' : 'YYYY-MM-DD HH:mm';
+
+  const renderLegend = (item: LegendData) => {
+    const color = item.close >= item.open ? UP_COLOR : DOWN_COLOR;
+    const change = item.open > 0 ? ((item.close - item.open) / item.open) * 100 : 0;
     return (
-      <ErrorContainer>
-        <Typography variant="body1">{error}</Typography>
-      </ErrorContainer>
+      <LegendContainer>
+        {formatDate(item.time, legendTimeFormat)}
+        {' O '}<span style={{ color }}>{formatPrice(item.open, precision)}</span>
+        {' H '}<span style={{ color }}>{formatPrice(item.high, precision)}</span>
+        {' L '}<span style={{ color }}>{formatPrice(item.low, precision)}</span>
+        {' C '}<span style={{ color }}>{formatPrice(item.close, precision)}</span>
+        {' '}<span style={{ color }}>{change >= 0 ? '+' : ''}{change.toFixed(2)}%</span>
+        {' V '}<span style={{ color }}>{formatQuantity(item.volume, precision)}</span>
+        {item.spotCvd !== undefined && (
+          <span style={{ color: SPOT_CVD_COLOR }}>{' CVD '}{formatSigned(item.spotCvd)}</span>
+        )}
+        {item.perpCvd !== undefined && (
+          <span style={{ color: PERP_CVD_COLOR }}>{' Perp '}{formatSigned(item.perpCvd)}</span>
+        )}
+        {(item.indicators || []).map(indicator => (
+          <div key={indicator.id}>
+            {indicator.label}
+            {indicator.values.map((value, index) => (
+              <span key={index} style={{ color: value.color }}>
+                {' '}{indicator.unit === 'price' ? formatPrice(value.value, precision) : value.value.toFixed(2)}
+              </span>
+            ))}
+          </div>
+        ))}
+      </LegendContainer>
     );
-  }
-
-  // Prepare data for candlestick chart
-  const candleData = klineData.map((item, index) => ({
-    ...item,
-    idx: index, // Add index for x-axis positioning
-  }));
+  };
 
   return (
     <Container>
-      <Typography variant="subtitle2" sx={{ mb: 1, color: '#d1d4dc' }}>
-        {symbol} {interval} Candlestick Chart
-      </Typography>
-      
+      <HeaderContainer>
+        <Typography variant="subtitle2" sx={{ color: '#d1d4dc' }}>
+          {symbol} {interval} Candlestick Chart
+          {latest && <CandleCountdown closeTime={latest.closeTime} />}
+          {data && error ? <ApiErrorNotice error={error} onRetry={refetch} /> : null}
+          {perpCvdVisible && perp.error ? <ApiErrorNotice error={perp.error} onRetry={perp.refetch} /> : null}
+          {history.length > 0 && !cvdAvailable && (
+            <Typography component="span" variant="caption" sx={{ ml: 1, color: '#787b86' }}>
+              No CVD: {getExchangeAdapter(exchange).name} candles carry no taker buy volume
+            </Typography>
+          )}
+          {loadingOlder && (
+            <Typography component="span" variant="caption" sx={{ ml: 1, color: '#9e9e9e' }}>
+              Loading history...
+            </Typography>
+          )}
+        </Typography>
+
+        <Box>
+          {/* Price scale: fit the visible candles, and linear or logarithmic */}
+          <ToggleButton
+            size="small"
+            value="auto"
+            selected={autoScale}
+            onChange={() => setAutoScale(prev => !prev)}
+            sx={{ py: 0.25, px: 1, mr: 0.5 }}
+          >
+            Auto
+          </ToggleButton>
+          <ToggleButton
+            size="small"
+            value="log"
+            selected={logScale}
+            onChange={() => setLogScale(prev => !prev)}
+            sx={{ py: 0.25, px: 1, mr: 1 }}
+          >
+            Log
+          </ToggleButton>
+
+          {/* CVD reset anchor, and the USD-M perpetual series next to spot */}
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={cvdAnchor}
+            disabled={!cvdAvailable}
+            onChange={(_, value) => value !== null && setCvdAnchor(value)}
+            sx={{ mr: 1 }}
+          >
+            {CVD_ANCHORS.map(anchor => (
+              <ToggleButton key={anchor} value={anchor} sx={{ py: 0.25, px: 1 }}>
+                {CVD_ANCHOR_LABELS[anchor]}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <ToggleButton
+            size="small"
+            value="perp"
+            selected={perpCvdVisible}
+            disabled={!perpCvdAvailable}
+            onChange={() => setShowPerpCvd(prev => !prev)}
+            sx={{ py: 0.25, px: 1 }}
+          >
+            Perp CVD
+          </ToggleButton>
+        </Box>
+      </HeaderContainer>
+
+      <ToolbarContainer>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <ChartTypePicker
+            key={symbol}
+            value={chartSettings}
+            onChange={setChartSettings}
+            size={barSize}
+            onSizeChange={setBarSize}
+            boxSize={plotted.boxSize}
+            formatSize={(size) => formatPrice(size, precision)}
+          />
+          <IndicatorPicker value={indicators} onChange={setIndicators} />
+        </Box>
+        <DrawingToolbar
+          symbol={symbol}
+          drawings={drawings}
+          onChange={setDrawings}
+          tool={drawingTool}
+          onToolChange={handleDrawingToolChange}
+          selectedId={selectedDrawingId}
+          onSelect={setSelectedDrawingId}
+        />
+      </ToolbarContainer>
+
+      {/* The chart stays mounted while loading so it is created only once */}
       <ChartContainer>
-        <MainChartContainer>
-          <ResponsiveContainer width="100%" height="100%">
-            <ComposedChart
-              data={candleData}
-              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-            >
-              <CartesianGrid strokeDasharray="3 3" stroke="#2a2e39" />
-              <XAxis 
-                dataKey="time" 
-                tick={{ fill: '#d1d4dc' }} 
-                axisLine={{ stroke: '#2a2e39' }}
-              />
-              <YAxis 
-                domain={['auto', 'auto']} 
-                tick={{ fill: '#d1d4dc' }} 
-                axisLine={{ stroke: '#2a2e39' }}
-              />
-              <Tooltip content={<CustomTooltip />} />
-              
-              {/* Custom rendering for candlesticks */}
-              <Bar
-                dataKey="idx"
-                barSize={8}
-                shape={(props: any) => {
-                  const { x, y, width, height, payload } = props;
-                  return (
-                    <CandlestickBar
-                      x={x - width / 2}
-                      y={y}
-                      width={width}
-                      height={height}
-                      open={payload.open}
-                      close={payload.close}
-                      high={payload.high}
-                      low={payload.low}
-                    />
-                  );
-                }}
-                isAnimationActive={false}
-              />
-            </ComposedChart>
-          </ResponsiveContainer>
-        </MainChartContainer>
-        
-        <VolumeChartContainer>
-          <ResponsiveContainer width="100%" height="100%">
-            <BarChart
-              data={klineData}
-              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-            >
-              <CartesianGrid strokeDasharray="3 3" stroke="#2a2e39" />
-              <XAxis 
-                dataKey="time" 
-                tick={{ fill: '#d1d4dc' }} 
-                axisLine={{ stroke: '#2a2e39' }}
-              />
-              <YAxis 
-                tick={{ fill: '#d1d4dc' }} 
-                axisLine={{ stroke: '#2a2e39' }}
-              />
-              <Tooltip content={<CustomTooltip />} />
-              <Bar 
-                dataKey="volume" 
-                shape={(props: any) => {
-                  const { x, y, width, height } = props;
-                  return (
-                    <rect
-                      x={x}
-                      y={y}
-                      width={width}
-                      height={height}
-                      fill={props.payload.isRising ? '#26a69a' : '#ef5350'}
-                    />
-                  );
-                }}
-              />
-            </BarChart>
-          </ResponsiveContainer>
-        </VolumeChartContainer>
+        {legend && renderLegend(legend)}
+        <div ref={containerRef} style={{ width: '100%', height: '100%' }} />
+
+        {loading && (
+          <OverlayContainer>
+            <CircularProgress size={40} />
+          </OverlayContainer>
+        )}
+        {!data && error ? (
+          <OverlayContainer>
+            <ApiError error={error} onRetry={refetch} />
+          </OverlayContainer>
+        ) : null}
       </ChartContainer>
+
+      <Dialog open={textAnchor !== null} onClose={() => setTextAnchor(null)}>
+        <DialogTitle>Text note</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            size="small"
+            value={noteText}
+            onChange={(e) => setNoteText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddNote()}
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTextAnchor(null)}>Cancel</Button>
+          <Button onClick={handleAddNote} disabled={!noteText.trim()}>Add</Button>
+        </DialogActions>
+      </Dialog>
     </Container>
   );
 };
 
-export default KlineChart; 
\ No newline at end of file
+export default KlineChart;
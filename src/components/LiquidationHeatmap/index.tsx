@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { Box, CircularProgress, TextField, Typography } from '@mui/material';
+import ApiError, { ApiErrorNotice } from '../ApiError';
+import { getFuturesDataPeriod } from '../../api/binance';
+import {
+  buildLiquidationHeatmap,
+  DEFAULT_LEVERAGE_DISTRIBUTION,
+  LeverageWeight,
+  MarginBracket
+} from '../../api/liquidationModel';
+import { useOpenInterestHistory } from '../../hooks/useFuturesData';
+import { useKlines } from '../../hooks/useMarketData';
+import { usePrecision } from '../../hooks/usePrecision';
+import { formatDate, formatLargeNumber, formatPrice } from '../../utils/formatters';
+
+// 样式组件
+const Container = styled(Box)`
+  height: 100%;
+  display: flex;
+  flex-direction: column;
+`;
+
+const ControlsContainer = styled(Box)`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  margin-bottom: 6px;
+`;
+
+const CanvasContainer = styled(Box)`
+  flex: 1;
+  position: relative;
+  min-height: 0;
+`;
+
+const LoadingContainer = styled(Box)`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  height: 100%;
+`;
+
+// 接口定义
+interface LiquidationHeatmapProps {
+  symbol: string;
+  interval: string;
+  // 合约的维持保证金档位
+  brackets: MarginBracket[];
+}
+
+interface HoverCell {
+  time: string;
+  price: number;
+  longs: number;
+  shorts: number;
+}
+
+// 模型使用的周期数（openInterestHist 只提供最近30天）
+const PERIODS = 200;
+
+// 右侧价格轴宽度
+const AXIS_WIDTH = 64;
+
+const LiquidationHeatmap: React.FC<LiquidationHeatmapProps> = ({ symbol, interval, brackets }) => {
+  const period = getFuturesDataPeriod(interval);
+  const klines = useKlines('binance', symbol, period, PERIODS);
+  const openInterest = useOpenInterestHistory(symbol, period, PERIODS);
+  const [distribution, setDistribution] = useState<LeverageWeight[]>(DEFAULT_LEVERAGE_DISTRIBUTION);
+  const [size, setSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
+  const [hover, setHover] = useState<HoverCell | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const precision = usePrecision('binance', symbol, klines.data && klines.data.length > 0 ? klines.data[0].close : undefined);
+
+  const heatmap = useMemo(() => {
+    if (!klines.data || !openInterest.data) {
+      return null;
+    }
+    return buildLiquidationHeatmap(klines.data, openInterest.data, brackets, { distribution });
+  }, [klines.data, openInterest.data, brackets, distribution]);
+
+  // 跟随容器尺寸
+  const ready = heatmap !== null;
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) {
+      return;
+    }
+
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      setSize({ width, height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ready]);
+
+  // 绘制热力图，并叠加K线的高低区间
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !heatmap || !klines.data || size.width === 0) {
+      return;
+    }
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = size.width * ratio;
+    canvas.height = size.height * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return;
+    }
+    context.scale(ratio, ratio);
+    context.clearRect(0, 0, size.width, size.height);
+
+    const plotWidth = size.width - AXIS_WIDTH;
+    const columns = heatmap.times.length;
+    const cellWidth = plotWidth / Math.max(columns, 1);
+    const cellHeight = size.height / heatmap.bins;
+    const toY = (price: number) => size.height - ((price - heatmap.priceMin) / (heatmap.binSize * heatmap.bins)) * size.height;
+
+    for (let column = 0; column < columns; column++) {
+      for (let row = 0; row < heatmap.bins; row++) {
+        const value = heatmap.longs[column][row] + heatmap.shorts[column][row];
+        if (value <= 0 || heatmap.maxValue <= 0) {
+          continue;
+        }
+        // 开方压缩动态范围，小簇也能看到
+        const intensity = Math.sqrt(value / heatmap.maxValue);
+        context.fillStyle = `rgba(240, 185, 11, ${0.08 + intensity * 0.92})`;
+        context.fillRect(column * cellWidth, size.height - (row + 1) * cellHeight, Math.ceil(cellWidth), Math.ceil(cellHeight));
+      }
+    }
+
+    context.strokeStyle = '#d1d4dc';
+    context.lineWidth = 1;
+    klines.data.forEach((candle, column) => {
+      const x = column * cellWidth + cellWidth / 2;
+      context.beginPath();
+      context.moveTo(x, toY(candle.high));
+      context.lineTo(x, toY(candle.low));
+      context.stroke();
+    });
+
+    // 价格轴
+    context.fillStyle = '#787b86';
+    context.font = '10px sans-serif';
+    context.textBaseline = 'middle';
+    for (let tick = 0; tick <= 4; tick++) {
+      const price = heatmap.priceMin + (heatmap.binSize * heatmap.bins * tick) / 4;
+      const y = Math.min(Math.max(toY(price), 6), size.height - 6);
+      context.fillText(formatPrice(price, precision), plotWidth + 4, y);
+    }
+  }, [heatmap, klines.data, size, precision]);
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!heatmap || heatmap.times.length === 0) {
+      return;
+    }
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const column = Math.floor(((event.clientX - rect.left) / (rect.width - AXIS_WIDTH)) * heatmap.times.length);
+    const row = Math.floor(((rect.height - (event.clientY - rect.top)) / rect.height) * heatmap.bins);
+    if (column < 0 || column >= heatmap.times.length || row < 0 || row >= heatmap.bins) {
+      setHover(null);
+      return;
+    }
+
+    setHover({
+      time: heatmap.times[column],
+      price: heatmap.priceMin + (row + 0.5) * heatmap.binSize,
+      longs: heatmap.longs[column][row],
+      shorts: heatmap.shorts[column][row]
+    });
+  };
+
+  const updateWeight = (leverage: number, value: string) => {
+    const weight = parseFloat(value);
+    setDistribution(prev => prev.map(item => (
+      item.leverage === leverage ? { ...item, weight: isNaN(weight) ? 0 : weight / 100 } : item
+    )));
+  };
+
+  const error = klines.error || openInterest.error;
+  const retry = () => {
+    klines.refetch();
+    openInterest.refetch();
+  };
+
+  if (!heatmap && !error) {
+    return (
+      <LoadingContainer>
+        <CircularProgress size={40} />
+      </LoadingContainer>
+    );
+  }
+
+  if (!heatmap) {
+    return <ApiError error={error} onRetry={retry} />;
+  }
+
+  return (
+    <Container>
+      <ControlsContainer>
+        <Typography variant="caption" sx={{ color: '#787b86' }}>
+          杠杆分布
+        </Typography>
+        {distribution.map(item => (
+          <TextField
+            key={item.leverage}
+            size="small"
+            type="number"
+            label={`${item.leverage}x %`}
+            value={Math.round(item.weight * 100)}
+            onChange={(e) => updateWeight(item.leverage, e.target.value)}
+            inputProps={{ min: 0, max: 100, style: { padding: '2px 6px', fontSize: '0.75rem' } }}
+            InputLabelProps={{ shrink: true }}
+            sx={{ width: 64 }}
+          />
+        ))}
+        {error ? <ApiErrorNotice error={error} onRetry={retry} /> : null}
+      </ControlsContainer>
+
+      <Typography variant="caption" sx={{ color: '#787b86', minHeight: 18 }}>
+        {hover
+          ? `${formatDate(hover.time, 'MM-DD HH:mm')} · ${formatPrice(hover.price, precision)} · 多头 $${formatLargeNumber(hover.longs, 1)} · 空头 $${formatLargeNumber(hover.shorts, 1)}`
+          : `模型估算（${period} 持仓量变化，Binance U本位维持保证金档位），非实际仓位`}
+      </Typography>
+
+      <CanvasContainer ref={containerRef}>
+        <canvas
+          ref={canvasRef}
+          style={{ width: '100%', height: '100%', display: 'block' }}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHover(null)}
+        />
+      </CanvasContainer>
+    </Container>
+  );
+};
+
+export default LiquidationHeatmap;
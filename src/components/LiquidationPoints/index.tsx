@@ -1,7 +1,21 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import styled from 'styled-components';
-import { Box, Typography, CircularProgress } from '@mui/material';
+import { Box, FormControlLabel, Switch, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
 import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ZAxis } from 'recharts';
+import ApiError, { ApiErrorNotice } from '../ApiError';
+import LiquidationHeatmap from '../LiquidationHeatmap';
+import { ExchangeId } from '../../api/exchanges';
+import {
+  aggregateLiquidations,
+  getBucketSize,
+  getLiquidationNotional,
+  getLiquidationSide
+} from '../../api/liquidationFeed';
+import { getMarginBrackets } from '../../api/liquidationModel';
+import { useLiquidationFeed } from '../../hooks/useLiquidationFeed';
+import { usePrecision } from '../../hooks/usePrecision';
+import { LiquidationOrder } from '../../types/api';
+import { formatDate, formatLargeNumber, formatPrice } from '../../utils/formatters';
 
 // 样式组件
 const Container = styled(Box)`
@@ -11,122 +25,154 @@ const Container = styled(Box)`
   flex-direction: column;
 `;
 
+const HeaderContainer = styled(Box)`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
+`;
+
+const ContentContainer = styled(Box)`
+  flex: 1;
+  display: flex;
+  min-height: 0;
+`;
+
 const ChartContainer = styled(Box)`
+  flex: 2;
+  position: relative;
+`;
+
+const FeedContainer = styled(Box)`
   flex: 1;
+  display: flex;
+  flex-direction: column;
+  margin-left: 8px;
+  border-left: 1px solid #2a2e39;
+  padding-left: 8px;
+  min-width: 0;
 `;
 
-const LoadingContainer = styled(Box)`
+const FeedList = styled(Box)`
+  flex: 1;
+  overflow-y: auto;
+
+  &::-webkit-scrollbar {
+    width: 4px;
+  }
+
+  &::-webkit-scrollbar-thumb {
+    background-color: #2a2e39;
+    border-radius: 2px;
+  }
+`;
+
+const FeedRow = styled(Box)<{ side: 'long' | 'short' }>`
   display: flex;
-  align-items: center;
-  justify-content: center;
-  height: 100%;
+  justify-content: space-between;
+  font-size: 0.7rem;
+  line-height: 1.6;
+  color: ${props => (props.side === 'long' ? '#f44336' : '#4caf50')};
 `;
 
-const ErrorContainer = styled(Box)`
-  color: #ff5252;
-  text-align: center;
-  padding: 16px;
+const EmptyContainer = styled(Box)`
+  position: absolute;
+  inset: 0;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  color: #787b86;
+  pointer-events: none;
 `;
 
 // 接口定义
 interface LiquidationPointsProps {
+  exchange: ExchangeId;
   symbol: string;
+  interval: string;
 }
 
-interface LiquidationData {
-  price: number;
-  volume: number;
-  type: 'long' | 'short';
-}
+type LiquidationView = 'observed' | 'model';
 
-const LiquidationPoints: React.FC<LiquidationPointsProps> = ({ symbol }) => {
-  const [liquidationData, setLiquidationData] = useState<LiquidationData[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+// 时间窗口选项
+const TIMEFRAMES = [
+  { value: 5 * 60 * 1000, label: '5m' },
+  { value: 60 * 60 * 1000, label: '1h' },
+  { value: 24 * 60 * 60 * 1000, label: '24h' }
+];
 
+// 清算流展示的最大条数
+const FEED_SIZE = 100;
+
+const inWindow = (orders: LiquidationOrder[], since: number) => {
+  const cutoff = new Date(since).toISOString();
+  return orders.filter(order => order.time >= cutoff);
+};
+
+const LiquidationPoints: React.FC<LiquidationPointsProps> = ({ exchange, symbol, interval }) => {
+  const [view, setView] = useState<LiquidationView>('observed');
+  // 模型依赖币安的持仓量统计，其他交易所和模拟行情中没有对应数据；
+  // 没有收录保证金档位的合约也不提供模型
+  const brackets = exchange === 'binance' ? getMarginBrackets(symbol) : null;
+  const hasModel = brackets !== null;
+  const [timeframe, setTimeframe] = useState<number>(TIMEFRAMES[1].value);
+  const [marketWide, setMarketWide] = useState<boolean>(false);
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  const feed = useLiquidationFeed(exchange, symbol);
+  const marketFeed = useLiquidationFeed(exchange, marketWide ? null : symbol);
+
+  // 窗口随时间滚动
   useEffect(() => {
-    const fetchLiquidationData = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        // 模拟API调用 - 在实际应用中替换为真实的API调用
-        // 例如: const response = await fetch(`https://api.binance.com/fapi/v1/liquidationOrders?symbol=${symbol}`);
-        
-        // 生成模拟数据
-        let basePrice = 50000; // 基础价格
-        
-        if (symbol === 'BTCUSDT') {
-          basePrice = 50000;
-        } else if (symbol === 'ETHUSDT') {
-          basePrice = 3000;
-        } else if (symbol === 'BNBUSDT') {
-          basePrice = 500;
-        } else {
-          basePrice = 100;
-        }
-        
-        const volatility = basePrice * 0.1; // 10%的波动率
-        const mockData: LiquidationData[] = [];
-        
-        // 生成多头清算点
-        for (let i = 0; i < 15; i++) {
-          const price = basePrice - (Math.random() * volatility * 0.8);
-          const volume = Math.floor(Math.random() * 10) + 1;
-          
-          mockData.push({
-            price,
-            volume,
-            type: 'long'
-          });
-        }
-        
-        // 生成空头清算点
-        for (let i = 0; i < 15; i++) {
-          const price = basePrice + (Math.random() * volatility * 0.8);
-          const volume = Math.floor(Math.random() * 10) + 1;
-          
-          mockData.push({
-            price,
-            volume,
-            type: 'short'
-          });
-        }
-        
-        setLiquidationData(mockData);
-        setLoading(false);
-      } catch (err) {
-        console.error('Error fetching liquidation data:', err);
-        setError('获取清算点数据失败');
-        setLoading(false);
-      }
-    };
-
-    fetchLiquidationData();
-  }, [symbol]);
+    const intervalId = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const orders = useMemo(() => inWindow(feed.orders, now - timeframe), [feed.orders, now, timeframe]);
+  const precision = usePrecision(exchange, symbol, orders.length > 0 ? orders[orders.length - 1].price : undefined);
+
+  // 按价格区间和方向聚合清算金额
+  const buckets = useMemo(() => {
+    const bucketSize = getBucketSize(orders.map(order => order.averagePrice || order.price));
+    return aggregateLiquidations(orders, bucketSize);
+  }, [orders]);
+
+  const longLiquidations = buckets.filter(bucket => bucket.side === 'long');
+  const shortLiquidations = buckets.filter(bucket => bucket.side === 'short');
+  const longTotal = longLiquidations.reduce((acc, bucket) => acc + bucket.notional, 0);
+  const shortTotal = shortLiquidations.reduce((acc, bucket) => acc + bucket.notional, 0);
+
+  const feedOrders = useMemo(
+    () => inWindow(marketFeed.orders, now - timeframe).slice(-FEED_SIZE).reverse(),
+    [marketFeed.orders, now, timeframe]
+  );
+
+  // 流式数据无法回补，窗口只覆盖开始收集之后的时间
+  const partialWindow = feed.startedAt > now - timeframe;
+  const error = feed.error || marketFeed.error;
 
   // 自定义工具提示
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload;
       return (
-        <Box sx={{ 
-          backgroundColor: '#1e2230', 
+        <Box sx={{
+          backgroundColor: '#1e2230',
           border: '1px solid #2a2e39',
           p: 1,
           borderRadius: 1
         }}>
           <Typography variant="caption" sx={{ color: '#d1d4dc', display: 'block' }}>
-            价格: {data.price.toFixed(2)}
+            价格: {formatPrice(data.price, precision)}
           </Typography>
           <Typography variant="caption" sx={{ color: '#d1d4dc', display: 'block' }}>
-            数量: {data.volume}
+            金额: ${formatLargeNumber(data.notional, 2)} ({data.count} 笔)
           </Typography>
-          <Typography variant="caption" sx={{ 
-            color: data.type === 'long' ? '#f44336' : '#4caf50',
+          <Typography variant="caption" sx={{
+            color: data.side === 'long' ? '#f44336' : '#4caf50',
             display: 'block'
           }}>
-            类型: {data.type === 'long' ? '多头清算' : '空头清算'}
+            类型: {data.side === 'long' ? '多头清算' : '空头清算'}
           </Typography>
         </Box>
       );
@@ -134,62 +180,141 @@ const LiquidationPoints: React.FC<LiquidationPointsProps> = ({ symbol }) => {
     return null;
   };
 
-  if (loading) {
-    return (
-      <LoadingContainer>
-        <CircularProgress size={40} />
-      </LoadingContainer>
-    );
-  }
+  const viewToggle = (
+    <ToggleButtonGroup
+      size="small"
+      exclusive
+      value={view}
+      onChange={(_, value) => value !== null && setView(value)}
+      sx={{ mr: 1 }}
+    >
+      <ToggleButton value="observed" sx={{ py: 0.25, px: 1 }}>实际</ToggleButton>
+      <ToggleButton value="model" disabled={!hasModel} sx={{ py: 0.25, px: 1 }}>模型</ToggleButton>
+    </ToggleButtonGroup>
+  );
 
-  if (error) {
+  // 模型视图：根据持仓量变化估算清算价位分布
+  if (view === 'model' && hasModel) {
     return (
-      <ErrorContainer>
-        <Typography variant="body1">{error}</Typography>
-      </ErrorContainer>
+      <Container>
+        <HeaderContainer>
+          <Typography variant="subtitle2" sx={{ color: '#d1d4dc' }}>
+            {symbol} 清算热力图
+          </Typography>
+          {viewToggle}
+        </HeaderContainer>
+        <Box sx={{ flex: 1, minHeight: 0 }}>
+          <LiquidationHeatmap symbol={symbol} interval={interval} brackets={brackets} />
+        </Box>
+      </Container>
     );
   }
 
-  // 分离多头和空头清算数据
-  const longLiquidations = liquidationData.filter(item => item.type === 'long');
-  const shortLiquidations = liquidationData.filter(item => item.type === 'short');
+  if (feed.error && feed.orders.length === 0) {
+    return <ApiError error={feed.error} />;
+  }
 
   return (
     <Container>
-      <Typography variant="subtitle2" sx={{ mb: 1, color: '#d1d4dc' }}>
-        {symbol} 清算点分布
-      </Typography>
-      
-      <ChartContainer>
-        <ResponsiveContainer width="100%" height="100%">
-          <ScatterChart
-            margin={{ top: 20, right: 20, bottom: 20, left: 20 }}
+      <HeaderContainer>
+        <Box>
+          <Typography variant="subtitle2" sx={{ color: '#d1d4dc' }}>
+            {symbol} 清算分布
+          </Typography>
+          <Typography variant="caption" sx={{ color: '#787b86' }}>
+            多头 <span style={{ color: '#f44336' }}>${formatLargeNumber(longTotal, 2)}</span>
+            {' · '}
+            空头 <span style={{ color: '#4caf50' }}>${formatLargeNumber(shortTotal, 2)}</span>
+            {partialWindow && ` · 自 ${formatDate(new Date(feed.startedAt), 'HH:mm')} 起收集`}
+            {exchange === 'binance' && !hasModel && ' · 未收录该合约的保证金档位，模型不可用'}
+          </Typography>
+        </Box>
+
+        <Box>
+          {viewToggle}
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={timeframe}
+            onChange={(_, value) => value !== null && setTimeframe(value)}
           >
-            <CartesianGrid strokeDasharray="3 3" stroke="#2a2e39" />
-            <XAxis 
-              type="number" 
-              dataKey="price" 
-              name="价格" 
-              tick={{ fill: '#d1d4dc' }} 
-              axisLine={{ stroke: '#2a2e39' }}
-              domain={['auto', 'auto']}
-            />
-            <YAxis 
-              type="number" 
-              dataKey="volume" 
-              name="数量" 
-              tick={{ fill: '#d1d4dc' }} 
-              axisLine={{ stroke: '#2a2e39' }}
-            />
-            <ZAxis range={[60, 400]} />
-            <Tooltip content={<CustomTooltip />} />
-            <Scatter name="多头清算" data={longLiquidations} fill="#f44336" />
-            <Scatter name="空头清算" data={shortLiquidations} fill="#4caf50" />
-          </ScatterChart>
-        </ResponsiveContainer>
-      </ChartContainer>
+            {TIMEFRAMES.map(option => (
+              <ToggleButton key={option.label} value={option.value} sx={{ py: 0.25, px: 1 }}>
+                {option.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Box>
+      </HeaderContainer>
+
+      {error ? <ApiErrorNotice error={error} /> : null}
+
+      <ContentContainer>
+        <ChartContainer>
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart
+              margin={{ top: 10, right: 10, bottom: 10, left: 10 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#2a2e39" />
+              <XAxis
+                type="number"
+                dataKey="price"
+                name="价格"
+                tick={{ fill: '#d1d4dc', fontSize: 11 }}
+                axisLine={{ stroke: '#2a2e39' }}
+                domain={['auto', 'auto']}
+                tickFormatter={(value) => formatPrice(value, precision)}
+              />
+              <YAxis
+                type="number"
+                dataKey="notional"
+                name="金额"
+                tick={{ fill: '#d1d4dc', fontSize: 11 }}
+                axisLine={{ stroke: '#2a2e39' }}
+                tickFormatter={(value) => formatLargeNumber(value)}
+              />
+              <ZAxis type="number" dataKey="count" range={[40, 400]} />
+              <Tooltip content={<CustomTooltip />} />
+              <Scatter name="多头清算" data={longLiquidations} fill="#f44336" />
+              <Scatter name="空头清算" data={shortLiquidations} fill="#4caf50" />
+            </ScatterChart>
+          </ResponsiveContainer>
+          {orders.length === 0 && (
+            <EmptyContainer>
+              <Typography variant="body2">暂无清算</Typography>
+            </EmptyContainer>
+          )}
+        </ChartContainer>
+
+        <FeedContainer>
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={marketWide}
+                onChange={(e) => setMarketWide(e.target.checked)}
+              />
+            }
+            label={<Typography variant="caption">全市场</Typography>}
+            sx={{ color: '#d1d4dc', ml: 0 }}
+          />
+          <FeedList>
+            {feedOrders.map((order, index) => {
+              const side = getLiquidationSide(order);
+              return (
+                <FeedRow key={`${order.time}-${order.symbol}-${index}`} side={side}>
+                  <span>{formatDate(order.time, 'HH:mm:ss')}</span>
+                  {marketWide && <span>{order.symbol.replace(/USDT$/, '')}</span>}
+                  <span>{side === 'long' ? '多' : '空'}</span>
+                  <span>${formatLargeNumber(getLiquidationNotional(order), 1)}</span>
+                </FeedRow>
+              );
+            })}
+          </FeedList>
+        </FeedContainer>
+      </ContentContainer>
     </Container>
   );
 };
 
-export default LiquidationPoints; 
\ No newline at end of file
+export default LiquidationPoints;
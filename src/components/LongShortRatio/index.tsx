@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { Box, Typography, CircularProgress, Paper, ToggleButton, ToggleButtonGroup } from '@mui/material';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import ApiError, { ApiErrorNotice } from '../ApiError';
+import { getFuturesDataPeriod } from '../../api/binance';
+import { InvalidSymbolError } from '../../api/errors';
+import {
+  getPositioningReading,
+  POSITIONING_RATIO_KINDS,
+  PositioningRatioKind
+} from '../../api/positioning';
+import { usePositioningRatio } from '../../hooks/useFuturesData';
+import { useTradingPairs } from '../../hooks/useMarketData';
+import { formatDate, formatLargeNumber, formatPercentage } from '../../utils/formatters';
+
+// 样式组件
+const Container = styled(Box)`
+  padding: 16px;
+  height: 100%;
+  display: flex;
+  flex-direction: column;
+`;
+
+const HeaderContainer = styled(Box)`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
+`;
+
+const ReadingContainer = styled(Box)`
+  display: flex;
+  justify-content: space-between;
+  margin-bottom: 8px;
+`;
+
+const ReadingBox = styled(Paper)<{ selected?: boolean }>`
+  padding: 6px;
+  flex: 1;
+  margin: 0 4px;
+  text-align: center;
+  cursor: pointer;
+  background-color: #1e2230;
+  border: 1px solid ${props => (props.selected ? '#787b86' : '#2a2e39')};
+
+  &:first-child {
+    margin-left: 0;
+  }
+
+  &:last-child {
+    margin-right: 0;
+  }
+`;
+
+const ChartContainer = styled(Box)`
+  flex: 1;
+  min-height: 0;
+`;
+
+const LoadingContainer = styled(Box)`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  height: 100%;
+`;
+
+const NoticeContainer = styled(Box)`
+  color: #787b86;
+  text-align: center;
+  padding: 16px;
+`;
+
+// 接口定义
+interface LongShortRatioProps {
+  symbol: string;
+  interval: string;
+}
+
+interface RatioData {
+  time: string;
+  ratio: number;
+  long: number;
+  short: number;
+}
+
+// 图表使用的周期数（统计数据只提供最近30天）
+const PERIODS = 200;
+
+// 当前读数和24小时变化基于5分钟统计数据（24小时 = 288个周期）
+const READING_PERIOD = '5m';
+const READING_PERIODS = 289;
+const READING_WINDOW = 24 * 60 * 60 * 1000;
+
+const RATIO_LABELS: Record<PositioningRatioKind, string> = {
+  globalAccount: '全部账户',
+  topAccount: '大户账户',
+  topPosition: '大户持仓',
+  taker: '主动买卖'
+};
+
+const RatioChange: React.FC<{ change: number | null }> = ({ change }) => (
+  <Typography
+    variant="caption"
+    sx={{ color: change === null ? '#787b86' : change >= 0 ? '#4caf50' : '#f44336' }}
+  >
+    {change === null ? '-' : `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`}
+  </Typography>
+);
+
+const LongShortRatio: React.FC<LongShortRatioProps> = ({ symbol, interval }) => {
+  const period = getFuturesDataPeriod(interval);
+  const [kind, setKind] = useState<PositioningRatioKind>('globalAccount');
+  const { data: pairs } = useTradingPairs('binance');
+  const series = usePositioningRatio(kind, symbol, period, PERIODS);
+
+  // 四种比率的最新读数
+  const globalAccount = usePositioningRatio('globalAccount', symbol, READING_PERIOD, READING_PERIODS);
+  const topAccount = usePositioningRatio('topAccount', symbol, READING_PERIOD, READING_PERIODS);
+  const topPosition = usePositioningRatio('topPosition', symbol, READING_PERIOD, READING_PERIODS);
+  const taker = usePositioningRatio('taker', symbol, READING_PERIOD, READING_PERIODS);
+  const readingQueries = { globalAccount, topAccount, topPosition, taker };
+
+  // 现货交易对可能没有永续合约，此时没有持仓统计
+  const pair = pairs?.find(item => item.symbol === symbol);
+  const spotOnly = (pair !== undefined && !pair.hasFutures) || series.error instanceof InvalidSymbolError;
+
+  const chartData: RatioData[] = (series.data || []).map(point => ({
+    ...point,
+    time: formatDate(point.time, 'MM-DD HH:mm')
+  }));
+
+  const error = series.error || POSITIONING_RATIO_KINDS.map(item => readingQueries[item].error).find(Boolean);
+  const retry = () => {
+    series.refetch();
+    POSITIONING_RATIO_KINDS.forEach(item => readingQueries[item].refetch());
+  };
+
+  // 自定义工具提示
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const data: RatioData = payload[0].payload;
+      return (
+        <Paper sx={{ p: 1, backgroundColor: '#1e2230', border: '1px solid #2a2e39' }}>
+          <Typography variant="body2" sx={{ color: '#d1d4dc' }}>
+            时间: {data.time}
+          </Typography>
+          <Typography variant="body2" sx={{ color: '#d1d4dc' }}>
+            比率: {data.ratio.toFixed(4)}
+          </Typography>
+          {kind === 'taker' ? (
+            <Typography variant="body2" sx={{ color: '#787b86' }}>
+              买入 {formatLargeNumber(data.long, 2)} / 卖出 {formatLargeNumber(data.short, 2)}
+            </Typography>
+          ) : (
+            <Typography variant="body2" sx={{ color: '#787b86' }}>
+              多 {formatPercentage(data.long)} / 空 {formatPercentage(data.short)}
+            </Typography>
+          )}
+        </Paper>
+      );
+    }
+    return null;
+  };
+
+  if (spotOnly) {
+    return (
+      <NoticeContainer>
+        <Typography variant="body2">
+          {symbol} 没有永续合约，无多空比数据
+        </Typography>
+      </NoticeContainer>
+    );
+  }
+
+  if (!series.data && !error) {
+    return (
+      <LoadingContainer>
+        <CircularProgress size={40} />
+      </LoadingContainer>
+    );
+  }
+
+  if (!series.data) {
+    return <ApiError error={error} onRetry={retry} />;
+  }
+
+  return (
+    <Container>
+      <HeaderContainer>
+        <Typography variant="subtitle2" sx={{ color: '#d1d4dc' }}>
+          {symbol} 多空比
+          <Typography component="span" variant="caption" sx={{ ml: 1, color: '#787b86' }}>
+            {period}
+          </Typography>
+          {error ? <ApiErrorNotice error={error} onRetry={retry} /> : null}
+        </Typography>
+
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={kind}
+          onChange={(_, value) => value !== null && setKind(value)}
+        >
+          {POSITIONING_RATIO_KINDS.map(item => (
+            <ToggleButton key={item} value={item} sx={{ py: 0.25, px: 1 }}>
+              {RATIO_LABELS[item]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </HeaderContainer>
+
+      <ReadingContainer>
+        {POSITIONING_RATIO_KINDS.map(item => {
+          const reading = getPositioningReading(readingQueries[item].data || [], READING_WINDOW);
+          return (
+            <ReadingBox key={item} selected={item === kind} onClick={() => setKind(item)}>
+              <Typography variant="caption" sx={{ color: '#d1d4dc', display: 'block' }}>
+                {RATIO_LABELS[item]}
+              </Typography>
+              <Typography variant="body2" sx={{ color: '#d1d4dc', fontWeight: 'bold' }}>
+                {reading ? reading.current.ratio.toFixed(3) : '-'}
+              </Typography>
+              <RatioChange change={reading ? reading.change : null} />
+            </ReadingBox>
+          );
+        })}
+      </ReadingContainer>
+
+      <ChartContainer>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={chartData}
+            margin={{ top: 5, right: 10, left: 0, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#2a2e39" />
+            <XAxis
+              dataKey="time"
+              tick={{ fill: '#d1d4dc', fontSize: 11 }}
+              axisLine={{ stroke: '#2a2e39' }}
+            />
+            <YAxis
+              domain={['auto', 'auto']}
+              tick={{ fill: '#d1d4dc', fontSize: 11 }}
+              axisLine={{ stroke: '#2a2e39' }}
+              tickFormatter={(value) => value.toFixed(2)}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            {/* 比率为1时多空相等 */}
+            <ReferenceLine y={1} stroke="#787b86" strokeDasharray="3 3" />
+            <Line
+              type="monotone"
+              dataKey="ratio"
+              stroke="#8884d8"
+              dot={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </ChartContainer>
+    </Container>
+  );
+};
+
+export default LongShortRatio;
@@ -0,0 +1,312 @@
+import React, { useMemo } from 'react';
+import styled from 'styled-components';
+import { Box, Typography, CircularProgress, Paper } from '@mui/material';
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import ApiError, { ApiErrorNotice } from '../ApiError';
+import { getFuturesDataPeriod } from '../../api/binance';
+import { InvalidSymbolError } from '../../api/errors';
+import {
+  detectDivergences,
+  DivergenceKind,
+  getOpenInterestChange,
+  joinOpenInterest
+} from '../../api/openInterest';
+import { useOpenInterest, useOpenInterestHistory, usePremiumIndex } from '../../hooks/useFuturesData';
+import { useKlines, useTradingPairs } from '../../hooks/useMarketData';
+import { usePrecision } from '../../hooks/usePrecision';
+import { useServerNow } from '../../hooks/useServerClock';
+import { formatDate, formatLargeNumber, formatPrice, formatQuantity } from '../../utils/formatters';
+
+// 样式组件
+const Container = styled(Box)`
+  padding: 16px;
+  height: 100%;
+  display: flex;
+  flex-direction: column;
+`;
+
+const ChangeContainer = styled(Box)`
+  display: flex;
+  justify-content: space-between;
+  margin-bottom: 8px;
+`;
+
+const ChangeBox = styled(Paper)`
+  padding: 6px;
+  flex: 1;
+  margin: 0 8px;
+  text-align: center;
+  background-color: #1e2230;
+  border: 1px solid #2a2e39;
+
+  &:first-child {
+    margin-left: 0;
+  }
+
+  &:last-child {
+    margin-right: 0;
+  }
+`;
+
+const ChangeValue = styled(Typography)<{ change?: number }>`
+  font-size: 1rem;
+  font-weight: bold;
+  color: ${props => props.change === undefined
+    ? '#d1d4dc'
+    : props.change >= 0
+      ? '#4caf50'
+      : '#f44336'};
+`;
+
+const ChartContainer = styled(Box)`
+  flex: 1;
+  min-height: 0;
+`;
+
+const LoadingContainer = styled(Box)`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  height: 100%;
+`;
+
+const NoticeContainer = styled(Box)`
+  color: #787b86;
+  text-align: center;
+  padding: 16px;
+`;
+
+// 接口定义
+interface OpenInterestProps {
+  symbol: string;
+  interval: string;
+}
+
+interface OpenInterestData {
+  time: string;
+  close: number;
+  openInterestValue: number;
+}
+
+// 图表使用的周期数（openInterestHist 只提供最近30天）
+const PERIODS = 200;
+
+// 变化率统计窗口，基于5分钟统计数据（24小时 = 288个周期）
+const CHANGE_PERIOD = '5m';
+const CHANGE_PERIODS = 289;
+const CHANGE_WINDOWS = [
+  { value: 60 * 60 * 1000, label: '1小时' },
+  { value: 4 * 60 * 60 * 1000, label: '4小时' },
+  { value: 24 * 60 * 60 * 1000, label: '24小时' }
+];
+
+const DIVERGENCE_LABELS: Record<DivergenceKind, string> = {
+  priceUpOiDown: '价涨仓减',
+  priceDownOiUp: '价跌仓增'
+};
+
+const DIVERGENCE_COLORS: Record<DivergenceKind, string> = {
+  priceUpOiDown: '#ff9800',
+  priceDownOiUp: '#9c27b0'
+};
+
+// 展示的最近背离条数
+const DIVERGENCE_COUNT = 3;
+
+const formatChange = (change: number) => `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`;
+
+const OpenInterest: React.FC<OpenInterestProps> = ({ symbol, interval }) => {
+  const period = getFuturesDataPeriod(interval);
+  const { data: pairs } = useTradingPairs('binance');
+  const current = useOpenInterest(symbol);
+  const premium = usePremiumIndex(symbol);
+  const history = useOpenInterestHistory(symbol, period, PERIODS);
+  const recent = useOpenInterestHistory(symbol, CHANGE_PERIOD, CHANGE_PERIODS);
+  const klines = useKlines('binance', symbol, period, PERIODS);
+  // 变化率窗口随服务器时间滚动
+  const now = useServerNow(10000);
+  const precision = usePrecision('binance', symbol, premium.data?.markPrice);
+
+  // 现货交易对可能没有永续合约，此时没有持仓量
+  const pair = pairs?.find(item => item.symbol === symbol);
+  const spotOnly = (pair !== undefined && !pair.hasFutures)
+    || current.error instanceof InvalidSymbolError
+    || history.error instanceof InvalidSymbolError;
+
+  const points = useMemo(
+    () => joinOpenInterest(klines.data || [], history.data || []),
+    [klines.data, history.data]
+  );
+  const divergences = useMemo(() => detectDivergences(points), [points]);
+
+  const chartData: OpenInterestData[] = points.map(point => ({
+    time: formatDate(point.time, 'MM-DD HH:mm'),
+    close: point.close,
+    openInterestValue: point.openInterestValue
+  }));
+
+  const changes = CHANGE_WINDOWS.map(window => ({
+    ...window,
+    change: current.data && recent.data
+      ? getOpenInterestChange(recent.data, current.data.openInterest, window.value, now)
+      : null
+  }));
+
+  const error = current.error || history.error || recent.error || klines.error;
+  const retry = () => {
+    current.refetch();
+    history.refetch();
+    recent.refetch();
+    klines.refetch();
+  };
+
+  // 自定义工具提示
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const data: OpenInterestData = payload[0].payload;
+      return (
+        <Paper sx={{ p: 1, backgroundColor: '#1e2230', border: '1px solid #2a2e39' }}>
+          <Typography variant="body2" sx={{ color: '#d1d4dc' }}>
+            时间: {data.time}
+          </Typography>
+          <Typography variant="body2" sx={{ color: '#f0b90b' }}>
+            持仓量: ${formatLargeNumber(data.openInterestValue, 2)}
+          </Typography>
+          <Typography variant="body2" sx={{ color: '#d1d4dc' }}>
+            价格: {formatPrice(data.close, precision)}
+          </Typography>
+        </Paper>
+      );
+    }
+    return null;
+  };
+
+  if (spotOnly) {
+    return (
+      <NoticeContainer>
+        <Typography variant="body2">
+          {symbol} 没有永续合约，无持仓量数据
+        </Typography>
+      </NoticeContainer>
+    );
+  }
+
+  if (!history.data && !current.data && !error) {
+    return (
+      <LoadingContainer>
+        <CircularProgress size={40} />
+      </LoadingContainer>
+    );
+  }
+
+  if (!history.data && !current.data) {
+    return <ApiError error={error} onRetry={retry} />;
+  }
+
+  return (
+    <Container>
+      <Typography variant="subtitle2" sx={{ mb: 1, color: '#d1d4dc' }}>
+        {symbol} 持仓量
+        {current.data && (
+          <Typography component="span" variant="caption" sx={{ ml: 1, color: '#787b86' }}>
+            {formatQuantity(current.data.openInterest, precision)}
+            {premium.data && ` · $${formatLargeNumber(current.data.openInterest * premium.data.markPrice, 2)}`}
+          </Typography>
+        )}
+        {error ? <ApiErrorNotice error={error} onRetry={retry} /> : null}
+      </Typography>
+
+      <ChangeContainer>
+        {changes.map(item => (
+          <ChangeBox key={item.label}>
+            <Typography variant="caption" sx={{ color: '#d1d4dc' }}>
+              {item.label}变化
+            </Typography>
+            <ChangeValue change={item.change ?? undefined}>
+              {item.change !== null ? formatChange(item.change) : '-'}
+            </ChangeValue>
+          </ChangeBox>
+        ))}
+      </ChangeContainer>
+
+      <Typography variant="caption" sx={{ color: '#787b86', minHeight: 18 }}>
+        {divergences.length === 0
+          ? `${period} 周期内无量价背离`
+          : divergences.slice(-DIVERGENCE_COUNT).reverse().map(divergence => (
+            <span key={divergence.time} style={{ color: DIVERGENCE_COLORS[divergence.kind], marginRight: 8 }}>
+              {formatDate(divergence.time, 'MM-DD HH:mm')} {DIVERGENCE_LABELS[divergence.kind]}
+              （价格 {formatChange(divergence.priceChange)}，持仓 {formatChange(divergence.openInterestChange)}）
+            </span>
+          ))}
+      </Typography>
+
+      <ChartContainer>
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={chartData}
+            margin={{ top: 5, right: 5, left: 5, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#2a2e39" />
+            <XAxis
+              dataKey="time"
+              tick={{ fill: '#d1d4dc', fontSize: 11 }}
+              axisLine={{ stroke: '#2a2e39' }}
+            />
+            <YAxis
+              yAxisId="openInterest"
+              domain={['auto', 'auto']}
+              tick={{ fill: '#f0b90b', fontSize: 11 }}
+              axisLine={{ stroke: '#2a2e39' }}
+              tickFormatter={(value) => formatLargeNumber(value)}
+            />
+            <YAxis
+              yAxisId="price"
+              orientation="right"
+              domain={['auto', 'auto']}
+              tick={{ fill: '#d1d4dc', fontSize: 11 }}
+              axisLine={{ stroke: '#2a2e39' }}
+              tickFormatter={(value) => formatPrice(value, precision)}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            {/* 量价背离开始的周期 */}
+            {divergences.map(divergence => (
+              <ReferenceLine
+                key={divergence.time}
+                yAxisId="price"
+                x={formatDate(divergence.time, 'MM-DD HH:mm')}
+                stroke={DIVERGENCE_COLORS[divergence.kind]}
+                strokeDasharray="3 3"
+              />
+            ))}
+            <Line
+              yAxisId="openInterest"
+              type="monotone"
+              dataKey="openInterestValue"
+              stroke="#f0b90b"
+              dot={false}
+            />
+            <Line
+              yAxisId="price"
+              type="monotone"
+              dataKey="close"
+              stroke="#d1d4dc"
+              strokeWidth={1}
+              dot={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </ChartContainer>
+    </Container>
+  );
+};
+
+export default OpenInterest;
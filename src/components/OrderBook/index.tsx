@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import styled from 'styled-components';
 import { Box, Typography, CircularProgress, Table, TableBody, TableCell, TableContainer, TableHead, TableRow } from '@mui/material';
-import { fetchOrderBook } from '../../api/binance';
-import { OrderData as OrderDataType } from '../../types/api';
+import ApiError, { ApiErrorNotice } from '../ApiError';
+import { ExchangeId, getExchangeAdapter } from '../../api/exchanges';
+import { getQueryKey, getQueryState, subscribeQuery } from '../../api/marketDataStore';
+import { usePrecision } from '../../hooks/usePrecision';
+import { OrderData as OrderDataType, OrderBook as OrderBookType } from '../../types/api';
+import { formatPrice, formatQuantity } from '../../utils/formatters';
 
 // Styled components
 const Container = styled(Box)`
@@ -26,12 +30,6 @@ const LoadingContainer = styled(Box)`
   height: 100%;
 `;
 
-const ErrorContainer = styled(Box)`
-  color: #ff5252;
-  text-align: center;
-  padding: 16px;
-`;
-
 const StyledTableContainer = styled(TableContainer)`
   flex: 1;
   overflow-y: auto;
@@ -83,9 +81,9 @@ const DepthBar = styled.div<{ width: number; type: 'buy' | 'sell' }>`
 
 // Interface definitions
 interface OrderBookProps {
+  exchange: ExchangeId;
   symbol: string;
   depth?: number;
-  refreshInterval?: number;
 }
 
 interface OrderData {
@@ -95,122 +93,93 @@ interface OrderData {
 }
 
 const OrderBook: React.FC<OrderBookProps> = ({ 
+  exchange,
   symbol, 
-  depth = 10,
-  refreshInterval = 1000
+  depth = 10
 }) => {
   const [asks, setAsks] = useState<OrderData[]>([]);
   const [bids, setBids] = useState<OrderData[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   const [maxTotal, setMaxTotal] = useState<number>(0);
+  const [synced, setSynced] = useState<boolean>(false);
+  // Bumped by the retry button to restart the subscription
+  const [retryCount, setRetryCount] = useState<number>(0);
+  const precision = usePrecision(exchange, symbol, bids.length > 0 ? bids[0].price : undefined);
 
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        // Fetch real data from Binance API
-        const data = await fetchOrderBook(symbol, depth * 2);
-        
-        // Process asks data
-        let askTotal = 0;
-        const processedAsks = data.asks.slice(0, depth).map((ask: OrderDataType) => {
-          askTotal += ask.amount;
-          return {
-            price: ask.price,
-            amount: ask.amount,
-            total: askTotal
-          };
-        });
-        
-        // Process bids data
-        let bidTotal = 0;
-        const processedBids = data.bids.slice(0, depth).map((bid: OrderDataType) => {
-          bidTotal += bid.amount;
-          return {
-            price: bid.price,
-            amount: bid.amount,
-            total: bidTotal
-          };
-        });
-        
-        setAsks(processedAsks);
-        setBids(processedBids);
-        setMaxTotal(Math.max(askTotal, bidTotal));
-        setLoading(false);
-      } catch (err) {
-        console.error('Error fetching order book:', err);
-        setError('Failed to fetch order book data');
-        setLoading(false);
-        
-        // Fallback to mock data if API fails
-        generateMockData();
-      }
-    };
-
-    // Fallback function to generate mock data if API fails
-    const generateMockData = () => {
-      let basePrice = 50000; // Base price
-      
-      if (symbol === 'BTCUSDT') {
-        basePrice = 50000;
-      } else if (symbol === 'ETHUSDT') {
-        basePrice = 3000;
-      } else if (symbol === 'BNBUSDT') {
-        basePrice = 500;
-      } else {
-        basePrice = 100;
-      }
-      
-      const volatility = basePrice * 0.001; // 0.1% volatility
-      
-      // Generate asks data
-      const mockAsks: OrderData[] = [];
+    const applyOrderBook = (data: OrderBookType) => {
+      // Process asks data
       let askTotal = 0;
-      
-      for (let i = 0; i < depth; i++) {
-        const price = basePrice + (i + 1) * volatility;
-        const amount = Math.random() * 2 + 0.1;
-        askTotal += amount;
-        
-        mockAsks.push({
-          price,
-          amount,
+      const processedAsks = data.asks.slice(0, depth).map((ask: OrderDataType) => {
+        askTotal += ask.amount;
+        return {
+          price: ask.price,
+          amount: ask.amount,
           total: askTotal
-        });
-      }
+        };
+      });
       
-      // Generate bids data
-      const mockBids: OrderData[] = [];
+      // Process bids data
       let bidTotal = 0;
-      
-      for (let i = 0; i < depth; i++) {
-        const price = basePrice - (i + 1) * volatility;
-        const amount = Math.random() * 2 + 0.1;
-        bidTotal += amount;
-        
-        mockBids.push({
-          price,
-          amount,
+      const processedBids = data.bids.slice(0, depth).map((bid: OrderDataType) => {
+        bidTotal += bid.amount;
+        return {
+          price: bid.price,
+          amount: bid.amount,
           total: bidTotal
-        });
-      }
+        };
+      });
       
-      setAsks(mockAsks);
-      setBids(mockBids);
+      setAsks(processedAsks);
+      setBids(processedBids);
       setMaxTotal(Math.max(askTotal, bidTotal));
       setLoading(false);
     };
+    
+    const handleError = (err: unknown) => {
+      console.error('Error fetching order book:', err);
+      setError(err);
+      setLoading(false);
+    };
 
-    fetchData();
+    setLoading(true);
+    setError(null);
+    setAsks([]);
+    setBids([]);
+    
+    const adapter = getExchangeAdapter(exchange);
     
-    // Set up interval to refresh data
-    const intervalId = setInterval(fetchData, refreshInterval);
+    // Streaming exchanges keep a local book that applies every depth update
+    if (adapter.subscribeOrderBook) {
+      return adapter.subscribeOrderBook(symbol, depth, {
+        onUpdate: (data: OrderBookType) => {
+          setError(null);
+          applyOrderBook(data);
+        },
+        onError: handleError,
+        onSyncChange: setSynced
+      });
+    }
     
-    return () => clearInterval(intervalId);
-  }, [symbol, depth, refreshInterval]);
+    // Other exchanges are polled through the shared store
+    const key = getQueryKey('orderBook', { exchange, symbol, depth });
+    setSynced(true);
+    return subscribeQuery<OrderBookType>(
+      key,
+      () => adapter.fetchOrderBook(symbol, depth),
+      () => {
+        const state = getQueryState<OrderBookType>(key);
+        if (state.data) {
+          setError(null);
+          applyOrderBook(state.data);
+        } else if (state.error) {
+          handleError(state.error);
+        }
+      },
+      { refreshInterval: 1000 }
+    );
+  }, [exchange, symbol, depth, retryCount]);
 
   if (loading) {
     return (
@@ -220,18 +189,23 @@ const OrderBook: React.FC<OrderBookProps> = ({
     );
   }
 
-  if (error) {
-    return (
-      <ErrorContainer>
-        <Typography variant="body1">{error}</Typography>
-      </ErrorContainer>
-    );
+  const hasData = asks.length > 0 || bids.length > 0;
+  const retry = () => setRetryCount(count => count + 1);
+
+  if (error && !hasData) {
+    return <ApiError error={error} onRetry={retry} />;
   }
 
   return (
     <Container>
       <Typography variant="subtitle2" sx={{ mb: 1, color: '#d1d4dc' }}>
         {symbol} Order Book
+        {error ? <ApiErrorNotice error={error} onRetry={retry} /> : null}
+        {!synced && !error && (
+          <Typography component="span" variant="caption" sx={{ ml: 1, color: '#ff9800' }}>
+            Resyncing...
+          </Typography>
+        )}
       </Typography>
       
       <OrderBookContainer>
@@ -248,16 +222,16 @@ const OrderBook: React.FC<OrderBookProps> = ({
               {asks.slice().reverse().map((ask, index) => (
                 <TableRow key={`ask-${index}`} sx={{ position: 'relative' }}>
                   <DepthBar width={(ask.total / maxTotal) * 100} type="sell" />
-                  <PriceCell align="right" type="sell">{ask.price.toFixed(2)}</PriceCell>
-                  <StyledTableCell align="right">{ask.amount.toFixed(4)}</StyledTableCell>
-                  <StyledTableCell align="right">{ask.total.toFixed(4)}</StyledTableCell>
+                  <PriceCell align="right" type="sell">{formatPrice(ask.price, precision)}</PriceCell>
+                  <StyledTableCell align="right">{formatQuantity(ask.amount, precision)}</StyledTableCell>
+                  <StyledTableCell align="right">{formatQuantity(ask.total, precision)}</StyledTableCell>
                 </TableRow>
               ))}
               
               <TableRow>
                 <StyledTableCell colSpan={3} align="center" sx={{ py: 1 }}>
                   <Typography variant="body2" sx={{ color: '#d1d4dc', fontWeight: 'bold' }}>
-                    {bids.length > 0 ? bids[0].price.toFixed(2) : '0.00'}
+                    {bids.length > 0 ? formatPrice(bids[0].price, precision) : '-'}
                   </Typography>
                 </StyledTableCell>
               </TableRow>
@@ -265,9 +239,9 @@ const OrderBook: React.FC<OrderBookProps> = ({
               {bids.map((bid, index) => (
                 <TableRow key={`bid-${index}`} sx={{ position: 'relative' }}>
                   <DepthBar width={(bid.total / maxTotal) * 100} type="buy" />
-                  <PriceCell align="right" type="buy">{bid.price.toFixed(2)}</PriceCell>
-                  <StyledTableCell align="right">{bid.amount.toFixed(4)}</StyledTableCell>
-                  <StyledTableCell align="right">{bid.total.toFixed(4)}</StyledTableCell>
+                  <PriceCell align="right" type="buy">{formatPrice(bid.price, precision)}</PriceCell>
+                  <StyledTableCell align="right">{formatQuantity(bid.amount, precision)}</StyledTableCell>
+                  <StyledTableCell align="right">{formatQuantity(bid.total, precision)}</StyledTableCell>
                 </TableRow>
               ))}
             </TableBody>
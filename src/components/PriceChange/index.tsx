@@ -1,10 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import styled from 'styled-components';
 import { Box, Typography, CircularProgress, Grid, Paper } from '@mui/material';
 import { ArrowDropUp, ArrowDropDown } from '@mui/icons-material';
-import { fetch24hTickerPriceChange } from '../../api/binance';
-import { TickerPriceChange as TickerPriceChangeType } from '../../types/api';
-import { formatLargeNumber } from '../../utils/formatters';
+import ApiError, { ApiErrorNotice } from '../ApiError';
+import { ExchangeId } from '../../api/exchanges';
+import { useTicker } from '../../hooks/useMarketData';
+import { usePrecision } from '../../hooks/usePrecision';
+import { formatLargeNumber, formatPrice } from '../../utils/formatters';
 
 // Styled components
 const Container = styled(Box)`
@@ -52,16 +54,10 @@ const LoadingContainer = styled(Box)`
   height: 100%;
 `;
 
-const ErrorContainer = styled(Box)`
-  color: #ff5252;
-  text-align: center;
-  padding: 16px;
-`;
-
 // Interface definitions
 interface PriceChangeProps {
+  exchange: ExchangeId;
   symbol: string;
-  refreshInterval?: number;
 }
 
 interface PriceStats {
@@ -74,87 +70,23 @@ interface PriceStats {
   quoteVolume: number;
 }
 
-const PriceChange: React.FC<PriceChangeProps> = ({ symbol, refreshInterval = 10000 }) => {
-  const [stats, setStats] = useState<PriceStats | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        // Fetch real data from Binance API
-        const data: TickerPriceChangeType = await fetch24hTickerPriceChange(symbol);
-        
-        // Transform the data to match our component's expected format
-        const priceStats: PriceStats = {
-          lastPrice: data.lastPrice,
-          priceChange: data.priceChange,
-          priceChangePercent: data.priceChangePercent,
-          highPrice: data.highPrice,
-          lowPrice: data.lowPrice,
-          volume: data.volume,
-          quoteVolume: data.quoteVolume
-        };
-        
-        setStats(priceStats);
-        setLoading(false);
-      } catch (err) {
-        console.error('Error fetching price stats:', err);
-        setError('Failed to fetch price data');
-        setLoading(false);
-        
-        // Fallback to mock data if API fails
-        generateMockData();
-      }
-    };
-
-    // Fallback function to generate mock data if API fails
-    const generateMockData = () => {
-      let basePrice = 50000; // Base price
-      
-      if (symbol === 'BTCUSDT') {
-        basePrice = 50000;
-      } else if (symbol === 'ETHUSDT') {
-        basePrice = 3000;
-      } else if (symbol === 'BNBUSDT') {
-        basePrice = 500;
-      } else {
-        basePrice = 100;
-      }
-      
-      const volatility = basePrice * 0.05; // 5% volatility
-      const lastPrice = basePrice + (Math.random() - 0.5) * volatility;
-      const priceChange = (Math.random() - 0.5) * volatility;
-      const priceChangePercent = (priceChange / basePrice) * 100;
-      const highPrice = lastPrice + Math.random() * volatility * 0.5;
-      const lowPrice = lastPrice - Math.random() * volatility * 0.5;
-      const volume = Math.floor(Math.random() * 10000) + 1000;
-      const quoteVolume = volume * lastPrice;
-      
-      const mockStats: PriceStats = {
-        lastPrice,
-        priceChange,
-        priceChangePercent,
-        highPrice,
-        lowPrice,
-        volume,
-        quoteVolume
-      };
-      
-      setStats(mockStats);
-      setLoading(false);
-    };
-
-    fetchData();
-    
-    // Set up interval to refresh data
-    const intervalId = setInterval(fetchData, refreshInterval);
-    
-    return () => clearInterval(intervalId);
-  }, [symbol, refreshInterval]);
+const PriceChange: React.FC<PriceChangeProps> = ({ exchange, symbol }) => {
+  // Statistics come from the shared store, which the ticker stream keeps live
+  const { data, error, refetch } = useTicker(exchange, symbol);
+  const precision = usePrecision(exchange, symbol, data?.lastPrice);
+  
+  // Transform the data to match our component's expected format
+  const stats: PriceStats | null = data ? {
+    lastPrice: data.lastPrice,
+    priceChange: data.priceChange,
+    priceChangePercent: data.priceChangePercent,
+    highPrice: data.highPrice,
+    lowPrice: data.lowPrice,
+    volume: data.volume,
+    quoteVolume: data.quoteVolume
+  } : null;
+  
+  const loading = !data && !error;
 
   if (loading) {
     return (
@@ -164,18 +96,15 @@ const PriceChange: React.FC<PriceChangeProps> = ({ symbol, refreshInterval = 100
     );
   }
 
-  if (error) {
-    return (
-      <ErrorContainer>
-        <Typography variant="body1">{error}</Typography>
-      </ErrorContainer>
-    );
+  if (!stats) {
+    return <ApiError error={error} onRetry={refetch} />;
   }
 
   return (
     <Container>
       <Typography variant="subtitle2" sx={{ mb: 1, color: '#d1d4dc' }}>
         {symbol} 24h Price Change
+        {error ? <ApiErrorNotice error={error} onRetry={refetch} /> : null}
       </Typography>
       
       {stats && (
@@ -184,7 +113,7 @@ const PriceChange: React.FC<PriceChangeProps> = ({ symbol, refreshInterval = 100
             <StatBox>
               <StatLabel>Last Price</StatLabel>
               <StatValue>
-                {stats.lastPrice.toFixed(2)}
+                {formatPrice(stats.lastPrice, precision)}
               </StatValue>
             </StatBox>
           </Grid>
@@ -194,7 +123,7 @@ const PriceChange: React.FC<PriceChangeProps> = ({ symbol, refreshInterval = 100
               <StatLabel>Price Change</StatLabel>
               <StatValue isPositive={stats.priceChange >= 0}>
                 {stats.priceChange >= 0 ? <ArrowDropUp /> : <ArrowDropDown />}
-                {stats.priceChange.toFixed(2)} ({stats.priceChangePercent.toFixed(2)}%)
+                {formatPrice(stats.priceChange, precision)} ({stats.priceChangePercent.toFixed(2)}%)
               </StatValue>
             </StatBox>
           </Grid>
@@ -203,7 +132,7 @@ const PriceChange: React.FC<PriceChangeProps> = ({ symbol, refreshInterval = 100
             <StatBox>
               <StatLabel>24h High</StatLabel>
               <StatValue>
-                {stats.highPrice.toFixed(2)}
+                {formatPrice(stats.highPrice, precision)}
               </StatValue>
             </StatBox>
           </Grid>
@@ -212,7 +141,7 @@ const PriceChange: React.FC<PriceChangeProps> = ({ symbol, refreshInterval = 100
             <StatBox>
               <StatLabel>24h Low</StatLabel>
               <StatValue>
-                {stats.lowPrice.toFixed(2)}
+                {formatPrice(stats.lowPrice, precision)}
               </StatValue>
             </StatBox>
           </Grid>
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Autocomplete, Box, TextField, Typography } from '@mui/material';
+import { createFilterOptions } from '@mui/material/Autocomplete';
+import { ExchangeId } from '../../api/exchanges';
+import { useTradingPairs } from '../../hooks/useMarketData';
+import { TradingPair } from '../../types/api';
+
+// Interface definitions
+interface SymbolPickerProps {
+  exchange: ExchangeId;
+  value: string;
+  onChange: (symbol: string) => void;
+}
+
+// Quote assets listed first; the rest follow alphabetically
+const QUOTE_ASSET_ORDER = ['USDT', 'USDC', 'FDUSD', 'BTC', 'ETH', 'BNB'];
+
+const quoteAssetRank = (asset: string) => {
+  const index = QUOTE_ASSET_ORDER.indexOf(asset);
+  return index === -1 ? QUOTE_ASSET_ORDER.length : index;
+};
+
+// Grouping requires options sorted by group
+const compareByQuoteAsset = (a: TradingPair, b: TradingPair) => {
+  return quoteAssetRank(a.quoteAsset) - quoteAssetRank(b.quoteAsset)
+    || a.quoteAsset.localeCompare(b.quoteAsset)
+    || a.symbol.localeCompare(b.symbol);
+};
+
+// Rendering a few thousand options at once makes typing sluggish
+const filterOptions = createFilterOptions<TradingPair>({
+  limit: 200,
+  stringify: pair => `${pair.symbol} ${pair.baseAsset}/${pair.quoteAsset}`
+});
+
+// Stand-in for a symbol that is not in the listing (still loading or typed by hand)
+const toPair = (symbol: string): TradingPair => ({
+  symbol,
+  status: 'TRADING',
+  baseAsset: symbol,
+  quoteAsset: '',
+  tickSize: 0,
+  stepSize: 0,
+  priceDecimals: 0,
+  quantityDecimals: 0,
+  hasFutures: false
+});
+
+const SymbolPicker: React.FC<SymbolPickerProps> = ({ exchange, value, onChange }) => {
+  const { data, error, isFetching } = useTradingPairs(exchange);
+
+  const options = React.useMemo(() => (data ? [...data].sort(compareByQuoteAsset) : []), [data]);
+  const selected = options.find(pair => pair.symbol === value) || toPair(value);
+
+  return (
+    <Autocomplete<TradingPair, false, true, true>
+      size="small"
+      sx={{ width: 220 }}
+      options={options}
+      value={selected}
+      disableClearable
+      // Without the listing (offline, demo mode) any symbol can still be typed in
+      freeSolo
+      autoHighlight
+      loading={isFetching && !data}
+      groupBy={pair => pair.quoteAsset}
+      filterOptions={filterOptions}
+      getOptionLabel={pair => (typeof pair === 'string' ? pair : pair.symbol)}
+      isOptionEqualToValue={(option, current) => option.symbol === current.symbol}
+      onChange={(_, next) => {
+        const symbol = (typeof next === 'string' ? next : next.symbol).trim().toUpperCase();
+        if (symbol) {
+          onChange(symbol);
+        }
+      }}
+      renderOption={(props, pair) => {
+        const { key, ...optionProps } = props as React.HTMLAttributes<HTMLLIElement> & { key: string };
+        return (
+          <Box component="li" key={key} {...optionProps} sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Typography variant="body2">
+              {pair.baseAsset}
+              <Typography component="span" variant="body2" sx={{ color: '#787b86' }}>
+                /{pair.quoteAsset}
+              </Typography>
+            </Typography>
+            {pair.hasFutures && (
+              <Typography variant="caption" sx={{ color: '#f0b90b', ml: 1 }}>
+                PERP
+              </Typography>
+            )}
+          </Box>
+        );
+      }}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label="Trading Pair"
+          helperText={error ? 'Pair list unavailable' : undefined}
+          sx={{
+            '& .MuiOutlinedInput-notchedOutline': {
+              borderColor: '#2a2e39'
+            },
+            '&:hover .MuiOutlinedInput-notchedOutline': {
+              borderColor: '#3a3f4c'
+            },
+            '& .MuiFormHelperText-root': {
+              position: 'absolute',
+              top: '100%',
+              m: 0
+            }
+          }}
+        />
+      )}
+    />
+  );
+};
+
+export default SymbolPicker;
@@ -1,7 +1,30 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import styled from 'styled-components';
-import { Box, Typography, CircularProgress, Paper } from '@mui/material';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Paper,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
+} from '@mui/material';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import ApiError, { ApiErrorNotice } from '../ApiError';
+import {
+  classifyTrades,
+  getPercentileThresholds,
+  SizeClass,
+  SizeThresholds
+} from '../../api/tradeFlow';
+import { useTradingPairs } from '../../hooks/useMarketData';
+import { useTradeWindow } from '../../hooks/useTradeWindow';
+import { formatLargeNumber } from '../../utils/formatters';
 
 // 样式组件
 const Container = styled(Box)`
@@ -11,6 +34,26 @@ const Container = styled(Box)`
   flex-direction: column;
 `;
 
+const HeaderContainer = styled(Box)`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
+`;
+
+const ControlsContainer = styled(Box)`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 8px;
+`;
+
+const ContentContainer = styled(Box)`
+  flex: 1;
+  display: flex;
+  min-height: 0;
+`;
+
 const ChartContainer = styled(Box)`
   flex: 1;
   display: flex;
@@ -18,6 +61,13 @@ const ChartContainer = styled(Box)`
   justify-content: center;
 `;
 
+const StyledTableCell = styled(TableCell)`
+  color: #d1d4dc;
+  border-bottom: 1px solid #2a2e39;
+  padding: 4px 8px;
+  font-size: 0.75rem;
+`;
+
 const LoadingContainer = styled(Box)`
   display: flex;
   align-items: center;
@@ -25,19 +75,12 @@ const LoadingContainer = styled(Box)`
   height: 100%;
 `;
 
-const ErrorContainer = styled(Box)`
-  color: #ff5252;
-  text-align: center;
-  padding: 16px;
-`;
-
 // 颜色配置
 const COLORS = ['#4caf50', '#f44336', '#2196f3', '#ff9800', '#9c27b0', '#607d8b'];
 
 // 接口定义
 interface TradeVolumeProps {
   symbol: string;
-  refreshInterval?: number;
 }
 
 interface VolumeData {
@@ -45,46 +88,65 @@ interface VolumeData {
   value: number;
 }
 
-const TradeVolume: React.FC<TradeVolumeProps> = ({ symbol, refreshInterval = 5000 }) => {
-  const [volumeData, setVolumeData] = useState<VolumeData[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+type ThresholdMode = 'auto' | 'custom';
 
+// 统计窗口选项
+const WINDOWS = [
+  { value: 60 * 1000, label: '1m' },
+  { value: 5 * 60 * 1000, label: '5m' },
+  { value: 15 * 60 * 1000, label: '15m' },
+  { value: 60 * 60 * 1000, label: '1h' }
+];
+
+const CLASS_LABELS: Record<SizeClass, string> = {
+  large: '大单',
+  medium: '中单',
+  small: '小单'
+};
+
+const TradeVolume: React.FC<TradeVolumeProps> = ({ symbol }) => {
+  const [windowMs, setWindowMs] = useState<number>(WINDOWS[1].value);
+  const [mode, setMode] = useState<ThresholdMode>('auto');
+  // 自定义阈值以计价资产计，切换到自定义时取当前分位数作为初始值
+  const [customThresholds, setCustomThresholds] = useState<SizeThresholds | null>(null);
+  const { trades, error, loading, complete, retry } = useTradeWindow(symbol, windowMs);
+  const { data: pairs } = useTradingPairs('binance');
+
+  // 成交额以交易对的计价资产计，不一定是美元
+  const quoteAsset = pairs?.find(item => item.symbol === symbol)?.quoteAsset ?? '';
+  const formatNotional = (value: number, decimals: number) => `${formatLargeNumber(value, decimals)} ${quoteAsset}`.trim();
+
+  // 自动模式按该交易对的成交额分位数划分
+  const percentileThresholds = useMemo(() => getPercentileThresholds(trades), [trades]);
+  const thresholds = mode === 'custom' && customThresholds ? customThresholds : percentileThresholds;
+
+  // 不同交易对的价格量级不同，切换交易对后重新取分位数
   useEffect(() => {
-    const fetchVolumeData = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        // 模拟API调用 - 在实际应用中替换为真实的API调用
-        // 例如: const response = await fetch(`https://api.binance.com/api/v3/trades?symbol=${symbol}&limit=1000`);
-        
-        // 生成模拟数据
-        const mockData: VolumeData[] = [
-          { name: '大单买入', value: Math.floor(Math.random() * 1000) + 500 },
-          { name: '大单卖出', value: Math.floor(Math.random() * 800) + 300 },
-          { name: '中单买入', value: Math.floor(Math.random() * 600) + 200 },
-          { name: '中单卖出', value: Math.floor(Math.random() * 500) + 150 },
-          { name: '小单买入', value: Math.floor(Math.random() * 300) + 100 },
-          { name: '小单卖出', value: Math.floor(Math.random() * 200) + 50 },
-        ];
-        
-        setVolumeData(mockData);
-        setLoading(false);
-      } catch (err) {
-        console.error('Error fetching volume data:', err);
-        setError('获取交易量数据失败');
-        setLoading(false);
-      }
-    };
-
-    fetchVolumeData();
-    
-    // 设置定时刷新
-    const intervalId = setInterval(fetchVolumeData, refreshInterval);
-    
-    return () => clearInterval(intervalId);
-  }, [symbol, refreshInterval]);
+    setMode('auto');
+    setCustomThresholds(null);
+  }, [symbol]);
+
+  const flows = useMemo(() => classifyTrades(trades, thresholds), [trades, thresholds]);
+
+  const volumeData: VolumeData[] = flows.flatMap(flow => [
+    { name: `${CLASS_LABELS[flow.sizeClass]}买入`, value: flow.buyVolume },
+    { name: `${CLASS_LABELS[flow.sizeClass]}卖出`, value: flow.sellVolume }
+  ]);
+
+  const updateThreshold = (key: keyof SizeThresholds, value: string) => {
+    const amount = parseFloat(value);
+    setCustomThresholds({ ...thresholds, [key]: isNaN(amount) ? 0 : amount });
+  };
+
+  const changeMode = (value: ThresholdMode) => {
+    if (value === 'custom' && !customThresholds) {
+      setCustomThresholds({
+        medium: Math.round(percentileThresholds.medium),
+        large: Math.round(percentileThresholds.large)
+      });
+    }
+    setMode(value);
+  };
 
   // 自定义工具提示
   const CustomTooltip = ({ active, payload }: any) => {
@@ -92,7 +154,7 @@ const TradeVolume: React.FC<TradeVolumeProps> = ({ symbol, refreshInterval = 500
       return (
         <Paper sx={{ p: 1, backgroundColor: '#1e2230', border: '1px solid #2a2e39' }}>
           <Typography variant="body2" sx={{ color: '#d1d4dc' }}>
-            {payload[0].name}: {payload[0].value.toLocaleString()}
+            {payload[0].name}: {formatNotional(payload[0].value, 2)}
           </Typography>
         </Paper>
       );
@@ -100,7 +162,7 @@ const TradeVolume: React.FC<TradeVolumeProps> = ({ symbol, refreshInterval = 500
     return null;
   };
 
-  if (loading) {
+  if (loading && trades.length === 0) {
     return (
       <LoadingContainer>
         <CircularProgress size={40} />
@@ -108,43 +170,114 @@ const TradeVolume: React.FC<TradeVolumeProps> = ({ symbol, refreshInterval = 500
     );
   }
 
-  if (error) {
-    return (
-      <ErrorContainer>
-        <Typography variant="body1">{error}</Typography>
-      </ErrorContainer>
-    );
+  if (error && trades.length === 0) {
+    return <ApiError error={error} onRetry={retry} />;
   }
 
   return (
     <Container>
-      <Typography variant="subtitle2" sx={{ mb: 1, color: '#d1d4dc' }}>
-        {symbol} 交易量分类
-      </Typography>
-      
-      <ChartContainer>
-        <ResponsiveContainer width="100%" height="100%">
-          <PieChart>
-            <Pie
-              data={volumeData}
-              cx="50%"
-              cy="50%"
-              labelLine={false}
-              outerRadius={80}
-              fill="#8884d8"
-              dataKey="value"
-            >
-              {volumeData.map((entry, index) => (
-                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+      <HeaderContainer>
+        <Typography variant="subtitle2" sx={{ color: '#d1d4dc' }}>
+          {symbol} 交易量分类
+          <Typography component="span" variant="caption" sx={{ ml: 1, color: '#787b86' }}>
+            {trades.length.toLocaleString()} 笔{!complete && '（较早成交未回补）'}
+          </Typography>
+          {error ? <ApiErrorNotice error={error} onRetry={retry} /> : null}
+        </Typography>
+
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={windowMs}
+          onChange={(_, value) => value !== null && setWindowMs(value)}
+        >
+          {WINDOWS.map(option => (
+            <ToggleButton key={option.label} value={option.value} sx={{ py: 0.25, px: 1 }}>
+              {option.label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </HeaderContainer>
+
+      <ControlsContainer>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={mode}
+          onChange={(_, value) => value !== null && changeMode(value)}
+        >
+          <ToggleButton value="auto" sx={{ py: 0.25, px: 1 }}>自动分位</ToggleButton>
+          <ToggleButton value="custom" sx={{ py: 0.25, px: 1 }}>自定义</ToggleButton>
+        </ToggleButtonGroup>
+        {(['medium', 'large'] as const).map(key => (
+          <TextField
+            key={key}
+            size="small"
+            type="number"
+            label={`${CLASS_LABELS[key]} ≥ ${quoteAsset}`.trim()}
+            value={mode === 'auto' ? Math.round(thresholds[key]) : thresholds[key]}
+            disabled={mode === 'auto'}
+            onChange={(e) => updateThreshold(key, e.target.value)}
+            inputProps={{ min: 0, style: { padding: '2px 6px', fontSize: '0.75rem' } }}
+            InputLabelProps={{ shrink: true }}
+            sx={{ width: 100 }}
+          />
+        ))}
+      </ControlsContainer>
+
+      <ContentContainer>
+        <ChartContainer>
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie
+                data={volumeData}
+                cx="50%"
+                cy="50%"
+                labelLine={false}
+                outerRadius={70}
+                fill="#8884d8"
+                dataKey="value"
+              >
+                {volumeData.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                ))}
+              </Pie>
+              <Tooltip content={<CustomTooltip />} />
+              <Legend wrapperStyle={{ fontSize: '0.7rem' }} />
+            </PieChart>
+          </ResponsiveContainer>
+        </ChartContainer>
+
+        <Box sx={{ flex: 1, alignSelf: 'center' }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <StyledTableCell />
+                <StyledTableCell align="right">买入</StyledTableCell>
+                <StyledTableCell align="right">卖出</StyledTableCell>
+                <StyledTableCell align="right">净流入</StyledTableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {flows.map(flow => (
+                <TableRow key={flow.sizeClass}>
+                  <StyledTableCell>{CLASS_LABELS[flow.sizeClass]}</StyledTableCell>
+                  <StyledTableCell align="right">{formatNotional(flow.buyVolume, 1)}</StyledTableCell>
+                  <StyledTableCell align="right">{formatNotional(flow.sellVolume, 1)}</StyledTableCell>
+                  <StyledTableCell
+                    align="right"
+                    sx={{ color: flow.netFlow >= 0 ? '#4caf50 !important' : '#f44336 !important' }}
+                  >
+                    {flow.netFlow >= 0 ? '+' : '-'}{formatNotional(Math.abs(flow.netFlow), 1)}
+                  </StyledTableCell>
+                </TableRow>
               ))}
-            </Pie>
-            <Tooltip content={<CustomTooltip />} />
-            <Legend />
-          </PieChart>
-        </ResponsiveContainer>
-      </ChartContainer>
+            </TableBody>
+          </Table>
+        </Box>
+      </ContentContainer>
     </Container>
   );
 };
 
-export default TradeVolume; 
\ No newline at end of file
+export default TradeVolume;
@@ -1,7 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useMemo, useState } from 'react';
 import styled from 'styled-components';
-import { Box, Typography, CircularProgress } from '@mui/material';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Box, Typography, CircularProgress, ToggleButton, ToggleButtonGroup } from '@mui/material';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import ApiError, { ApiErrorNotice } from '../ApiError';
+import { hasTakerSplit } from '../../api/cvd';
+import { ExchangeId } from '../../api/exchanges';
+import { computeVolumePulse, VolumePulsePoint } from '../../api/volumePulse';
+import { useKlines } from '../../hooks/useMarketData';
+import { usePrecision } from '../../hooks/usePrecision';
+import { formatDate, formatLargeNumber, formatPrice } from '../../utils/formatters';
+import { getIntervalTimeFormat } from '../../utils/intervals';
 
 // 样式组件
 const Container = styled(Box)`
@@ -11,8 +19,30 @@ const Container = styled(Box)`
   flex-direction: column;
 `;
 
+const HeaderContainer = styled(Box)`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
+`;
+
+const ContentContainer = styled(Box)`
+  flex: 1;
+  display: flex;
+  min-height: 0;
+`;
+
 const ChartContainer = styled(Box)`
+  flex: 2;
+`;
+
+const SpikeList = styled(Box)`
   flex: 1;
+  margin-left: 8px;
+  padding-left: 8px;
+  border-left: 1px solid #2a2e39;
+  overflow-y: auto;
+  min-width: 0;
 `;
 
 const LoadingContainer = styled(Box)`
@@ -22,126 +52,86 @@ const LoadingContainer = styled(Box)`
   height: 100%;
 `;
 
-const ErrorContainer = styled(Box)`
-  color: #ff5252;
-  text-align: center;
-  padding: 16px;
-`;
-
 // 接口定义
 interface VolumePulseProps {
+  exchange: ExchangeId;
   symbol: string;
   interval: string;
 }
 
-interface VolumeData {
-  time: string;
-  volume: number;
-  buyVolume: number;
-  sellVolume: number;
+interface VolumeData extends VolumePulsePoint {
+  label: string;
 }
 
-const VolumePulse: React.FC<VolumePulseProps> = ({ symbol, interval }) => {
-  const [volumeData, setVolumeData] = useState<VolumeData[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchVolumeData = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        // 模拟API调用 - 在实际应用中替换为真实的API调用
-        // 例如: const response = await fetch(`https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${interval}&limit=20`);
-        
-        // 生成模拟数据
-        const mockData: VolumeData[] = [];
-        const now = new Date();
-        
-        for (let i = 0; i < 20; i++) {
-          const time = new Date(now.getTime() - (19 - i) * getIntervalMilliseconds(interval));
-          const totalVolume = Math.floor(Math.random() * 100) + 20;
-          const buyRatio = Math.random() * 0.6 + 0.2; // 20% - 80%
-          const buyVolume = Math.floor(totalVolume * buyRatio);
-          const sellVolume = totalVolume - buyVolume;
-          
-          mockData.push({
-            time: formatTime(time, interval),
-            volume: totalVolume,
-            buyVolume,
-            sellVolume
-          });
-        }
-        
-        setVolumeData(mockData);
-        setLoading(false);
-      } catch (err) {
-        console.error('Error fetching volume data:', err);
-        setError('获取成交量数据失败');
-        setLoading(false);
-      }
-    };
-
-    fetchVolumeData();
-  }, [symbol, interval]);
-
-  // 根据时间间隔获取毫秒数
-  const getIntervalMilliseconds = (interval: string): number => {
-    const value = parseInt(interval.slice(0, -1));
-    const unit = interval.slice(-1);
-    
-    switch (unit) {
-      case 'm': return value * 60 * 1000;
-      case 'h': return value * 60 * 60 * 1000;
-      case 'd': return value * 24 * 60 * 60 * 1000;
-      case 'w': return value * 7 * 24 * 60 * 60 * 1000;
-      default: return 60 * 1000; // 默认1分钟
-    }
-  };
+// 计算滚动Z分数需要额外的历史K线
+const CANDLES = 120;
+const VISIBLE_CANDLES = 60;
 
-  // 格式化时间
-  const formatTime = (date: Date, interval: string): string => {
-    const unit = interval.slice(-1);
-    
-    if (unit === 'm') {
-      return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
-    } else if (unit === 'h') {
-      return `${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')} ${date.getHours().toString().padStart(2, '0')}:00`;
-    } else {
-      return `${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
-    }
-  };
+// 异常阈值选项（标准差倍数）
+const SIGMA_OPTIONS = [2, 2.5, 3];
+
+// 展示的最近异常条数
+const SPIKE_COUNT = 6;
+
+const formatScore = (score: number | null) => (score === null ? '-' : `${score >= 0 ? '+' : ''}${score.toFixed(1)}σ`);
+
+const VolumePulse: React.FC<VolumePulseProps> = ({ exchange, symbol, interval }) => {
+  const [sigma, setSigma] = useState<number>(2.5);
+  const { data, error, refetch } = useKlines(exchange, symbol, interval, CANDLES);
+  const precision = usePrecision(exchange, symbol, data && data.length > 0 ? data[data.length - 1].close : undefined);
+
+  const points: VolumeData[] = useMemo(() => {
+    return computeVolumePulse(data || [], { sigma }).map(point => ({
+      ...point,
+      label: formatDate(point.time, getIntervalTimeFormat(interval))
+    }));
+  }, [data, sigma, interval]);
+
+  const visible = points.slice(-VISIBLE_CANDLES);
+  const spikes = points.filter(point => point.isPulse).slice(-SPIKE_COUNT).reverse();
+
+  // 部分交易所的K线不提供主动买入量，此时只按总量判断异常
+  const takerSplit = useMemo(() => hasTakerSplit(data || []), [data]);
 
   // 自定义工具提示
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
+      const point: VolumeData = payload[0].payload;
       return (
-        <Box sx={{ 
-          backgroundColor: '#1e2230', 
+        <Box sx={{
+          backgroundColor: '#1e2230',
           border: '1px solid #2a2e39',
           p: 1,
           borderRadius: 1
         }}>
           <Typography variant="caption" sx={{ color: '#d1d4dc', display: 'block' }}>
-            时间: {payload[0].payload.time}
-          </Typography>
-          <Typography variant="caption" sx={{ color: '#4caf50', display: 'block' }}>
-            买入量: {payload[0].payload.buyVolume}
-          </Typography>
-          <Typography variant="caption" sx={{ color: '#f44336', display: 'block' }}>
-            卖出量: {payload[0].payload.sellVolume}
+            时间: {point.label}
           </Typography>
+          {point.buyVolume !== null && point.sellVolume !== null && (
+            <>
+              <Typography variant="caption" sx={{ color: '#4caf50', display: 'block' }}>
+                买入量: {formatLargeNumber(point.buyVolume, 2)}
+              </Typography>
+              <Typography variant="caption" sx={{ color: '#f44336', display: 'block' }}>
+                卖出量: {formatLargeNumber(point.sellVolume, 2)}
+              </Typography>
+            </>
+          )}
           <Typography variant="caption" sx={{ color: '#d1d4dc', display: 'block' }}>
-            总量: {payload[0].payload.volume}
+            总量: {formatLargeNumber(point.volume, 2)} ({formatScore(point.volumeZ)})
           </Typography>
+          {point.delta !== null && (
+            <Typography variant="caption" sx={{ color: '#d1d4dc', display: 'block' }}>
+              净主动量: {formatScore(point.deltaZ)}
+            </Typography>
+          )}
         </Box>
       );
     }
     return null;
   };
 
-  if (loading) {
+  if (!data && !error) {
     return (
       <LoadingContainer>
         <CircularProgress size={40} />
@@ -149,45 +139,114 @@ const VolumePulse: React.FC<VolumePulseProps> = ({ symbol, interval }) => {
     );
   }
 
-  if (error) {
-    return (
-      <ErrorContainer>
-        <Typography variant="body1">{error}</Typography>
-      </ErrorContainer>
-    );
+  if (!data) {
+    return <ApiError error={error} onRetry={refetch} />;
   }
 
   return (
     <Container>
-      <Typography variant="subtitle2" sx={{ mb: 1, color: '#d1d4dc' }}>
-        {symbol} {interval} 成交量脉冲
-      </Typography>
-      
-      <ChartContainer>
-        <ResponsiveContainer width="100%" height="100%">
-          <BarChart
-            data={volumeData}
-            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-            barGap={0}
-          >
-            <CartesianGrid strokeDasharray="3 3" stroke="#2a2e39" />
-            <XAxis 
-              dataKey="time" 
-              tick={{ fill: '#d1d4dc' }} 
-              axisLine={{ stroke: '#2a2e39' }}
-            />
-            <YAxis 
-              tick={{ fill: '#d1d4dc' }} 
-              axisLine={{ stroke: '#2a2e39' }}
-            />
-            <Tooltip content={<CustomTooltip />} />
-            <Bar dataKey="buyVolume" stackId="a" fill="#4caf50" />
-            <Bar dataKey="sellVolume" stackId="a" fill="#f44336" />
-          </BarChart>
-        </ResponsiveContainer>
-      </ChartContainer>
+      <HeaderContainer>
+        <Typography variant="subtitle2" sx={{ color: '#d1d4dc' }}>
+          {symbol} {interval} 成交量脉冲
+          {data.length > 0 && !takerSplit && (
+            <Typography component="span" variant="caption" sx={{ ml: 1, color: '#ff9800' }}>
+              无主动买卖拆分，仅按总量判断
+            </Typography>
+          )}
+          {error ? <ApiErrorNotice error={error} onRetry={refetch} /> : null}
+        </Typography>
+
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={sigma}
+          onChange={(_, value) => value !== null && setSigma(value)}
+        >
+          {SIGMA_OPTIONS.map(option => (
+            <ToggleButton key={option} value={option} sx={{ py: 0.25, px: 1 }}>
+              {option}σ
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </HeaderContainer>
+
+      <ContentContainer>
+        <ChartContainer>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart
+              data={visible}
+              margin={{ top: 5, right: 10, left: 0, bottom: 5 }}
+              barGap={0}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#2a2e39" />
+              <XAxis
+                dataKey="label"
+                tick={{ fill: '#d1d4dc', fontSize: 11 }}
+                axisLine={{ stroke: '#2a2e39' }}
+              />
+              <YAxis
+                tick={{ fill: '#d1d4dc', fontSize: 11 }}
+                axisLine={{ stroke: '#2a2e39' }}
+                tickFormatter={(value) => formatLargeNumber(value)}
+              />
+              <Tooltip content={<CustomTooltip />} />
+              {/* 异常K线高亮，其余K线调暗；没有主动买卖拆分时只画总量 */}
+              {takerSplit ? [
+                <Bar key="buyVolume" dataKey="buyVolume" stackId="a">
+                  {visible.map(point => (
+                    <Cell key={point.time} fill="#4caf50" fillOpacity={point.isPulse ? 1 : 0.35} />
+                  ))}
+                </Bar>,
+                <Bar key="sellVolume" dataKey="sellVolume" stackId="a">
+                  {visible.map(point => (
+                    <Cell key={point.time} fill="#f44336" fillOpacity={point.isPulse ? 1 : 0.35} />
+                  ))}
+                </Bar>
+              ] : (
+                <Bar dataKey="volume">
+                  {visible.map(point => (
+                    <Cell key={point.time} fill="#2196f3" fillOpacity={point.isPulse ? 1 : 0.35} />
+                  ))}
+                </Bar>
+              )}
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartContainer>
+
+        <SpikeList>
+          <Typography variant="caption" sx={{ color: '#787b86', display: 'block', mb: 0.5 }}>
+            最近异常
+          </Typography>
+          {spikes.length === 0 && (
+            <Typography variant="caption" sx={{ color: '#787b86' }}>
+              暂无超过 {sigma}σ 的K线
+            </Typography>
+          )}
+          {spikes.map(point => (
+            <Box key={point.time} sx={{ mb: 0.75 }}>
+              <Typography variant="caption" sx={{ color: '#d1d4dc', display: 'block', lineHeight: 1.3 }}>
+                {point.label} · {formatPrice(point.close, precision)}
+                <span style={{ color: point.priceChangePercent >= 0 ? '#4caf50' : '#f44336', marginLeft: 4 }}>
+                  {point.priceChangePercent >= 0 ? '+' : ''}{point.priceChangePercent.toFixed(2)}%
+                </span>
+              </Typography>
+              <Typography variant="caption" sx={{ color: '#787b86', display: 'block', lineHeight: 1.3 }}>
+                量 {formatScore(point.volumeZ)}
+                {point.delta !== null && (
+                  <>
+                    {' · 净主动'}
+                    <span style={{ color: point.delta >= 0 ? '#4caf50' : '#f44336', marginLeft: 4 }}>
+                      {formatScore(point.deltaZ)}
+                    </span>
+                  </>
+                )}
+              </Typography>
+            </Box>
+          ))}
+        </SpikeList>
+      </ContentContainer>
     </Container>
   );
 };
 
-export default VolumePulse; 
\ No newline at end of file
+export default VolumePulse;
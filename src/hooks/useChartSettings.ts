@@ -0,0 +1,40 @@
+/**
+ * Chart type hook
+ * This file contains a React hook that keeps the chart type of the
+ * candlestick chart, saved in the browser so it survives a reload
+ */
+
+import { useCallback, useState } from 'react';
+import { ChartSettings, DEFAULT_CHART_SETTINGS, isChartSettings } from '../utils/chartTypes';
+
+const STORAGE_KEY = 'klineChart.chartType';
+
+const loadChartSettings = (): ChartSettings => {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null');
+    return isChartSettings(saved) ? saved : DEFAULT_CHART_SETTINGS;
+  } catch (error) {
+    console.error('Error loading chart type:', error);
+    return DEFAULT_CHART_SETTINGS;
+  }
+};
+
+/**
+ * Chart type of the candlestick chart, with its Renko box settings
+ * @returns The settings, and a setter that also saves them
+ */
+export const useChartSettings = (): [ChartSettings, (settings: ChartSettings) => void] => {
+  const [settings, setSettings] = useState<ChartSettings>(loadChartSettings);
+
+  const saveSettings = useCallback((next: ChartSettings) => {
+    setSettings(next);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      // Private mode or a full quota; keep the settings for this session only
+      console.error('Error saving chart type:', error);
+    }
+  }, []);
+
+  return [settings, saveSettings];
+};
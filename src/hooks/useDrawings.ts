@@ -0,0 +1,54 @@
+/**
+ * Chart drawings hook
+ * This file contains a React hook that keeps the drawings of a symbol, saved
+ * in the browser so they survive a reload
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Drawing, isDrawing } from '../utils/drawings';
+
+const getStorageKey = (symbol: string) => `klineChart.drawings.${symbol}`;
+
+const NO_DRAWINGS: Drawing[] = [];
+
+// Drawings that no longer parse are dropped rather than breaking the chart
+const loadDrawings = (symbol: string): Drawing[] => {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(getStorageKey(symbol)) || '[]');
+    return Array.isArray(saved) ? saved.filter(isDrawing) : [];
+  } catch (error) {
+    console.error('Error loading chart drawings:', error);
+    return [];
+  }
+};
+
+/**
+ * Drawings on the candlestick chart of a symbol
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @returns The symbol's drawings, and a setter that also saves them
+ */
+export const useDrawings = (symbol: string): [Drawing[], (drawings: Drawing[]) => void] => {
+  const [saved, setSaved] = useState<{ symbol: string; drawings: Drawing[] }>(() => ({
+    symbol,
+    drawings: loadDrawings(symbol)
+  }));
+
+  useEffect(() => {
+    if (saved.symbol !== symbol) {
+      setSaved({ symbol, drawings: loadDrawings(symbol) });
+    }
+  }, [symbol, saved.symbol]);
+
+  const saveDrawings = useCallback((drawings: Drawing[]) => {
+    setSaved({ symbol, drawings });
+    try {
+      window.localStorage.setItem(getStorageKey(symbol), JSON.stringify(drawings));
+    } catch (error) {
+      // Private mode or a full quota; keep the drawings for this session only
+      console.error('Error saving chart drawings:', error);
+    }
+  }, [symbol]);
+
+  // Until the new symbol's drawings are loaded, show none rather than the previous symbol's
+  return [saved.symbol === symbol ? saved.drawings : NO_DRAWINGS, saveDrawings];
+};
@@ -0,0 +1,125 @@
+/**
+ * Futures data hooks
+ * This file contains React hooks for Binance USD-M futures data that has no
+ * counterpart in the exchange adapters
+ */
+
+import { fetchTermStructure, TermStructureContract } from '../api/basis';
+import {
+  fetchFuturesKlineData,
+  fetchOpenInterest,
+  fetchOpenInterestHist,
+  fetchPremiumIndex,
+  fetchPremiumIndexKlines
+} from '../api/binance';
+import { getQueryKey } from '../api/marketDataStore';
+import { fetchPositioningRatio, PositioningPoint, PositioningRatioKind } from '../api/positioning';
+import { KlineData, OpenInterest, OpenInterestHist, PremiumIndex } from '../types/api';
+import { useQuery } from './useMarketData';
+
+// The premium index moves every few seconds
+const PREMIUM_INDEX_POLL_INTERVAL = 5000;
+const OPEN_INTEREST_POLL_INTERVAL = 10000;
+const FUTURES_KLINE_POLL_INTERVAL = 60000;
+// Statistics are published once per period, the shortest being 5 minutes
+const STATISTICS_POLL_INTERVAL = 60000;
+
+/**
+ * Mark price, estimated funding rate and next funding time of a perpetual contract
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param enabled - Load only while true (default: true)
+ */
+export const usePremiumIndex = (symbol: string, enabled: boolean = true) => {
+  return useQuery<PremiumIndex>(
+    enabled ? getQueryKey('premiumIndex', { symbol }) : null,
+    () => fetchPremiumIndex(symbol),
+    { refreshInterval: PREMIUM_INDEX_POLL_INTERVAL }
+  );
+};
+
+/**
+ * Current open interest of a perpetual contract
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ */
+export const useOpenInterest = (symbol: string) => {
+  return useQuery<OpenInterest>(
+    getQueryKey('openInterest', { symbol }),
+    () => fetchOpenInterest(symbol),
+    { refreshInterval: OPEN_INTEREST_POLL_INTERVAL }
+  );
+};
+
+/**
+ * Open interest statistics of a perpetual contract
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param period - Statistics period (see FUTURES_DATA_PERIODS)
+ * @param limit - Number of periods to load (default: 200)
+ */
+export const useOpenInterestHistory = (symbol: string, period: string, limit: number = 200) => {
+  return useQuery<OpenInterestHist[]>(
+    getQueryKey('openInterestHist', { symbol, period, limit }),
+    () => fetchOpenInterestHist(symbol, period, limit),
+    { refreshInterval: STATISTICS_POLL_INTERVAL }
+  );
+};
+
+/**
+ * Long/short or taker buy/sell ratio series of a perpetual contract
+ * @param kind - Ratio to load
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param period - Statistics period (see FUTURES_DATA_PERIODS)
+ * @param limit - Number of periods to load (default: 200)
+ */
+export const usePositioningRatio = (
+  kind: PositioningRatioKind,
+  symbol: string,
+  period: string,
+  limit: number = 200
+) => {
+  return useQuery<PositioningPoint[]>(
+    getQueryKey('positioningRatio', { kind, symbol, period, limit }),
+    () => fetchPositioningRatio(kind, symbol, period, limit),
+    { refreshInterval: STATISTICS_POLL_INTERVAL }
+  );
+};
+
+/**
+ * Candles of a perpetual contract
+ * @param symbol - Contract symbol (e.g., 'BTCUSDT')
+ * @param interval - Kline interval (e.g., '1h')
+ * @param limit - Number of candles to load (default: 100)
+ * @param enabled - Load only while true (default: true)
+ */
+export const useFuturesKlines = (symbol: string, interval: string, limit: number = 100, enabled: boolean = true) => {
+  return useQuery<KlineData[]>(
+    enabled ? getQueryKey('futuresKlines', { symbol, interval, limit }) : null,
+    () => fetchFuturesKlineData(symbol, interval, limit),
+    { refreshInterval: FUTURES_KLINE_POLL_INTERVAL }
+  );
+};
+
+/**
+ * Premium index candles of a perpetual contract
+ * @param symbol - Contract symbol (e.g., 'BTCUSDT')
+ * @param interval - Kline interval (e.g., '1h')
+ * @param limit - Number of candles to load (default: 100)
+ */
+export const usePremiumIndexKlines = (symbol: string, interval: string, limit: number = 100) => {
+  return useQuery<KlineData[]>(
+    getQueryKey('premiumIndexKlines', { symbol, interval, limit }),
+    () => fetchPremiumIndexKlines(symbol, interval, limit),
+    { refreshInterval: FUTURES_KLINE_POLL_INTERVAL }
+  );
+};
+
+/**
+ * Quarterly delivery contracts of a pair with their mark prices
+ * @param pair - Underlying pair (e.g., 'BTCUSDT')
+ */
+export const useTermStructure = (pair: string) => {
+  return useQuery<TermStructureContract[]>(
+    getQueryKey('termStructure', { pair }),
+    () => fetchTermStructure(pair),
+    { refreshInterval: PREMIUM_INDEX_POLL_INTERVAL }
+  );
+};
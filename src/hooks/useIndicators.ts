@@ -0,0 +1,63 @@
+/**
+ * Indicator settings hook
+ * This file contains a React hook that keeps the indicators added to the
+ * candlestick chart, saved in the browser so they survive a reload
+ */
+
+import { useCallback, useState } from 'react';
+import {
+  getDefaultParams,
+  IndicatorConfig,
+  IndicatorParams,
+  INDICATORS,
+  isValidParam
+} from '../utils/indicators';
+
+const STORAGE_KEY = 'klineChart.indicators';
+
+// Drop unknown indicators and repair parameters saved by an older version
+const loadIndicators = (): IndicatorConfig[] => {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(saved)) {
+      return [];
+    }
+
+    return saved
+      .filter((item: IndicatorConfig) => item && typeof item.id === 'string' && INDICATORS[item.type] !== undefined)
+      .map((item: IndicatorConfig) => ({
+        id: item.id,
+        type: item.type,
+        params: INDICATORS[item.type].params.reduce<IndicatorParams>((acc, param) => {
+          const value = item.params ? item.params[param.key] : undefined;
+          if (value !== undefined && isValidParam(param, value)) {
+            acc[param.key] = value;
+          }
+          return acc;
+        }, getDefaultParams(item.type))
+      }));
+  } catch (error) {
+    console.error('Error loading indicator settings:', error);
+    return [];
+  }
+};
+
+/**
+ * Indicators on the candlestick chart
+ * @returns The indicators, and a setter that also saves them
+ */
+export const useIndicators = (): [IndicatorConfig[], (indicators: IndicatorConfig[]) => void] => {
+  const [indicators, setIndicators] = useState<IndicatorConfig[]>(loadIndicators);
+
+  const saveIndicators = useCallback((next: IndicatorConfig[]) => {
+    setIndicators(next);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      // Private mode or a full quota; keep the settings for this session only
+      console.error('Error saving indicator settings:', error);
+    }
+  }, []);
+
+  return [indicators, saveIndicators];
+};
@@ -0,0 +1,29 @@
+/**
+ * Liquidation feed hook
+ * This file contains a React hook that follows the rolling liquidation window
+ */
+
+import { useEffect, useState } from 'react';
+import { ExchangeId } from '../api/exchanges';
+import {
+  getLiquidationFeedState,
+  LiquidationFeedState,
+  subscribeLiquidationFeed
+} from '../api/liquidationFeed';
+
+/**
+ * Liquidation orders collected for a symbol
+ * @param exchange - Exchange to read from
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT'), or null for every symbol
+ * @returns Orders of the last 24 hours (as far as collected) and the feed error
+ */
+export const useLiquidationFeed = (exchange: ExchangeId, symbol: string | null): LiquidationFeedState => {
+  const [state, setState] = useState<LiquidationFeedState>(() => getLiquidationFeedState(exchange, symbol));
+
+  useEffect(() => {
+    setState(getLiquidationFeedState(exchange, symbol));
+    return subscribeLiquidationFeed(exchange, symbol, setState);
+  }, [exchange, symbol]);
+
+  return state;
+};
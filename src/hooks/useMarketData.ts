@@ -0,0 +1,195 @@
+/**
+ * Market data hooks
+ * This file contains React hooks that read market data from the shared store
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ExchangeId, getExchangeAdapter } from '../api/exchanges';
+import { EXCHANGE_INFO_STALE_TIME } from '../api/exchangeInfo';
+import {
+  getQueryKey,
+  getQueryState,
+  invalidateQuery,
+  QueryOptions,
+  QueryState,
+  subscribeQuery
+} from '../api/marketDataStore';
+import { FundingRate, KlineData, TickerPriceChange, TradingPair } from '../types/api';
+
+export interface QueryResult<T> extends QueryState<T> {
+  refetch: () => void;
+}
+
+// State of a query that is switched off
+const idleState = <T>(): QueryState<T> => ({
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false
+});
+
+/**
+ * Subscribe a component to a cache entry
+ * @param key - Cache key (see getQueryKey), or null to load nothing
+ * @param fetcher - Loads the data for this key
+ * @param options - Staleness, polling and live update options
+ * @returns Current entry state and a refetch function
+ */
+export const useQuery = <T>(
+  key: string | null,
+  fetcher: () => Promise<T>,
+  options: QueryOptions<T> = {}
+): QueryResult<T> => {
+  const [state, setState] = useState<QueryState<T>>(() => (key ? getQueryState<T>(key) : idleState<T>()));
+
+  // The key identifies the request, so newer closures need not resubscribe
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const liveRef = useRef(options.live);
+  liveRef.current = options.live;
+
+  const { staleTime, refreshInterval } = options;
+  const hasLive = options.live !== undefined;
+
+  useEffect(() => {
+    if (!key) {
+      setState(idleState<T>());
+      return;
+    }
+    setState(getQueryState<T>(key));
+
+    return subscribeQuery<T>(
+      key,
+      () => fetcherRef.current(),
+      () => setState(getQueryState<T>(key)),
+      {
+        staleTime,
+        refreshInterval,
+        live: hasLive ? (update) => liveRef.current!(update) : undefined
+      }
+    );
+  }, [key, staleTime, refreshInterval, hasLive]);
+
+  const refetch = useCallback(() => {
+    if (key) {
+      invalidateQuery(key).catch(() => undefined);
+    }
+  }, [key]);
+
+  return { ...state, refetch };
+};
+
+// Exchanges without push updates are polled at these intervals
+const KLINE_POLL_INTERVAL = 60000;
+const TICKER_POLL_INTERVAL = 10000;
+// Settled funding rates change at most hourly
+const FUNDING_HISTORY_POLL_INTERVAL = 60000;
+// Every panel reads the same cache entry per symbol and interval, so it holds
+// enough candles for the longest consumer (and stays within OKX's 300 cap)
+export const KLINE_LIMIT = 200;
+
+/**
+ * Kline (candlestick) data for a symbol and interval, kept live by the
+ * exchange's kline stream or by polling
+ * @param exchange - Exchange to read from
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param interval - Time interval (e.g., '1m', '1h', '1d')
+ * @param limit - Number of most recent candles to return, up to KLINE_LIMIT (default: 100)
+ */
+export const useKlines = (
+  exchange: ExchangeId,
+  symbol: string,
+  interval: string,
+  limit: number = 100
+) => {
+  const adapter = getExchangeAdapter(exchange);
+  const { subscribeKlines } = adapter;
+
+  const query = useQuery<KlineData[]>(
+    getQueryKey('klines', { exchange, symbol, interval }),
+    () => adapter.fetchKlines(symbol, interval, KLINE_LIMIT),
+    subscribeKlines ? {
+      staleTime: KLINE_POLL_INTERVAL,
+      live: (update) => subscribeKlines(symbol, interval, (kline: KlineData) => {
+        update(prev => {
+          // Live updates only extend history that has been loaded
+          if (!prev || prev.length === 0) {
+            return prev;
+          }
+
+          const last = prev[prev.length - 1];
+          if (last.time === kline.time) {
+            return [...prev.slice(0, -1), kline];
+          }
+
+          if (kline.time > last.time) {
+            // A new candle opened: append it and drop the oldest one
+            return [...prev.slice(prev.length >= KLINE_LIMIT ? 1 : 0), kline];
+          }
+
+          return prev;
+        });
+      })
+    } : {
+      refreshInterval: KLINE_POLL_INTERVAL
+    }
+  );
+
+  const data = useMemo(() => query.data?.slice(-limit), [query.data, limit]);
+
+  return { ...query, data };
+};
+
+/**
+ * 24-hour ticker statistics for a symbol, kept live by the exchange's ticker
+ * stream or by polling
+ * @param exchange - Exchange to read from
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ */
+export const useTicker = (exchange: ExchangeId, symbol: string) => {
+  const adapter = getExchangeAdapter(exchange);
+  const { subscribeTicker } = adapter;
+
+  return useQuery<TickerPriceChange>(
+    getQueryKey('ticker', { exchange, symbol }),
+    () => adapter.fetchTicker(symbol),
+    subscribeTicker ? {
+      staleTime: TICKER_POLL_INTERVAL,
+      live: (update) => subscribeTicker(symbol, (ticker: TickerPriceChange) => {
+        update(() => ticker);
+      })
+    } : {
+      refreshInterval: TICKER_POLL_INTERVAL
+    }
+  );
+};
+
+/**
+ * Settled funding rates of a perpetual contract
+ * @param exchange - Exchange to read from
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param limit - Number of settlements to load (default: 90)
+ */
+export const useFundingRateHistory = (exchange: ExchangeId, symbol: string, limit: number = 90) => {
+  const adapter = getExchangeAdapter(exchange);
+
+  return useQuery<FundingRate[]>(
+    getQueryKey('fundingRate', { exchange, symbol, limit }),
+    () => adapter.fetchFundingRate(symbol, limit),
+    { refreshInterval: FUNDING_HISTORY_POLL_INTERVAL }
+  );
+};
+
+/**
+ * Spot pairs that are currently trading on an exchange
+ * @param exchange - Exchange to list
+ */
+export const useTradingPairs = (exchange: ExchangeId) => {
+  const adapter = getExchangeAdapter(exchange);
+
+  return useQuery<TradingPair[]>(
+    getQueryKey('tradingPairs', { exchange }),
+    () => adapter.fetchTradingPairs(),
+    { staleTime: EXCHANGE_INFO_STALE_TIME }
+  );
+};
@@ -0,0 +1,31 @@
+/**
+ * Precision hook
+ * This file contains a React hook that resolves the display precision of a symbol
+ */
+
+import { useMemo } from 'react';
+import { ExchangeId } from '../api/exchanges';
+import { getSymbolPrecision, SymbolPrecision } from '../utils/precision';
+import { useTradingPairs } from './useMarketData';
+
+/**
+ * Price and quantity decimals of a symbol
+ * @param exchange - Exchange whose listing holds the symbol filters
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param referencePrice - Recent price, used until the listing has loaded or
+ *   when the symbol is not listed
+ * @returns Precision from the listing filters, or an estimate
+ */
+export const usePrecision = (exchange: ExchangeId, symbol: string, referencePrice?: number): SymbolPrecision => {
+  const { data } = useTradingPairs(exchange);
+
+  const info = useMemo(() => data?.find(pair => pair.symbol === symbol), [data, symbol]);
+
+  // Round the reference so a ticking price does not produce a new object every update
+  const magnitude = referencePrice ? Math.floor(Math.log10(referencePrice)) : undefined;
+
+  return useMemo(
+    () => getSymbolPrecision(info, magnitude === undefined ? undefined : Math.pow(10, magnitude)),
+    [info, magnitude]
+  );
+};
@@ -0,0 +1,45 @@
+/**
+ * Server clock hooks
+ * This file contains React hooks that follow the clock synchronized with the
+ * Binance server time
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  getServerClockState,
+  getServerNow,
+  ServerClockState,
+  subscribeServerClock
+} from '../api/serverClock';
+
+/**
+ * Clock synchronization state
+ * @returns Offset and latency of the server clock, updated after every sample
+ */
+export const useServerClock = (): ServerClockState => {
+  const [state, setState] = useState<ServerClockState>(() => getServerClockState());
+
+  useEffect(() => subscribeServerClock(setState), []);
+
+  return state;
+};
+
+/**
+ * Current server time, re-rendering on every tick
+ * @param tickInterval - Milliseconds between updates (default: 1000)
+ * @returns Server-corrected epoch ms
+ */
+export const useServerNow = (tickInterval: number = 1000): number => {
+  const [now, setNow] = useState<number>(() => getServerNow());
+
+  useEffect(() => {
+    const unsubscribe = subscribeServerClock(() => setNow(getServerNow()));
+    const intervalId = setInterval(() => setNow(getServerNow()), tickInterval);
+    return () => {
+      clearInterval(intervalId);
+      unsubscribe();
+    };
+  }, [tickInterval]);
+
+  return now;
+};
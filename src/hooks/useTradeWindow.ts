@@ -0,0 +1,136 @@
+/**
+ * Trade window hook
+ * This file contains a React hook that keeps the aggregated trades of a
+ * rolling time window: backfilled through REST and extended by the stream
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { subscribeAggTradeStream } from '../api/binanceStream';
+import { fetchAggTradeHistory, fetchAggTradeRange } from '../api/tradeHistory';
+import { Trade } from '../types/api';
+
+// Stream trades are applied in batches so busy symbols do not render per trade
+const FLUSH_INTERVAL = 1000;
+
+export interface TradeWindowState {
+  trades: Trade[];
+  error: unknown;
+  // True while the backfill is loading
+  loading: boolean;
+  // False when the backfill stopped short of the window start
+  complete: boolean;
+}
+
+const prune = (trades: Trade[], windowMs: number) => {
+  const cutoff = new Date(Date.now() - windowMs).toISOString();
+  const index = trades.findIndex(trade => trade.time >= cutoff);
+  return index === -1 ? [] : index === 0 ? trades : trades.slice(index);
+};
+
+// Trades loaded after later ones are slotted in by ID
+const insertTrades = (trades: Trade[], missed: Trade[]) => {
+  const ids = new Set(trades.map(trade => trade.id));
+  return trades.concat(missed.filter(trade => !ids.has(trade.id))).sort((a, b) => a.id - b.id);
+};
+
+/**
+ * Aggregated trades of the last windowMs milliseconds
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param windowMs - Window length in ms; the backfill may stop short of its start
+ * @returns Trades in the window, oldest first, and a retry function
+ */
+export const useTradeWindow = (symbol: string, windowMs: number) => {
+  const [state, setState] = useState<TradeWindowState>({
+    trades: [],
+    error: null,
+    loading: true,
+    complete: true
+  });
+  const [retryCount, setRetryCount] = useState<number>(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let pending: Trade[] = [];
+
+    setState({ trades: [], error: null, loading: true, complete: true });
+
+    // The subscription goes out with the next batched stream request, so the
+    // backfill can end before the stream starts. Aggregate trade IDs are
+    // consecutive, so the trades in between are loaded once both ends are known
+    let historyLastId: number | null = null;
+    let streamFirstId: number | null = null;
+    const fillGap = () => {
+      if (historyLastId === null || streamFirstId === null || streamFirstId <= historyLastId + 1) {
+        return;
+      }
+
+      fetchAggTradeRange(symbol, historyLastId + 1, streamFirstId)
+        .then(missed => {
+          if (!cancelled) {
+            setState(prev => ({ ...prev, trades: prune(insertTrades(prev.trades, missed), windowMs) }));
+          }
+        })
+        .catch(error => {
+          if (!cancelled) {
+            setState(prev => ({ ...prev, error }));
+          }
+        });
+    };
+
+    const unsubscribe = subscribeAggTradeStream(symbol, trade => {
+      if (streamFirstId === null) {
+        streamFirstId = trade.id;
+        fillGap();
+      }
+      pending.push(trade);
+    });
+
+    const flush = () => {
+      if (pending.length === 0) {
+        setState(prev => ({ ...prev, trades: prune(prev.trades, windowMs) }));
+        return;
+      }
+
+      const incoming = pending;
+      pending = [];
+      setState(prev => {
+        const lastId = prev.trades.length > 0 ? prev.trades[prev.trades.length - 1].id : -1;
+        const fresh = incoming.filter(trade => trade.id > lastId);
+        return { ...prev, trades: prune(prev.trades.concat(fresh), windowMs) };
+      });
+    };
+    const intervalId = setInterval(flush, FLUSH_INTERVAL);
+
+    fetchAggTradeHistory(symbol, Date.now() - windowMs)
+      .then(({ trades, complete }) => {
+        if (cancelled) {
+          return;
+        }
+        if (trades.length > 0) {
+          historyLastId = trades[trades.length - 1].id;
+          fillGap();
+        }
+        setState(prev => {
+          // Stream trades received during the backfill follow the history
+          const lastId = trades.length > 0 ? trades[trades.length - 1].id : -1;
+          const streamed = prev.trades.filter(trade => trade.id > lastId);
+          return { trades: prune(trades.concat(streamed), windowMs), error: null, loading: false, complete };
+        });
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setState(prev => ({ ...prev, error, loading: false }));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+      unsubscribe();
+    };
+  }, [symbol, windowMs, retryCount]);
+
+  const retry = useCallback(() => setRetryCount(count => count + 1), []);
+
+  return { ...state, retry };
+};
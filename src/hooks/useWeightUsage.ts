@@ -0,0 +1,19 @@
+/**
+ * Request weight hook
+ * This file contains a React hook that follows the Binance request weight usage
+ */
+
+import { useEffect, useState } from 'react';
+import { getWeightUsage, subscribeWeightUsage, WeightUsage } from '../api/binanceClient';
+
+/**
+ * Request weight used in the current minute, per base URL
+ * @returns Usage keyed by base URL, updated after every response
+ */
+export const useWeightUsage = (): Record<string, WeightUsage> => {
+  const [usage, setUsage] = useState<Record<string, WeightUsage>>(() => getWeightUsage());
+
+  useEffect(() => subscribeWeightUsage(setUsage), []);
+
+  return usage;
+};
@@ -13,9 +13,10 @@ export interface KlineData {
   volume: number;
   closeTime: string;
   quoteVolume: number;
-  trades: number;
-  takerBuyBaseVolume: number;
-  takerBuyQuoteVolume: number;
+  // Trade count and taker split; null when the venue does not publish them (OKX, Bybit)
+  trades: number | null;
+  takerBuyBaseVolume: number | null;
+  takerBuyQuoteVolume: number | null;
   isRising: boolean;
 }
 
@@ -32,6 +33,15 @@ export interface OrderBook {
   asks: OrderData[];
 }
 
+// Diff depth stream event (levels with amount 0 are removed)
+export interface OrderBookDiff {
+  firstUpdateId: number;
+  finalUpdateId: number;
+  time: string;
+  bids: OrderData[];
+  asks: OrderData[];
+}
+
 // 24-hour ticker price change statistics
 export interface TickerPriceChange {
   symbol: string;
@@ -40,7 +50,8 @@ export interface TickerPriceChange {
   weightedAvgPrice: number;
   prevClosePrice: number;
   lastPrice: number;
-  lastQty: number;
+  // null when the venue does not publish it
+  lastQty: number | null;
   bidPrice: number;
   bidQty: number;
   askPrice: number;
@@ -52,9 +63,10 @@ export interface TickerPriceChange {
   quoteVolume: number;
   openTime: string;
   closeTime: string;
-  firstId: number;
-  lastId: number;
-  count: number;
+  // Trade id range and count; null when the venue does not publish them (OKX, Bybit)
+  firstId: number | null;
+  lastId: number | null;
+  count: number | null;
 }
 
 // Recent trades data
@@ -76,6 +88,47 @@ export interface FundingRate {
   rate: number;
 }
 
+// Mark price and upcoming funding of a perpetual contract
+export interface PremiumIndex {
+  symbol: string;
+  markPrice: number;
+  indexPrice: number;
+  estimatedSettlePrice: number;
+  // Estimated rate settled at nextFundingTime
+  fundingRate: number;
+  interestRate: number;
+  nextFundingTime: string;
+  time: string;
+}
+
+// Current open interest of a perpetual contract
+export interface OpenInterest {
+  symbol: string;
+  // Open interest in contracts (base asset)
+  openInterest: number;
+  time: string;
+}
+
+// Quarterly delivery contract of a USD-M futures pair
+export interface DeliveryContract {
+  symbol: string;
+  // Underlying pair (e.g., 'BTCUSDT')
+  pair: string;
+  status: string;
+  contractType: 'CURRENT_QUARTER' | 'NEXT_QUARTER';
+  deliveryDate: string;
+}
+
+// Open interest statistics of a perpetual contract for one period
+export interface OpenInterestHist {
+  symbol: string;
+  time: string;
+  // Open interest in contracts (base asset)
+  openInterest: number;
+  // Open interest in quote asset
+  openInterestValue: number;
+}
+
 // Liquidation orders data
 export interface LiquidationOrder {
   symbol: string;
@@ -88,4 +141,41 @@ export interface LiquidationOrder {
   type: string;
   side: string;
   time: string;
-} 
\ No newline at end of file
+} 
+
+// Symbol listing data from exchangeInfo
+export interface SymbolInfo {
+  symbol: string;
+  status: string;
+  baseAsset: string;
+  quoteAsset: string;
+  // Price and quantity increments from PRICE_FILTER and LOT_SIZE
+  tickSize: number;
+  stepSize: number;
+  // Decimals implied by tickSize and stepSize
+  priceDecimals: number;
+  quantityDecimals: number;
+}
+
+// Tradable spot pair with its futures availability
+export interface TradingPair extends SymbolInfo {
+  hasFutures: boolean;
+}
+
+// Long/short ratio statistics of a perpetual contract for one period
+export interface LongShortRatio {
+  symbol: string;
+  time: string;
+  longShortRatio: number;
+  // Shares of accounts (or of position size, for top trader positions) that are long and short, 0-1
+  longShare: number;
+  shortShare: number;
+}
+
+// Taker buy and sell volume of a perpetual contract for one period
+export interface TakerLongShortRatio {
+  time: string;
+  buySellRatio: number;
+  buyVolume: number;
+  sellVolume: number;
+}
@@ -0,0 +1,179 @@
+import {
+  buildChartSeries,
+  DEFAULT_CHART_SETTINGS,
+  getAtrSize,
+  isChartSettings,
+  toHeikinAshi,
+  toRangeBars,
+  toRenko
+} from './chartTypes';
+import { KlineData } from '../types/api';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+type Prices = [number, number, number, number];
+
+// Hourly candles from [open, high, low, close], one unit of volume each
+const candles = (prices: Prices[]): KlineData[] => prices.map(([open, high, low, close], index) => ({
+  time: new Date(START + index * HOUR).toISOString(),
+  open,
+  high,
+  low,
+  close,
+  volume: 1,
+  closeTime: new Date(START + (index + 1) * HOUR - 1).toISOString(),
+  quoteVolume: close,
+  trades: 1,
+  takerBuyBaseVolume: 0.5,
+  takerBuyQuoteVolume: close / 2,
+  isRising: close >= open
+}));
+
+// Candles that open and close at the same price
+const flat = (closes: number[]) => candles(closes.map(close => [close, close, close, close] as Prices));
+
+const ohlc = (bars: KlineData[]) => bars.map(bar => [bar.open, bar.high, bar.low, bar.close]);
+const totalVolume = (bars: KlineData[]) => bars.reduce((acc, bar) => acc + bar.volume, 0);
+
+describe('toHeikinAshi', () => {
+  test('averages each candle and opens at the midpoint of the previous one', () => {
+    const bars = toHeikinAshi(candles([[10, 14, 8, 12], [12, 16, 11, 15]]));
+
+    expect(ohlc(bars)).toEqual([
+      [11, 14, 8, 11],
+      [11, 16, 11, 13.5]
+    ]);
+    expect(bars[1].isRising).toBe(true);
+    expect(bars[1].time).toBe(new Date(START + HOUR).toISOString());
+  });
+});
+
+describe('toRenko', () => {
+  test('forms a brick per full box and needs two boxes to turn around', () => {
+    const bricks = toRenko(flat([100, 101, 103, 101.5, 100.5, 98]), 1);
+
+    expect(ohlc(bricks)).toEqual([
+      [100, 101, 100, 101],
+      [101, 102, 101, 102],
+      [102, 103, 102, 103],
+      // 101.5 is only half a box below the last brick's low
+      [102, 102, 101, 101],
+      [101, 101, 100, 100],
+      [100, 100, 99, 99],
+      [99, 99, 98, 98]
+    ]);
+  });
+
+  test('gives each brick the candle it completed in and the volume since the last brick', () => {
+    const klines = flat([100, 100.5, 101, 103]);
+    const bricks = toRenko(klines, 1);
+
+    expect(bricks.map(brick => brick.time)).toEqual([klines[2].time, klines[3].time, klines[3].time]);
+    expect(bricks.map(brick => brick.volume)).toEqual([3, 1, 0]);
+  });
+
+  test('forms nothing without a full box', () => {
+    expect(toRenko(flat([100, 100.9, 99.1]), 1)).toEqual([]);
+    expect(toRenko([], 1)).toEqual([]);
+  });
+});
+
+describe('toRangeBars', () => {
+  test('runs rising candles open, low, high, close', () => {
+    const bars = toRangeBars(candles([[100, 104, 99, 103]]), 2);
+
+    expect(ohlc(bars)).toEqual([
+      [100, 101, 99, 101],
+      [101, 103, 101, 103],
+      // Still forming
+      [103, 104, 103, 103]
+    ]);
+  });
+
+  test('runs falling candles open, high, low, close', () => {
+    const bars = toRangeBars(candles([[100, 101, 96, 97]]), 2);
+
+    expect(ohlc(bars)).toEqual([
+      [100, 101, 99, 99],
+      [99, 99, 97, 97],
+      [97, 97, 96, 97]
+    ]);
+  });
+
+  test('closes every completed bar a full range from high to low', () => {
+    const klines = candles([
+      [100, 103.5, 98.2, 102],
+      [102, 102.4, 95.1, 96],
+      [96, 99.7, 94.3, 99.1],
+      [99.1, 106.8, 98.9, 106]
+    ]);
+    const bars = toRangeBars(klines, 1.5);
+
+    bars.slice(0, -1).forEach(bar => expect(bar.high - bar.low).toBeCloseTo(1.5));
+    expect(bars[bars.length - 1].close).toBe(106);
+    expect(totalVolume(bars)).toBe(klines.length);
+  });
+
+  test('keeps fields the venue does not publish null', () => {
+    const klines = candles([[100, 104, 99, 103]])
+      .map(kline => ({ ...kline, trades: null, takerBuyBaseVolume: null, takerBuyQuoteVolume: null }));
+    const [first] = toRangeBars(klines, 2);
+
+    expect(first.volume).toBe(1);
+    expect(first.trades).toBeNull();
+    expect(first.takerBuyBaseVolume).toBeNull();
+  });
+});
+
+describe('getAtrSize', () => {
+  test('falls back to the average range before the period fills', () => {
+    expect(getAtrSize(candles([[10, 12, 9, 11], [11, 12, 11, 11]]), 14)).toBe(2);
+    expect(getAtrSize([], 14)).toBeNull();
+  });
+});
+
+describe('buildChartSeries', () => {
+  const klines = candles(Array.from({ length: 40 }, (_, index) => {
+    const close = 100 + 10 * Math.sin(index / 3);
+    return [close - 0.5, close + 1, close - 1, close] as Prices;
+  }));
+
+  test('keeps candles as they are for time-based types', () => {
+    expect(buildChartSeries(klines, { ...DEFAULT_CHART_SETTINGS, type: 'line' }, null)).toEqual({ bars: klines, boxSize: null });
+  });
+
+  test('sizes Renko boxes by the ATR and ignores a typed size in ATR mode', () => {
+    const atr = getAtrSize(klines, 14);
+    const series = buildChartSeries(klines, { type: 'renko', renkoBoxMode: 'atr', atrPeriod: 14 }, 5);
+
+    expect(series.boxSize).toBe(atr);
+    expect(series.bars).toEqual(toRenko(klines, atr as number));
+  });
+
+  test('uses the typed size for fixed boxes and range bars', () => {
+    expect(buildChartSeries(klines, { type: 'renko', renkoBoxMode: 'fixed', atrPeriod: 14 }, 5).boxSize).toBe(5);
+    expect(buildChartSeries(klines, { type: 'range', renkoBoxMode: 'atr', atrPeriod: 14 }, 5).boxSize).toBe(5);
+  });
+
+  test('raises sizes that would form too many bars', () => {
+    const series = buildChartSeries(klines, { type: 'range', renkoBoxMode: 'fixed', atrPeriod: 14 }, 1e-9);
+
+    expect(series.boxSize).toBeGreaterThan(1e-9);
+    expect(series.bars.length).toBeLessThanOrEqual(5000);
+  });
+
+  test('forms nothing from flat candles', () => {
+    expect(buildChartSeries(flat([100, 100]), { type: 'renko', renkoBoxMode: 'atr', atrPeriod: 14 }, null))
+      .toEqual({ bars: [], boxSize: null });
+  });
+});
+
+describe('isChartSettings', () => {
+  test('accepts saved settings and rejects anything else', () => {
+    expect(isChartSettings(DEFAULT_CHART_SETTINGS)).toBe(true);
+    expect(isChartSettings({ ...DEFAULT_CHART_SETTINGS, type: 'kagi' })).toBe(false);
+    expect(isChartSettings({ ...DEFAULT_CHART_SETTINGS, atrPeriod: 0 })).toBe(false);
+    expect(isChartSettings(null)).toBe(false);
+  });
+});
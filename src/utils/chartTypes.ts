@@ -0,0 +1,313 @@
+/**
+ * Chart types
+ * This file contains the ways the candlestick chart can plot candles. Every
+ * type is a transform from candles to the bars on the chart. Heikin-Ashi, line,
+ * area, hollow candles and OHLC bars keep one bar per candle, placed by time.
+ * Renko bricks and range bars form whenever price has moved far enough, however
+ * long that takes, so they are spaced evenly and carry the open time of the
+ * candle they completed in.
+ */
+
+import { KlineData } from '../types/api';
+import { createIndicator } from './indicators';
+
+export type ChartType = 'candles' | 'hollow' | 'bars' | 'heikinAshi' | 'line' | 'area' | 'renko' | 'range';
+
+// How bars are drawn
+export type ChartStyle = 'candles' | 'hollow' | 'bars' | 'line' | 'area';
+
+export type RenkoBoxMode = 'atr' | 'fixed';
+
+export interface ChartTypeDefinition {
+  type: ChartType;
+  label: string;
+  style: ChartStyle;
+  // Whether bars are placed by time rather than one evenly spaced slot each
+  timeBased: boolean;
+}
+
+export interface ChartSettings {
+  type: ChartType;
+  renkoBoxMode: RenkoBoxMode;
+  // ATR period of the ATR box, and of the default box and range size
+  atrPeriod: number;
+}
+
+// Bars to plot, and the price move per brick or range bar that formed them
+export interface ChartSeries {
+  bars: KlineData[];
+  boxSize: number | null;
+}
+
+export const CHART_TYPE_DEFINITIONS: Record<ChartType, ChartTypeDefinition> = {
+  candles: { type: 'candles', label: 'Candles', style: 'candles', timeBased: true },
+  hollow: { type: 'hollow', label: 'Hollow Candles', style: 'hollow', timeBased: true },
+  bars: { type: 'bars', label: 'OHLC Bars', style: 'bars', timeBased: true },
+  heikinAshi: { type: 'heikinAshi', label: 'Heikin-Ashi', style: 'candles', timeBased: true },
+  line: { type: 'line', label: 'Line', style: 'line', timeBased: true },
+  area: { type: 'area', label: 'Area', style: 'area', timeBased: true },
+  renko: { type: 'renko', label: 'Renko', style: 'candles', timeBased: false },
+  range: { type: 'range', label: 'Range Bars', style: 'candles', timeBased: false }
+};
+
+// Order of the chart type selector
+export const CHART_TYPES: ChartType[] = ['candles', 'hollow', 'bars', 'heikinAshi', 'line', 'area', 'renko', 'range'];
+
+export const DEFAULT_CHART_SETTINGS: ChartSettings = {
+  type: 'candles',
+  renkoBoxMode: 'atr',
+  atrPeriod: 14
+};
+
+export const MIN_ATR_PERIOD = 1;
+export const MAX_ATR_PERIOD = 200;
+
+// A box too small for the loaded candles is raised so they form at most this many bars
+const MAX_BARS = 5000;
+
+/**
+ * Check that a value read from storage is usable chart settings
+ * @param value - Parsed JSON value
+ * @returns Whether the value holds a known type, box mode and ATR period
+ */
+export const isChartSettings = (value: unknown): value is ChartSettings => {
+  const settings = value as ChartSettings;
+  return typeof settings === 'object'
+    && settings !== null
+    && CHART_TYPES.includes(settings.type)
+    && (settings.renkoBoxMode === 'atr' || settings.renkoBoxMode === 'fixed')
+    && Number.isInteger(settings.atrPeriod)
+    && settings.atrPeriod >= MIN_ATR_PERIOD
+    && settings.atrPeriod <= MAX_ATR_PERIOD;
+};
+
+/**
+ * Heikin-Ashi candles: each close averages the candle's prices and each open
+ * is the midpoint of the previous Heikin-Ashi candle, which smooths out noise
+ * @param klines - Candles, oldest first
+ * @returns One Heikin-Ashi candle per candle, with the same times and volumes
+ */
+export const toHeikinAshi = (klines: KlineData[]): KlineData[] => {
+  const candles: KlineData[] = [];
+
+  klines.forEach((kline, index) => {
+    const previous = candles[index - 1];
+    const close = (kline.open + kline.high + kline.low + kline.close) / 4;
+    const open = previous ? (previous.open + previous.close) / 2 : (kline.open + kline.close) / 2;
+
+    candles.push({
+      ...kline,
+      open,
+      high: Math.max(kline.high, open, close),
+      low: Math.min(kline.low, open, close),
+      close,
+      isRising: close >= open
+    });
+  });
+
+  return candles;
+};
+
+/**
+ * Average true range at the last candle
+ * @param klines - Candles, oldest first
+ * @param period - ATR period
+ * @returns ATR in price, or null without candles
+ */
+export const getAtrSize = (klines: KlineData[], period: number): number | null => {
+  const calculator = createIndicator('atr', { period });
+  let atr: number | null = null;
+  klines.forEach(kline => {
+    atr = calculator.push(kline).value;
+  });
+
+  // Fewer candles than the period: fall back to their average range
+  if (atr === null && klines.length > 0) {
+    atr = klines.reduce((sum, kline) => sum + kline.high - kline.low, 0) / klines.length;
+  }
+  return atr;
+};
+
+// Smallest box that keeps the bars of the candles under MAX_BARS; bounded by
+// the distance price travelled, wicks counted both ways
+const getMinBoxSize = (klines: KlineData[]): number => {
+  const travelled = klines.reduce((sum, kline, index) => {
+    const gap = index > 0 ? Math.abs(kline.open - klines[index - 1].close) : 0;
+    return sum + gap + 2 * (kline.high - kline.low);
+  }, 0);
+  return travelled / MAX_BARS;
+};
+
+interface BarPrices {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// Fields the venue does not publish stay null for the whole bar
+const addNullable = (sum: number | null, value: number | null) => {
+  return sum === null || value === null ? null : sum + value;
+};
+
+// Hands each bar the volume traded since the previous bar; the first bar
+// formed in a candle takes it all, later bars in the same candle take none
+const createBarCollector = () => {
+  const bars: KlineData[] = [];
+  let volume = 0;
+  let quoteVolume = 0;
+  let trades: number | null = 0;
+  let takerBuyBaseVolume: number | null = 0;
+  let takerBuyQuoteVolume: number | null = 0;
+
+  return {
+    bars,
+    addVolume: (kline: KlineData) => {
+      volume += kline.volume;
+      quoteVolume += kline.quoteVolume;
+      trades = addNullable(trades, kline.trades);
+      takerBuyBaseVolume = addNullable(takerBuyBaseVolume, kline.takerBuyBaseVolume);
+      takerBuyQuoteVolume = addNullable(takerBuyQuoteVolume, kline.takerBuyQuoteVolume);
+    },
+    // A bar completed in a candle
+    add: (kline: KlineData, prices: BarPrices) => {
+      bars.push({
+        ...prices,
+        time: kline.time,
+        volume,
+        closeTime: kline.closeTime,
+        quoteVolume,
+        trades,
+        takerBuyBaseVolume,
+        takerBuyQuoteVolume,
+        isRising: prices.close >= prices.open
+      });
+      volume = 0;
+      quoteVolume = 0;
+      trades = 0;
+      takerBuyBaseVolume = 0;
+      takerBuyQuoteVolume = 0;
+    }
+  };
+};
+
+/**
+ * Renko bricks on candle closes: a brick forms each time the close moves a
+ * full box beyond the last brick, and turning around takes two boxes
+ * @param klines - Candles, oldest first
+ * @param boxSize - Price move per brick
+ * @returns Completed bricks, oldest first
+ */
+export const toRenko = (klines: KlineData[], boxSize: number): KlineData[] => {
+  const collector = createBarCollector();
+  if (klines.length === 0) {
+    return collector.bars;
+  }
+
+  // Range of the last brick; both start at the first close
+  let top = klines[0].close;
+  let bottom = top;
+
+  klines.forEach(kline => {
+    collector.addVolume(kline);
+
+    while (kline.close >= top + boxSize) {
+      collector.add(kline, { open: top, high: top + boxSize, low: top, close: top + boxSize });
+      bottom = top;
+      top += boxSize;
+    }
+    while (kline.close <= bottom - boxSize) {
+      collector.add(kline, { open: bottom, high: bottom, low: bottom - boxSize, close: bottom - boxSize });
+      top = bottom;
+      bottom -= boxSize;
+    }
+  });
+
+  return collector.bars;
+};
+
+// Move the forming range bar to a price, closing every full bar on the way;
+// each new bar opens where the previous one closed
+const extendRangeBar = (bar: BarPrices, price: number, range: number, close: (bar: BarPrices) => void): BarPrices => {
+  let current = bar;
+  while (price > current.high && price - current.low >= range) {
+    const top = current.low + range;
+    close({ ...current, high: top, close: top });
+    current = { open: top, high: top, low: top, close: top };
+  }
+  while (price < current.low && current.high - price >= range) {
+    const bottom = current.high - range;
+    close({ ...current, low: bottom, close: bottom });
+    current = { open: bottom, high: bottom, low: bottom, close: bottom };
+  }
+
+  return {
+    open: current.open,
+    high: Math.max(current.high, price),
+    low: Math.min(current.low, price),
+    close: price
+  };
+};
+
+/**
+ * Range bars: a bar closes once its high and low are a full range apart.
+ * Candles carry no ticks, so price is taken to run open, low, high, close on
+ * rising candles and open, high, low, close on falling ones
+ * @param klines - Candles, oldest first
+ * @param range - Price range of a bar
+ * @returns Bars oldest first; the last one is still forming
+ */
+export const toRangeBars = (klines: KlineData[], range: number): KlineData[] => {
+  const collector = createBarCollector();
+  if (klines.length === 0) {
+    return collector.bars;
+  }
+
+  const first = klines[0].open;
+  let bar: BarPrices = { open: first, high: first, low: first, close: first };
+
+  klines.forEach(kline => {
+    collector.addVolume(kline);
+    const rising = kline.close >= kline.open;
+    const path = [kline.open, rising ? kline.low : kline.high, rising ? kline.high : kline.low, kline.close];
+    path.forEach(price => {
+      bar = extendRangeBar(bar, price, range, closed => collector.add(kline, closed));
+    });
+  });
+
+  collector.add(klines[klines.length - 1], bar);
+  return collector.bars;
+};
+
+/**
+ * Bars of a chart type
+ * @param klines - Candles, oldest first
+ * @param settings - Chart type and Renko box settings
+ * @param size - Box of fixed-box Renko and range of range bars, in price;
+ *   null uses the ATR. Sizes that would form too many bars are raised.
+ * @returns Bars to plot and, for Renko and range bars, the box size used
+ */
+export const buildChartSeries = (
+  klines: KlineData[],
+  settings: ChartSettings,
+  size: number | null
+): ChartSeries => {
+  switch (settings.type) {
+    case 'heikinAshi':
+      return { bars: toHeikinAshi(klines), boxSize: null };
+    case 'renko':
+    case 'range': {
+      const requested = settings.type === 'renko' && settings.renkoBoxMode === 'atr' ? null : size;
+      const boxSize = Math.max(requested ?? getAtrSize(klines, settings.atrPeriod) ?? 0, getMinBoxSize(klines));
+      if (!(boxSize > 0)) {
+        return { bars: [], boxSize: null };
+      }
+      return {
+        bars: settings.type === 'renko' ? toRenko(klines, boxSize) : toRangeBars(klines, boxSize),
+        boxSize
+      };
+    }
+    default:
+      return { bars: klines, boxSize: null };
+  }
+};
@@ -0,0 +1,171 @@
+/**
+ * Chart drawings
+ * This file contains the drawings analysts place on the candlestick chart and
+ * their import/export format. Points are anchored in epoch ms and price rather
+ * than in bar indexes, so a drawing stays on the same moment when the chart is
+ * zoomed or switched to another interval.
+ */
+
+export type DrawingTool = 'trendline' | 'horizontal' | 'ray' | 'rectangle' | 'fibonacci' | 'text';
+
+export const DRAWING_TOOLS: DrawingTool[] = ['trendline', 'horizontal', 'ray', 'rectangle', 'fibonacci', 'text'];
+
+export interface DrawingPoint {
+  // Epoch ms
+  time: number;
+  price: number;
+}
+
+export interface Drawing {
+  id: string;
+  tool: DrawingTool;
+  points: DrawingPoint[];
+  color: string;
+  // Note of a text drawing
+  text?: string;
+}
+
+// Contents of an exported drawings file
+export interface DrawingsFile {
+  version: number;
+  symbol: string;
+  exportedAt: string;
+  drawings: Drawing[];
+}
+
+export const DRAWINGS_FILE_VERSION = 1;
+
+// Points placed with the mouse to complete each tool
+export const DRAWING_POINT_COUNT: Record<DrawingTool, number> = {
+  trendline: 2,
+  horizontal: 1,
+  ray: 2,
+  rectangle: 2,
+  fibonacci: 2,
+  text: 1
+};
+
+export const DRAWING_COLORS: Record<DrawingTool, string> = {
+  trendline: '#2196f3',
+  horizontal: '#f0b90b',
+  ray: '#00bcd4',
+  rectangle: '#9c27b0',
+  fibonacci: '#ff9800',
+  text: '#d1d4dc'
+};
+
+// Retracement levels, from the second point (0) back to the first (1)
+export const FIBONACCI_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+/**
+ * Check that a value read from storage or a file is a usable drawing
+ * @param value - Parsed JSON value
+ * @returns Whether the value is a drawing with the points its tool needs
+ */
+export const isDrawing = (value: unknown): value is Drawing => {
+  const drawing = value as Drawing;
+  return typeof drawing === 'object'
+    && drawing !== null
+    && typeof drawing.id === 'string'
+    && DRAWING_TOOLS.includes(drawing.tool)
+    && typeof drawing.color === 'string'
+    && Array.isArray(drawing.points)
+    && drawing.points.length === DRAWING_POINT_COUNT[drawing.tool]
+    && drawing.points.every(point => point && isFiniteNumber(point.time) && isFiniteNumber(point.price))
+    && (drawing.tool !== 'text' || typeof drawing.text === 'string');
+};
+
+/**
+ * Build the export file for a symbol's drawings
+ * @param symbol - Trading pair symbol (e.g., 'BTCUSDT')
+ * @param drawings - Drawings to export
+ * @returns Pretty-printed JSON
+ */
+export const exportDrawings = (symbol: string, drawings: Drawing[]): string => {
+  const file: DrawingsFile = {
+    version: DRAWINGS_FILE_VERSION,
+    symbol,
+    exportedAt: new Date().toISOString(),
+    drawings
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Read an exported drawings file
+ * @param json - File contents
+ * @returns The symbol and drawings in the file; invalid drawings are skipped
+ * @throws Error when the contents are not a drawings file
+ */
+export const parseDrawingsFile = (json: string): Pick<DrawingsFile, 'symbol' | 'drawings'> => {
+  const file = JSON.parse(json) as DrawingsFile;
+  if (!file || typeof file.symbol !== 'string' || !Array.isArray(file.drawings)) {
+    throw new Error('Not a drawings file');
+  }
+  if (file.version > DRAWINGS_FILE_VERSION) {
+    throw new Error(`Unsupported drawings file version ${file.version}`);
+  }
+
+  return { symbol: file.symbol, drawings: file.drawings.filter(isDrawing) };
+};
+
+/**
+ * Fractional bar index of a time, interpolated between the bars around it
+ * and extrapolated by the outermost bar spacing beyond either end
+ * @param times - Open times of the bars on the chart in epoch ms, oldest first;
+ *   Renko and range bars formed in the same candle share a time
+ * @param time - Epoch ms
+ * @returns Logical index on the chart's time scale, or null without bars
+ */
+export const timeToLogical = (times: number[], time: number): number | null => {
+  if (times.length === 0) {
+    return null;
+  }
+  if (times.length === 1) {
+    return 0;
+  }
+
+  const last = times.length - 1;
+  if (time <= times[0]) {
+    const spacing = times[1] - times[0];
+    return spacing > 0 ? (time - times[0]) / spacing : 0;
+  }
+  if (time >= times[last]) {
+    const spacing = times[last] - times[last - 1];
+    return spacing > 0 ? last + (time - times[last]) / spacing : last;
+  }
+
+  // Last bar opening at or before the time
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (times[middle] <= time) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return low + (time - times[low]) / (times[high] - times[low]);
+};
+
+/**
+ * Time at a fractional bar index; the inverse of timeToLogical
+ * @param times - Open times of the bars on the chart in epoch ms, oldest first
+ * @param logical - Logical index on the chart's time scale
+ * @returns Epoch ms, or null without bars
+ */
+export const logicalToTime = (times: number[], logical: number): number | null => {
+  if (times.length === 0) {
+    return null;
+  }
+  if (times.length === 1) {
+    return times[0];
+  }
+
+  const last = times.length - 1;
+  const index = Math.min(Math.max(Math.floor(logical), 0), last - 1);
+  return times[index] + (logical - index) * (times[index + 1] - times[index]);
+};
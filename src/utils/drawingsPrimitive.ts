@@ -0,0 +1,261 @@
+/**
+ * Drawings layer
+ * This file contains the lightweight-charts series primitive that paints the
+ * chart drawings over the candles. It is attached to the candlestick series,
+ * so it is repainted with the chart on every zoom, pan and price scale change
+ * and converts the time/price anchors to pixels each time.
+ */
+
+import {
+  IPrimitivePaneRenderer,
+  ISeriesPrimitive,
+  Logical,
+  SeriesAttachedParameter,
+  Time
+} from 'lightweight-charts';
+import { Drawing, FIBONACCI_LEVELS, timeToLogical } from './drawings';
+
+type RenderingTarget = Parameters<IPrimitivePaneRenderer['draw']>[0];
+
+export interface DrawingsPrimitive extends ISeriesPrimitive<Time> {
+  // Saved drawings, and the one to highlight
+  setDrawings: (drawings: Drawing[], selectedId: string | null) => void;
+  // Drawing being placed, following the mouse
+  setDraft: (draft: Drawing | null) => void;
+  // Open times of the bars on the chart in epoch ms, oldest first
+  setTimeline: (times: number[]) => void;
+  setPriceFormatter: (formatter: (price: number) => string) => void;
+  // Id of the drawing under a point of the pane, in CSS pixels
+  findDrawingAt: (x: number, y: number) => string | null;
+}
+
+interface Segment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+interface Label {
+  x: number;
+  y: number;
+  text: string;
+}
+
+// A drawing in pixels
+interface Shape {
+  drawing: Drawing;
+  segments: Segment[];
+  box?: { x: number; y: number; width: number; height: number };
+  labels: Label[];
+}
+
+// Distance in pixels within which a click selects a drawing
+const HIT_TOLERANCE = 5;
+
+const FONT = '12px sans-serif';
+const TEXT_HEIGHT = 14;
+// Rough glyph width, for hit testing text without a canvas at hand
+const TEXT_CHAR_WIDTH = 7;
+
+const distanceToSegment = (x: number, y: number, { x1, y1, x2, y2 }: Segment) => {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSquared));
+  return Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+};
+
+/**
+ * Create the layer that paints drawings; attach it with series.attachPrimitive
+ * @returns Primitive with setters for the drawings and the chart's bar times
+ */
+export const createDrawingsPrimitive = (): DrawingsPrimitive => {
+  let attached: SeriesAttachedParameter<Time> | null = null;
+  let drawings: Drawing[] = [];
+  let selectedId: string | null = null;
+  let draft: Drawing | null = null;
+  let times: number[] = [];
+  let formatPrice = (price: number) => price.toString();
+  // Pane size from the last paint, to extend rays and levels to the edge
+  let paneSize = { width: 0, height: 0 };
+
+  const requestUpdate = () => attached?.requestUpdate();
+
+  const toX = (time: number): number | null => {
+    const logical = timeToLogical(times, time);
+    if (!attached || logical === null) {
+      return null;
+    }
+    return attached.chart.timeScale().logicalToCoordinate(logical as Logical);
+  };
+
+  const toY = (price: number): number | null => attached ? attached.series.priceToCoordinate(price) : null;
+
+  const getShape = (drawing: Drawing): Shape | null => {
+    const points = drawing.points.map(point => ({ x: toX(point.time), y: toY(point.price) }));
+    if (points.some(point => point.x === null || point.y === null)) {
+      return null;
+    }
+
+    const [a, b] = points as { x: number; y: number }[];
+    const shape: Shape = { drawing, segments: [], labels: [] };
+
+    switch (drawing.tool) {
+      case 'trendline':
+        shape.segments.push({ x1: a.x, y1: a.y, x2: b.x, y2: b.y });
+        break;
+      case 'ray': {
+        // Extended from the first point through the second until well past the pane edge
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const length = Math.hypot(dx, dy);
+        const scale = length === 0
+          ? 1
+          : Math.max(1, (Math.abs(a.x) + Math.abs(a.y) + 2 * (paneSize.width + paneSize.height)) / length);
+        shape.segments.push({ x1: a.x, y1: a.y, x2: a.x + dx * scale, y2: a.y + dy * scale });
+        break;
+      }
+      case 'horizontal':
+        shape.segments.push({ x1: 0, y1: a.y, x2: paneSize.width, y2: a.y });
+        shape.labels.push({ x: 4, y: a.y - 4, text: formatPrice(drawing.points[0].price) });
+        break;
+      case 'rectangle':
+        shape.box = {
+          x: Math.min(a.x, b.x),
+          y: Math.min(a.y, b.y),
+          width: Math.abs(b.x - a.x),
+          height: Math.abs(b.y - a.y)
+        };
+        break;
+      case 'fibonacci': {
+        const [first, second] = drawing.points;
+        const left = Math.min(a.x, b.x);
+        const right = Math.max(a.x, b.x);
+        FIBONACCI_LEVELS.forEach(level => {
+          const price = second.price + (first.price - second.price) * level;
+          const y = toY(price);
+          if (y !== null) {
+            shape.segments.push({ x1: left, y1: y, x2: right, y2: y });
+            shape.labels.push({ x: left + 4, y: y - 4, text: `${level} (${formatPrice(price)})` });
+          }
+        });
+        break;
+      }
+      case 'text':
+        shape.labels.push({ x: a.x, y: a.y, text: drawing.text || '' });
+        break;
+    }
+
+    return shape;
+  };
+
+  const paint = (context: CanvasRenderingContext2D, shape: Shape, highlighted: boolean) => {
+    const { color } = shape.drawing;
+    context.strokeStyle = color;
+    context.fillStyle = color;
+    context.lineWidth = highlighted ? 2 : 1;
+    context.setLineDash(shape.drawing.tool === 'fibonacci' ? [4, 4] : []);
+
+    shape.segments.forEach(({ x1, y1, x2, y2 }) => {
+      context.beginPath();
+      context.moveTo(x1, y1);
+      context.lineTo(x2, y2);
+      context.stroke();
+    });
+
+    if (shape.box) {
+      const { x, y, width, height } = shape.box;
+      context.globalAlpha = 0.15;
+      context.fillRect(x, y, width, height);
+      context.globalAlpha = 1;
+      context.strokeRect(x, y, width, height);
+    }
+
+    context.font = FONT;
+    shape.labels.forEach(label => context.fillText(label.text, label.x, label.y));
+
+    // Handles on the anchors of the selected drawing
+    if (highlighted) {
+      shape.drawing.points.forEach(point => {
+        const x = toX(point.time);
+        const y = toY(point.price);
+        if (x !== null && y !== null) {
+          context.fillRect(x - 3, y - 3, 6, 6);
+        }
+      });
+    }
+  };
+
+  const renderer: IPrimitivePaneRenderer = {
+    draw: (target: RenderingTarget) => {
+      target.useMediaCoordinateSpace(({ context, mediaSize }) => {
+        paneSize = mediaSize;
+        context.save();
+        drawings.concat(draft ? [draft] : []).forEach(drawing => {
+          const shape = getShape(drawing);
+          if (shape) {
+            paint(context, shape, drawing.id === selectedId || drawing === draft);
+          }
+        });
+        context.restore();
+      });
+    }
+  };
+
+  const paneView = {
+    zOrder: () => 'top' as const,
+    renderer: () => renderer
+  };
+
+  return {
+    attached: param => {
+      attached = param;
+    },
+    detached: () => {
+      attached = null;
+    },
+    paneViews: () => [paneView],
+    setDrawings: (next, nextSelectedId) => {
+      drawings = next;
+      selectedId = nextSelectedId;
+      requestUpdate();
+    },
+    setDraft: next => {
+      draft = next;
+      requestUpdate();
+    },
+    setTimeline: next => {
+      times = next;
+      requestUpdate();
+    },
+    setPriceFormatter: formatter => {
+      formatPrice = formatter;
+      requestUpdate();
+    },
+    findDrawingAt: (x, y) => {
+      // Topmost first
+      for (let i = drawings.length - 1; i >= 0; i--) {
+        const shape = getShape(drawings[i]);
+        if (!shape) {
+          continue;
+        }
+
+        const { box } = shape;
+        const onSegment = shape.segments.some(segment => distanceToSegment(x, y, segment) <= HIT_TOLERANCE);
+        const inBox = box !== undefined
+          && x >= box.x - HIT_TOLERANCE && x <= box.x + box.width + HIT_TOLERANCE
+          && y >= box.y - HIT_TOLERANCE && y <= box.y + box.height + HIT_TOLERANCE;
+        const onText = shape.drawing.tool === 'text' && shape.labels.some(label => (
+          x >= label.x && x <= label.x + label.text.length * TEXT_CHAR_WIDTH
+          && y >= label.y - TEXT_HEIGHT && y <= label.y
+        ));
+
+        if (onSegment || inBox || onText) {
+          return shape.drawing.id;
+        }
+      }
+      return null;
+    }
+  };
+};
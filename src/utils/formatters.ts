@@ -3,6 +3,8 @@
  * This file contains utility functions for formatting data
  */
 
+import { SymbolPrecision } from './precision';
+
 /**
  * Format a number as currency
  * @param value - The number to format
@@ -69,28 +71,6 @@ export const formatDate = (
     .replace('ss', seconds);
 };
 
-/**
- * Format a time interval
- * @param interval - The interval string (e.g., '1m', '1h', '1d')
- * @returns Human-readable interval string
- */
-export const formatInterval = (interval: string): string => {
-  const value = interval.slice(0, -1);
-  const unit = interval.slice(-1);
-  
-  const unitMap: Record<string, string> = {
-    'm': 'Minute',
-    'h': 'Hour',
-    'd': 'Day',
-    'w': 'Week',
-    'M': 'Month'
-  };
-  
-  const unitName = unitMap[unit] || unit;
-  
-  return `${value} ${unitName}${value !== '1' ? 's' : ''}`;
-};
-
 /**
  * Format a large number with abbreviations (K, M, B)
  * @param value - The number to format
@@ -107,4 +87,39 @@ export const formatLargeNumber = (value: number, decimals: number = 1): string =
   } else {
     return value.toFixed(decimals);
   }
-}; 
\ No newline at end of file
+}; 
+
+/**
+ * Format a price with the symbol's precision
+ * @param value - The price to format
+ * @param precision - Precision of the symbol (see usePrecision)
+ * @returns Price with thousands separators and the symbol's tick decimals
+ */
+export const formatPrice = (value: number, precision: SymbolPrecision): string => {
+  return formatNumber(value, precision.price);
+};
+
+/**
+ * Format a quantity with the symbol's precision
+ * @param value - The quantity to format
+ * @param precision - Precision of the symbol (see usePrecision)
+ * @returns Quantity with thousands separators and the symbol's step decimals
+ */
+export const formatQuantity = (value: number, precision: SymbolPrecision): string => {
+  return formatNumber(value, precision.quantity);
+};
+
+/**
+ * Format a duration as a countdown
+ * @param milliseconds - Remaining time; negative values count as zero
+ * @returns Countdown string (e.g., '07:59:12', or '2d 03:00:00' beyond a day)
+ */
+export const formatCountdown = (milliseconds: number): string => {
+  const totalSeconds = Math.max(Math.floor(milliseconds / 1000), 0);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600).toString().padStart(2, '0');
+  const minutes = Math.floor((totalSeconds % 3600) / 60).toString().padStart(2, '0');
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  
+  return `${days > 0 ? `${days}d ` : ''}${hours}:${minutes}:${seconds}`;
+};
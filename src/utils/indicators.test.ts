@@ -0,0 +1,122 @@
+import { computeIndicator, createIndicator, getDefaultParams, getIndicatorLabel, isValidParam, INDICATORS } from './indicators';
+import { KlineData } from '../types/api';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+// Hourly candles on the given closes; each ranges one below to one above its close
+const candles = (closes: number[], volume: number = 1): KlineData[] => closes.map((close, index) => ({
+  time: new Date(START + index * HOUR).toISOString(),
+  open: close,
+  high: close + 1,
+  low: close - 1,
+  close,
+  volume,
+  closeTime: new Date(START + (index + 1) * HOUR - 1).toISOString(),
+  quoteVolume: close * volume,
+  trades: 1,
+  takerBuyBaseVolume: volume / 2,
+  takerBuyQuoteVolume: (close * volume) / 2,
+  isRising: true
+}));
+
+const values = (output: ReturnType<typeof computeIndicator>, key: string = 'value') => output.map(item => item[key]);
+
+describe('moving averages', () => {
+  test('SMA is null until the window fills', () => {
+    expect(values(computeIndicator('sma', { period: 3 }, candles([1, 2, 3, 4, 5])))).toEqual([null, null, 2, 3, 4]);
+  });
+
+  test('WMA weights the newest close heaviest', () => {
+    expect(values(computeIndicator('wma', { period: 3 }, candles([1, 2, 3, 4])))).toEqual([
+      null,
+      null,
+      (1 + 4 + 9) / 6,
+      (2 + 6 + 12) / 6
+    ]);
+  });
+
+  test('EMA is seeded with the mean of the first period', () => {
+    const result = values(computeIndicator('ema', { period: 3 }, candles([1, 2, 3, 7])));
+    expect(result.slice(0, 3)).toEqual([null, null, 2]);
+    expect(result[3]).toBeCloseTo(2 + 0.5 * (7 - 2));
+  });
+});
+
+describe('oscillators', () => {
+  test('RSI reaches 100 on closes that only rise and 50 on flat closes', () => {
+    expect(values(computeIndicator('rsi', { period: 3 }, candles([1, 2, 3, 4, 5])))).toEqual([null, null, null, 100, 100]);
+    expect(values(computeIndicator('rsi', { period: 2 }, candles([5, 5, 5, 5])))).toEqual([null, null, 50, 50]);
+  });
+
+  test('stochastic places the close in the range and averages it for %D', () => {
+    const result = computeIndicator('stochastic', { kPeriod: 2, dPeriod: 2 }, candles([10, 12, 10]));
+    // Second candle: range 9-13, close 12; third: range 9-13, close 10
+    expect(values(result, 'k')).toEqual([null, 75, 25]);
+    expect(values(result, 'd')).toEqual([null, null, 50]);
+  });
+
+  test('MACD starts its signal line once the MACD line has values', () => {
+    const result = computeIndicator('macd', { fast: 2, slow: 3, signal: 2 }, candles([1, 2, 3, 4, 5]));
+    expect(values(result, 'macd').slice(0, 2)).toEqual([null, null]);
+    expect(values(result, 'signal').slice(0, 3)).toEqual([null, null, null]);
+    expect(result[4].histogram).toBeCloseTo((result[4].macd as number) - (result[4].signal as number));
+  });
+});
+
+describe('bands and ranges', () => {
+  test('Bollinger Bands sit the multiplier of standard deviations around the SMA', () => {
+    const [, last] = computeIndicator('bollinger', { period: 2, multiplier: 2 }, candles([1, 3]));
+    expect(last).toEqual({ middle: 2, upper: 4, lower: 0 });
+  });
+
+  test('ATR takes gaps from the previous close into the true range', () => {
+    // Ranges of 2, then 4 including the gap from 10 down to 6-8
+    expect(values(computeIndicator('atr', { period: 2 }, candles([10, 7])))).toEqual([null, 3]);
+  });
+});
+
+describe('anchored VWAP', () => {
+  test('restarts at the day anchor', () => {
+    const klines = candles(Array.from({ length: 26 }, (_, index) => 100 + index));
+    const result = values(computeIndicator('vwap', { anchor: 'day' }, klines));
+
+    expect(result[0]).toBe(100);
+    expect(result[1]).toBe(100.5);
+    // The 25th candle opens the next UTC day
+    expect(result[24]).toBe(124);
+    expect(result[25]).toBe(124.5);
+  });
+});
+
+describe('calculators', () => {
+  test('peek leaves the state as it was', () => {
+    const calculator = createIndicator('sma', { period: 2 });
+    const [first, second] = candles([1, 3]);
+    calculator.push(first);
+
+    expect(calculator.peek({ ...second, close: 100 }).value).toBe(50.5);
+    expect(calculator.push(second).value).toBe(2);
+  });
+
+  test('invalid parameters fall back to the defaults', () => {
+    const klines = candles(Array.from({ length: 25 }, (_, index) => index));
+    expect(computeIndicator('sma', { period: 0 }, klines)).toEqual(computeIndicator('sma', getDefaultParams('sma'), klines));
+  });
+
+  test('parameters are checked against their bounds and options', () => {
+    const [period] = INDICATORS.sma.params;
+    const [anchor] = INDICATORS.vwap.params;
+
+    expect(isValidParam(period, 20)).toBe(true);
+    expect(isValidParam(period, 2.5)).toBe(false);
+    expect(isValidParam(period, 501)).toBe(false);
+    expect(isValidParam(anchor, 'week')).toBe(true);
+    expect(isValidParam(anchor, 'month')).toBe(false);
+  });
+
+  test('labels list the parameters', () => {
+    expect(getIndicatorLabel({ type: 'macd', params: getDefaultParams('macd') })).toBe('MACD 12 26 9');
+    expect(getIndicatorLabel({ type: 'vwap', params: { anchor: 'session' } })).toBe('VWAP Session');
+  });
+});
@@ -0,0 +1,511 @@
+/**
+ * Technical indicators
+ * This file contains the indicators drawn on the candlestick chart. Each one
+ * is a calculator fed one candle at a time, so a live update only recomputes
+ * the newest candle: closed candles are pushed into the calculator state,
+ * while the candle still forming is peeked at without changing it.
+ */
+
+import { getAnchorStart } from '../api/cvd';
+import { KlineData } from '../types/api';
+
+export type IndicatorType =
+  | 'sma'
+  | 'ema'
+  | 'wma'
+  | 'rsi'
+  | 'macd'
+  | 'bollinger'
+  | 'atr'
+  | 'stochastic'
+  | 'vwap';
+
+export type IndicatorParams = Record<string, number | string>;
+
+// Values of one candle by output key; null until enough candles have been seen
+export type IndicatorValues = Record<string, number | null>;
+
+export interface IndicatorCalculator {
+  // Values of a closed candle, which later candles build on
+  push: (kline: KlineData) => IndicatorValues;
+  // Values of the candle still forming; the state is left as it was
+  peek: (kline: KlineData) => IndicatorValues;
+}
+
+export interface IndicatorParamDefinition {
+  key: string;
+  label: string;
+  defaultValue: number | string;
+  // Bounds of a numeric parameter
+  min?: number;
+  max?: number;
+  step?: number;
+  // Choices of a string parameter
+  options?: { value: string; label: string }[];
+}
+
+export interface IndicatorOutput {
+  key: string;
+  label: string;
+  color: string;
+  // Drawn as bars around zero instead of a line
+  histogram?: boolean;
+}
+
+export interface IndicatorDefinition {
+  type: IndicatorType;
+  label: string;
+  // Used in chart labels next to the parameters
+  shortLabel: string;
+  // Overlays share the price scale of the candles; the others get a pane of their own
+  placement: 'overlay' | 'pane';
+  // Price units are shown with the symbol's price decimals; index values range 0-100
+  unit: 'price' | 'index';
+  params: IndicatorParamDefinition[];
+  outputs: IndicatorOutput[];
+  // Reference levels drawn across the pane
+  levels?: number[];
+  create: (params: IndicatorParams) => IndicatorCalculator;
+}
+
+// An indicator added to the chart
+export interface IndicatorConfig {
+  id: string;
+  type: IndicatorType;
+  params: IndicatorParams;
+}
+
+// Where the anchored VWAP restarts
+export type VwapAnchor = 'session' | 'day' | 'week';
+
+// State of a moving average fed one number at a time
+interface Averager<S> {
+  initial: S;
+  next: (state: S, value: number) => [S, number | null];
+}
+
+interface SmoothedState {
+  count: number;
+  sum: number;
+  value: number | null;
+}
+
+type Step<S> = (state: S, kline: KlineData) => [S, IndicatorValues];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const sum = (values: number[]) => values.reduce((acc, value) => acc + value, 0);
+
+const createCalculator = <S>(initial: S, step: Step<S>): IndicatorCalculator => {
+  let state = initial;
+  return {
+    push: kline => {
+      const [next, values] = step(state, kline);
+      state = next;
+      return values;
+    },
+    peek: kline => step(state, kline)[1]
+  };
+};
+
+// Arithmetic mean of the last `period` values
+const sma = (period: number): Averager<number[]> => ({
+  initial: [],
+  next: (window, value) => {
+    const next = window.concat(value).slice(-period);
+    return [next, next.length === period ? sum(next) / period : null];
+  }
+});
+
+// Mean of the last `period` values weighted 1..period, newest heaviest
+const wma = (period: number): Averager<number[]> => ({
+  initial: [],
+  next: (window, value) => {
+    const next = window.concat(value).slice(-period);
+    if (next.length < period) {
+      return [next, null];
+    }
+    const weighted = next.reduce((acc, item, index) => acc + item * (index + 1), 0);
+    return [next, weighted / ((period * (period + 1)) / 2)];
+  }
+});
+
+// Exponential smoothing seeded with the mean of the first `period` values
+const smoothed = (period: number, alpha: number): Averager<SmoothedState> => ({
+  initial: { count: 0, sum: 0, value: null },
+  next: (state, value) => {
+    if (state.value !== null) {
+      const next = state.value + alpha * (value - state.value);
+      return [{ ...state, value: next }, next];
+    }
+
+    const count = state.count + 1;
+    const total = state.sum + value;
+    const seeded = count === period ? total / period : null;
+    return [{ count, sum: total, value: seeded }, seeded];
+  }
+});
+
+const ema = (period: number) => smoothed(period, 2 / (period + 1));
+
+// Wilder's smoothing, used by RSI and ATR
+const rma = (period: number) => smoothed(period, 1 / period);
+
+// Indicator with a single line over the close
+const closeAverage = <S>(averager: Averager<S>): IndicatorCalculator => createCalculator(
+  averager.initial,
+  (state, kline) => {
+    const [next, value] = averager.next(state, kline.close);
+    return [next, { value }];
+  }
+);
+
+const createRsi = (period: number): IndicatorCalculator => {
+  const gains = rma(period);
+  const losses = rma(period);
+
+  return createCalculator(
+    { prevClose: null as number | null, gain: gains.initial, loss: losses.initial },
+    (state, kline) => {
+      if (state.prevClose === null) {
+        return [{ ...state, prevClose: kline.close }, { value: null }];
+      }
+
+      const change = kline.close - state.prevClose;
+      const [gain, avgGain] = gains.next(state.gain, Math.max(change, 0));
+      const [loss, avgLoss] = losses.next(state.loss, Math.max(-change, 0));
+      const next = { prevClose: kline.close, gain, loss };
+
+      if (avgGain === null || avgLoss === null) {
+        return [next, { value: null }];
+      }
+      if (avgLoss === 0) {
+        return [next, { value: avgGain === 0 ? 50 : 100 }];
+      }
+      return [next, { value: 100 - 100 / (1 + avgGain / avgLoss) }];
+    }
+  );
+};
+
+const createMacd = (fastPeriod: number, slowPeriod: number, signalPeriod: number): IndicatorCalculator => {
+  const fast = ema(fastPeriod);
+  const slow = ema(slowPeriod);
+  const signal = ema(signalPeriod);
+
+  return createCalculator(
+    { fast: fast.initial, slow: slow.initial, signal: signal.initial },
+    (state, kline) => {
+      const [fastState, fastValue] = fast.next(state.fast, kline.close);
+      const [slowState, slowValue] = slow.next(state.slow, kline.close);
+      if (fastValue === null || slowValue === null) {
+        return [{ ...state, fast: fastState, slow: slowState }, { macd: null, signal: null, histogram: null }];
+      }
+
+      // The signal line only starts once the MACD line has values
+      const macd = fastValue - slowValue;
+      const [signalState, signalValue] = signal.next(state.signal, macd);
+      return [
+        { fast: fastState, slow: slowState, signal: signalState },
+        { macd, signal: signalValue, histogram: signalValue !== null ? macd - signalValue : null }
+      ];
+    }
+  );
+};
+
+const createBollinger = (period: number, multiplier: number): IndicatorCalculator => createCalculator(
+  [] as number[],
+  (window, kline) => {
+    const next = window.concat(kline.close).slice(-period);
+    if (next.length < period) {
+      return [next, { middle: null, upper: null, lower: null }];
+    }
+
+    const middle = sum(next) / period;
+    const deviation = Math.sqrt(sum(next.map(value => (value - middle) * (value - middle))) / period);
+    return [next, { middle, upper: middle + multiplier * deviation, lower: middle - multiplier * deviation }];
+  }
+);
+
+const createAtr = (period: number): IndicatorCalculator => {
+  const average = rma(period);
+
+  return createCalculator(
+    { prevClose: null as number | null, average: average.initial },
+    (state, kline) => {
+      const trueRange = state.prevClose === null
+        ? kline.high - kline.low
+        : Math.max(kline.high, state.prevClose) - Math.min(kline.low, state.prevClose);
+      const [next, value] = average.next(state.average, trueRange);
+      return [{ prevClose: kline.close, average: next }, { value }];
+    }
+  );
+};
+
+const createStochastic = (kPeriod: number, dPeriod: number): IndicatorCalculator => {
+  const signal = sma(dPeriod);
+
+  return createCalculator(
+    { window: [] as KlineData[], signal: signal.initial },
+    (state, kline) => {
+      const window = state.window.concat(kline).slice(-kPeriod);
+      if (window.length < kPeriod) {
+        return [{ ...state, window }, { k: null, d: null }];
+      }
+
+      const highest = Math.max(...window.map(item => item.high));
+      const lowest = Math.min(...window.map(item => item.low));
+      // A flat range has no position in it; call it the middle
+      const k = highest === lowest ? 50 : ((kline.close - lowest) / (highest - lowest)) * 100;
+      const [signalState, d] = signal.next(state.signal, k);
+      return [{ window, signal: signalState }, { k, d }];
+    }
+  );
+};
+
+// Start of the anchor period a time falls in; weeks start on Monday 00:00 UTC
+const getVwapAnchorStart = (time: number, anchor: VwapAnchor): number => {
+  if (anchor !== 'week') {
+    return getAnchorStart(time, anchor);
+  }
+
+  const dayStart = Math.floor(time / DAY) * DAY;
+  return dayStart - ((new Date(dayStart).getUTCDay() + 6) % 7) * DAY;
+};
+
+const createVwap = (anchor: VwapAnchor): IndicatorCalculator => createCalculator(
+  { periodStart: -1, priceVolume: 0, volume: 0 },
+  (state, kline) => {
+    const start = getVwapAnchorStart(new Date(kline.time).getTime(), anchor);
+    const base = start === state.periodStart ? state : { periodStart: start, priceVolume: 0, volume: 0 };
+    const typicalPrice = (kline.high + kline.low + kline.close) / 3;
+    const next = {
+      periodStart: start,
+      priceVolume: base.priceVolume + typicalPrice * kline.volume,
+      volume: base.volume + kline.volume
+    };
+    return [next, { value: next.volume > 0 ? next.priceVolume / next.volume : null }];
+  }
+);
+
+const periodParam = (defaultValue: number): IndicatorParamDefinition => ({
+  key: 'period',
+  label: 'Period',
+  defaultValue,
+  min: 1,
+  max: 500,
+  step: 1
+});
+
+export const INDICATORS: Record<IndicatorType, IndicatorDefinition> = {
+  sma: {
+    type: 'sma',
+    label: 'SMA',
+    shortLabel: 'SMA',
+    placement: 'overlay',
+    unit: 'price',
+    params: [periodParam(20)],
+    outputs: [{ key: 'value', label: 'SMA', color: '#ff9800' }],
+    create: params => closeAverage(sma(Number(params.period)))
+  },
+  ema: {
+    type: 'ema',
+    label: 'EMA',
+    shortLabel: 'EMA',
+    placement: 'overlay',
+    unit: 'price',
+    params: [periodParam(21)],
+    outputs: [{ key: 'value', label: 'EMA', color: '#e040fb' }],
+    create: params => closeAverage(ema(Number(params.period)))
+  },
+  wma: {
+    type: 'wma',
+    label: 'WMA',
+    shortLabel: 'WMA',
+    placement: 'overlay',
+    unit: 'price',
+    params: [periodParam(20)],
+    outputs: [{ key: 'value', label: 'WMA', color: '#00bcd4' }],
+    create: params => closeAverage(wma(Number(params.period)))
+  },
+  bollinger: {
+    type: 'bollinger',
+    label: 'Bollinger Bands',
+    shortLabel: 'BB',
+    placement: 'overlay',
+    unit: 'price',
+    params: [
+      periodParam(20),
+      { key: 'multiplier', label: 'StdDev', defaultValue: 2, min: 0.5, max: 5, step: 0.5 }
+    ],
+    outputs: [
+      { key: 'upper', label: 'Upper', color: '#42a5f5' },
+      { key: 'middle', label: 'Basis', color: '#ff9800' },
+      { key: 'lower', label: 'Lower', color: '#42a5f5' }
+    ],
+    create: params => createBollinger(Number(params.period), Number(params.multiplier))
+  },
+  vwap: {
+    type: 'vwap',
+    label: 'Anchored VWAP',
+    shortLabel: 'VWAP',
+    placement: 'overlay',
+    unit: 'price',
+    params: [{
+      key: 'anchor',
+      label: 'Anchor',
+      defaultValue: 'day',
+      options: [
+        { value: 'session', label: 'Session' },
+        { value: 'day', label: 'Day' },
+        { value: 'week', label: 'Week' }
+      ]
+    }],
+    outputs: [{ key: 'value', label: 'VWAP', color: '#ffeb3b' }],
+    create: params => createVwap(params.anchor as VwapAnchor)
+  },
+  rsi: {
+    type: 'rsi',
+    label: 'RSI',
+    shortLabel: 'RSI',
+    placement: 'pane',
+    unit: 'index',
+    params: [periodParam(14)],
+    outputs: [{ key: 'value', label: 'RSI', color: '#b39ddb' }],
+    levels: [30, 70],
+    create: params => createRsi(Number(params.period))
+  },
+  macd: {
+    type: 'macd',
+    label: 'MACD',
+    shortLabel: 'MACD',
+    placement: 'pane',
+    unit: 'price',
+    params: [
+      { key: 'fast', label: 'Fast', defaultValue: 12, min: 1, max: 200, step: 1 },
+      { key: 'slow', label: 'Slow', defaultValue: 26, min: 1, max: 400, step: 1 },
+      { key: 'signal', label: 'Signal', defaultValue: 9, min: 1, max: 100, step: 1 }
+    ],
+    outputs: [
+      { key: 'histogram', label: 'Histogram', color: '#787b86', histogram: true },
+      { key: 'macd', label: 'MACD', color: '#2196f3' },
+      { key: 'signal', label: 'Signal', color: '#ff9800' }
+    ],
+    levels: [0],
+    create: params => createMacd(Number(params.fast), Number(params.slow), Number(params.signal))
+  },
+  atr: {
+    type: 'atr',
+    label: 'ATR',
+    shortLabel: 'ATR',
+    placement: 'pane',
+    unit: 'price',
+    params: [periodParam(14)],
+    outputs: [{ key: 'value', label: 'ATR', color: '#ef9a9a' }],
+    create: params => createAtr(Number(params.period))
+  },
+  stochastic: {
+    type: 'stochastic',
+    label: 'Stochastic',
+    shortLabel: 'Stoch',
+    placement: 'pane',
+    unit: 'index',
+    params: [
+      { key: 'kPeriod', label: '%K', defaultValue: 14, min: 1, max: 200, step: 1 },
+      { key: 'dPeriod', label: '%D', defaultValue: 3, min: 1, max: 50, step: 1 }
+    ],
+    outputs: [
+      { key: 'k', label: '%K', color: '#2196f3' },
+      { key: 'd', label: '%D', color: '#ff9800' }
+    ],
+    levels: [20, 80],
+    create: params => createStochastic(Number(params.kPeriod), Number(params.dPeriod))
+  }
+};
+
+export const INDICATOR_TYPES: IndicatorType[] = [
+  'sma',
+  'ema',
+  'wma',
+  'bollinger',
+  'vwap',
+  'rsi',
+  'macd',
+  'atr',
+  'stochastic'
+];
+
+/**
+ * Default parameters of an indicator
+ * @param type - Indicator type
+ * @returns Every parameter at its default value
+ */
+export const getDefaultParams = (type: IndicatorType): IndicatorParams => {
+  return INDICATORS[type].params.reduce<IndicatorParams>((acc, param) => {
+    acc[param.key] = param.defaultValue;
+    return acc;
+  }, {});
+};
+
+/**
+ * Check a parameter value against its definition
+ * @param param - Parameter definition
+ * @param value - Candidate value
+ * @returns Whether the indicator can be created with the value
+ */
+export const isValidParam = (param: IndicatorParamDefinition, value: unknown): boolean => {
+  if (param.options) {
+    return param.options.some(option => option.value === value);
+  }
+
+  return typeof value === 'number'
+    && isFinite(value)
+    && (param.min === undefined || value >= param.min)
+    && (param.max === undefined || value <= param.max)
+    && (param.step !== 1 || Number.isInteger(value));
+};
+
+/**
+ * Create a calculator for an indicator
+ * @param type - Indicator type
+ * @param params - Parameters; missing or invalid ones fall back to the defaults
+ * @returns Calculator to feed candles into, oldest first
+ */
+export const createIndicator = (type: IndicatorType, params: IndicatorParams): IndicatorCalculator => {
+  const definition = INDICATORS[type];
+  const resolved = definition.params.reduce<IndicatorParams>((acc, param) => {
+    acc[param.key] = isValidParam(param, params[param.key]) ? params[param.key] : param.defaultValue;
+    return acc;
+  }, {});
+  return definition.create(resolved);
+};
+
+/**
+ * Compute an indicator over a series of candles
+ * @param type - Indicator type
+ * @param params - Indicator parameters
+ * @param klines - Candles, oldest first
+ * @returns Values for each candle, oldest first
+ */
+export const computeIndicator = (
+  type: IndicatorType,
+  params: IndicatorParams,
+  klines: KlineData[]
+): IndicatorValues[] => {
+  const calculator = createIndicator(type, params);
+  return klines.map(kline => calculator.push(kline));
+};
+
+/**
+ * Short label of a configured indicator
+ * @param config - Indicator on the chart
+ * @returns Label with the parameters (e.g., 'EMA 21', 'MACD 12 26 9')
+ */
+export const getIndicatorLabel = (config: Pick<IndicatorConfig, 'type' | 'params'>): string => {
+  const definition = INDICATORS[config.type];
+  const values = definition.params.map(param => {
+    const value = config.params[param.key];
+    const option = param.options?.find(item => item.value === value);
+    return option ? option.label : String(value);
+  });
+  return [definition.shortLabel, ...values].join(' ');
+};
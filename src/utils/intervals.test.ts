@@ -0,0 +1,96 @@
+import {
+  addIntervals,
+  formatInterval,
+  getCandleClose,
+  getCandleOpen,
+  getIntervalDuration,
+  getIntervalTimeFormat,
+  isInterval,
+  parseInterval
+} from './intervals';
+
+const utc = (iso: string) => new Date(iso).getTime();
+const iso = (time: number) => new Date(time).toISOString();
+
+describe('parseInterval', () => {
+  test('splits the count from the unit', () => {
+    expect(parseInterval('15m')).toEqual({ count: 15, unit: 'm' });
+    expect(parseInterval('1M')).toEqual({ count: 1, unit: 'M' });
+  });
+
+  test('rejects codes Binance does not serve', () => {
+    expect(() => parseInterval('7m')).toThrow('Unsupported interval: 7m');
+    expect(isInterval('2d')).toBe(false);
+    expect(isInterval('12h')).toBe(true);
+  });
+});
+
+describe('getIntervalDuration', () => {
+  test('gives the nominal length, a month counting as 30 days', () => {
+    expect(getIntervalDuration('1s')).toBe(1000);
+    expect(getIntervalDuration('4h')).toBe(4 * 60 * 60 * 1000);
+    expect(getIntervalDuration('1M')).toBe(30 * 24 * 60 * 60 * 1000);
+  });
+});
+
+describe('getCandleOpen', () => {
+  const time = utc('2024-02-29T13:47:12.345Z');
+
+  test('aligns fixed intervals to the epoch', () => {
+    expect(iso(getCandleOpen(time, '1s'))).toBe('2024-02-29T13:47:12.000Z');
+    expect(iso(getCandleOpen(time, '15m'))).toBe('2024-02-29T13:45:00.000Z');
+    expect(iso(getCandleOpen(time, '4h'))).toBe('2024-02-29T12:00:00.000Z');
+    expect(iso(getCandleOpen(time, '1d'))).toBe('2024-02-29T00:00:00.000Z');
+  });
+
+  test('opens weeks on Monday', () => {
+    expect(iso(getCandleOpen(time, '1w'))).toBe('2024-02-26T00:00:00.000Z');
+    expect(iso(getCandleOpen(utc('2024-03-04T00:00:00.000Z'), '1w'))).toBe('2024-03-04T00:00:00.000Z');
+    expect(iso(getCandleOpen(utc('2024-03-03T23:59:59.999Z'), '1w'))).toBe('2024-02-26T00:00:00.000Z');
+  });
+
+  test('opens months on the first', () => {
+    expect(iso(getCandleOpen(time, '1M'))).toBe('2024-02-01T00:00:00.000Z');
+  });
+});
+
+describe('getCandleClose', () => {
+  test('ends on the last millisecond before the next open', () => {
+    expect(iso(getCandleClose(utc('2024-02-29T12:00:00.000Z'), '4h'))).toBe('2024-02-29T15:59:59.999Z');
+    expect(iso(getCandleClose(utc('2024-02-26T00:00:00.000Z'), '1w'))).toBe('2024-03-03T23:59:59.999Z');
+  });
+
+  test('follows the calendar length of months', () => {
+    expect(iso(getCandleClose(utc('2024-02-01T00:00:00.000Z'), '1M'))).toBe('2024-02-29T23:59:59.999Z');
+    expect(iso(getCandleClose(utc('2023-02-01T00:00:00.000Z'), '1M'))).toBe('2023-02-28T23:59:59.999Z');
+    expect(iso(getCandleClose(utc('2024-12-01T00:00:00.000Z'), '1M'))).toBe('2024-12-31T23:59:59.999Z');
+  });
+});
+
+describe('addIntervals', () => {
+  test('moves forward and back by whole candles', () => {
+    expect(iso(addIntervals(utc('2024-02-29T12:00:00.000Z'), '4h', 3))).toBe('2024-03-01T00:00:00.000Z');
+    expect(iso(addIntervals(utc('2024-02-29T12:00:00.000Z'), '1h', -13))).toBe('2024-02-28T23:00:00.000Z');
+  });
+
+  test('crosses years on months', () => {
+    expect(iso(addIntervals(utc('2024-11-01T00:00:00.000Z'), '1M', 3))).toBe('2025-02-01T00:00:00.000Z');
+    expect(iso(addIntervals(utc('2024-01-01T00:00:00.000Z'), '1M', -1))).toBe('2023-12-01T00:00:00.000Z');
+  });
+});
+
+describe('labels', () => {
+  test('names the interval', () => {
+    expect(formatInterval('1m')).toBe('1 Minute');
+    expect(formatInterval('4h')).toBe('4 Hours');
+    expect(formatInterval('1M')).toBe('1 Month');
+  });
+
+  test('picks a date format fine enough to tell candles apart', () => {
+    expect(getIntervalTimeFormat('1s')).toBe('HH:mm:ss');
+    expect(getIntervalTimeFormat('5m')).toBe('HH:mm');
+    expect(getIntervalTimeFormat('6h')).toBe('MM-DD HH:mm');
+    expect(getIntervalTimeFormat('1w')).toBe('MM-DD');
+    expect(getIntervalTimeFormat('1M')).toBe('YYYY-MM');
+  });
+});
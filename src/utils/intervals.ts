@@ -0,0 +1,166 @@
+/**
+ * Kline intervals
+ * This file contains the interval model shared by the whole app: the Binance
+ * interval codes, their durations, where candles open and close, and labels.
+ * Candle boundaries follow Binance in UTC: fixed intervals are aligned to the
+ * Unix epoch, weeks open on Monday and months on the first day of the month,
+ * so a month is as long as the calendar says rather than a fixed 30 days.
+ */
+
+export type IntervalUnit = 's' | 'm' | 'h' | 'd' | 'w' | 'M';
+
+export interface IntervalSpec {
+  count: number;
+  unit: IntervalUnit;
+}
+
+// Every kline interval Binance serves, shortest first
+export const INTERVALS = [
+  '1s',
+  '1m', '3m', '5m', '15m', '30m',
+  '1h', '2h', '4h', '6h', '8h', '12h',
+  '1d', '3d',
+  '1w',
+  '1M'
+];
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+// Length of one unit; a month is given its average length here and only used
+// where an approximation is fine
+const UNIT_MILLISECONDS: Record<IntervalUnit, number> = {
+  s: SECOND,
+  m: MINUTE,
+  h: HOUR,
+  d: DAY,
+  w: WEEK,
+  M: 30 * DAY
+};
+
+const UNIT_NAMES: Record<IntervalUnit, string> = {
+  s: 'Second',
+  m: 'Minute',
+  h: 'Hour',
+  d: 'Day',
+  w: 'Week',
+  M: 'Month'
+};
+
+// 1970-01-01 was a Thursday; Binance weeks open on Monday 00:00 UTC
+const WEEK_OFFSET = 4 * DAY;
+
+/**
+ * Parse an interval code
+ * @param interval - Binance interval (e.g., '15m', '4h', '1M')
+ * @returns Count and unit of the interval
+ * @throws Error when the code is not a Binance interval
+ */
+export const parseInterval = (interval: string): IntervalSpec => {
+  if (!INTERVALS.includes(interval)) {
+    throw new Error(`Unsupported interval: ${interval}`);
+  }
+
+  return {
+    count: parseInt(interval.slice(0, -1), 10),
+    unit: interval.slice(-1) as IntervalUnit
+  };
+};
+
+/**
+ * Check whether a value is a Binance interval code
+ * @param interval - Candidate interval
+ * @returns Whether parseInterval accepts it
+ */
+export const isInterval = (interval: string): boolean => INTERVALS.includes(interval);
+
+/**
+ * Nominal length of an interval
+ * @param interval - Binance interval (e.g., '1m', '1h', '1d')
+ * @returns Milliseconds; a month counts as 30 days, use getCandleClose for exact month ends
+ */
+export const getIntervalDuration = (interval: string): number => {
+  const { count, unit } = parseInterval(interval);
+  return count * UNIT_MILLISECONDS[unit];
+};
+
+/**
+ * Move a candle open time by a number of candles
+ * @param openTime - Epoch ms of a candle open
+ * @param interval - Binance interval
+ * @param candles - Candles to move; negative moves back
+ * @returns Epoch ms of the candle open that many candles away
+ */
+export const addIntervals = (openTime: number, interval: string, candles: number): number => {
+  const { count, unit } = parseInterval(interval);
+  if (unit !== 'M') {
+    return openTime + candles * count * UNIT_MILLISECONDS[unit];
+  }
+
+  const date = new Date(openTime);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + candles * count, 1);
+};
+
+/**
+ * Open time of the candle a time falls in
+ * @param time - Epoch ms
+ * @param interval - Binance interval
+ * @returns Epoch ms of the candle open
+ */
+export const getCandleOpen = (time: number, interval: string): number => {
+  const { unit } = parseInterval(interval);
+
+  if (unit === 'M') {
+    const date = new Date(time);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+
+  const duration = getIntervalDuration(interval);
+  const offset = unit === 'w' ? WEEK_OFFSET : 0;
+  return Math.floor((time - offset) / duration) * duration + offset;
+};
+
+/**
+ * Close time of a candle, as Binance reports it: the last millisecond before
+ * the next candle opens
+ * @param openTime - Epoch ms of the candle open
+ * @param interval - Binance interval
+ * @returns Epoch ms of the candle close
+ */
+export const getCandleClose = (openTime: number, interval: string): number => {
+  return addIntervals(openTime, interval, 1) - 1;
+};
+
+/**
+ * Human-readable interval name
+ * @param interval - Binance interval (e.g., '1m', '4h', '1M')
+ * @returns Label such as '1 Minute' or '4 Hours'
+ */
+export const formatInterval = (interval: string): string => {
+  const { count, unit } = parseInterval(interval);
+  return `${count} ${UNIT_NAMES[unit]}${count !== 1 ? 's' : ''}`;
+};
+
+/**
+ * Date format that tells candles of an interval apart, for formatDate
+ * @param interval - Binance interval
+ * @returns Format string (e.g., 'HH:mm' for minutes, 'YYYY-MM' for months)
+ */
+export const getIntervalTimeFormat = (interval: string): string => {
+  switch (parseInterval(interval).unit) {
+    case 's':
+      return 'HH:mm:ss';
+    case 'm':
+      return 'HH:mm';
+    case 'h':
+      return 'MM-DD HH:mm';
+    case 'd':
+    case 'w':
+      return 'MM-DD';
+    case 'M':
+      return 'YYYY-MM';
+  }
+};
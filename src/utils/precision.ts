@@ -0,0 +1,70 @@
+/**
+ * Precision utilities
+ * This file contains functions that work out how many decimals a symbol's
+ * prices and quantities are quoted with, based on the exchange filters
+ */
+
+import { SymbolInfo } from '../types/api';
+
+export interface SymbolPrecision {
+  // Decimals of a price (from PRICE_FILTER.tickSize)
+  price: number;
+  // Decimals of a quantity (from LOT_SIZE.stepSize)
+  quantity: number;
+}
+
+// Used when nothing is known about the symbol
+export const DEFAULT_PRECISION: SymbolPrecision = { price: 2, quantity: 4 };
+
+const MAX_DECIMALS = 8;
+
+/**
+ * Number of decimals implied by a filter step
+ * @param step - Step as sent by the exchange (e.g., '0.00100000', '1e-8')
+ * @returns Decimals needed to show every multiple of the step
+ */
+export const decimalsFromStep = (step: string | number): number => {
+  const value = Number(step);
+  if (!isFinite(value) || value <= 0) {
+    return 0;
+  }
+
+  // Printing with the maximum decimals avoids exponent notation for tiny steps
+  const [, fraction = ''] = value.toFixed(MAX_DECIMALS).split('.');
+  return fraction.replace(/0+$/, '').length;
+};
+
+/**
+ * Estimate price decimals from a price when the symbol filters are unknown
+ * @param price - Any recent price of the symbol
+ * @returns Decimals that show about five significant digits
+ */
+export const inferPriceDecimals = (price: number): number => {
+  if (!isFinite(price) || price <= 0) {
+    return DEFAULT_PRECISION.price;
+  }
+
+  const magnitude = Math.floor(Math.log10(price));
+  return Math.min(Math.max(4 - magnitude, 2), MAX_DECIMALS);
+};
+
+/**
+ * Precision of a symbol
+ * @param info - Listing of the symbol, if known
+ * @param referencePrice - Recent price, used to estimate precision without a listing
+ * @returns Price and quantity decimals
+ */
+export const getSymbolPrecision = (
+  info: SymbolInfo | undefined,
+  referencePrice?: number
+): SymbolPrecision => {
+  if (info) {
+    return { price: info.priceDecimals, quantity: info.quantityDecimals };
+  }
+
+  if (referencePrice !== undefined) {
+    return { ...DEFAULT_PRECISION, price: inferPriceDecimals(referencePrice) };
+  }
+
+  return DEFAULT_PRECISION;
+};